@@ -0,0 +1,134 @@
+import { useState, useEffect } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { NO_ACCOMMODATION, saveAccommodation, toAccommodation } from "@/lib/accommodations";
+import type { StudentAccommodation } from "@/lib/accommodations";
+import type { Accommodation } from "@/lib/allocation";
+import { Accessibility } from "lucide-react";
+
+interface AccommodationDialogProps {
+  student: { id: string; name: string; roll_number: string };
+  accommodation?: StudentAccommodation;
+  onSaved: () => void;
+}
+
+type SeatingNeed = 'ground_floor' | 'front_bench' | 'separate_room' | 'scribe';
+
+const SEATING_NEEDS: { key: SeatingNeed; label: string; hint: string }[] = [
+  { key: 'ground_floor', label: 'Ground floor', hint: 'Only rooms on floor 0' },
+  { key: 'front_bench', label: 'Front bench', hint: 'A seat in the front row' },
+  { key: 'separate_room', label: 'Separate room', hint: 'A room with no other students' },
+  { key: 'scribe', label: 'Scribe', hint: 'Sits alone so the scribe can read and write aloud' }
+];
+
+const AccommodationDialog = ({ student, accommodation, onSaved }: AccommodationDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [needs, setNeeds] = useState<Accommodation>(NO_ACCOMMODATION);
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setNeeds(accommodation ? toAccommodation(accommodation) : NO_ACCOMMODATION);
+    setNotes(accommodation?.notes ?? '');
+  }, [open, accommodation]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+
+    try {
+      await saveAccommodation(student.id, needs, notes.trim() || null);
+      toast({
+        title: "Accommodation Saved",
+        description: `${student.name}'s accommodation applies from the next seating generated.`
+      });
+      setOpen(false);
+      onSaved();
+    } catch (error) {
+      console.error('Error saving accommodation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the accommodation. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" title="Accommodations">
+          <Accessibility className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Accommodations • {student.roll_number}</DialogTitle>
+          <DialogDescription>
+            Seating needs and extra time for {student.name}. Seating honours them wherever a suitable room is free.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-3">
+            {SEATING_NEEDS.map(({ key, label, hint }) => (
+              <div key={key} className="flex items-start space-x-2">
+                <Checkbox
+                  id={`need-${key}`}
+                  checked={needs[key]}
+                  onCheckedChange={(checked) => setNeeds({ ...needs, [key]: checked === true })}
+                />
+                <label htmlFor={`need-${key}`} className="text-sm leading-none">
+                  <span className="font-medium">{label}</span>
+                  <span className="block text-xs text-gray-500 mt-1">{hint}</span>
+                </label>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <Label htmlFor="extra-time">Extra time (minutes)</Label>
+            <Input
+              id="extra-time"
+              type="number"
+              min="0"
+              step="5"
+              value={needs.extra_time_minutes}
+              onChange={(e) => setNeeds({ ...needs, extra_time_minutes: Math.max(0, parseInt(e.target.value) || 0) })}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="accommodation-notes">Notes</Label>
+            <Textarea
+              id="accommodation-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. Scribe arranged by the examination cell"
+              rows={2}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AccommodationDialog;
@@ -0,0 +1,277 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import type { AllocationClassroom, FillOptions, SeatingRule } from "@/lib/allocation";
+import { BATCH_OUTCOME_LABELS, examsInScope, groupSessions, runBatchAllocation } from "@/lib/batch-allocation";
+import type { BatchExam, BatchExamResult, BatchOutcome, BatchScope } from "@/lib/batch-allocation";
+import type { CapacityProfileRow } from "@/lib/capacity-profiles";
+import { Layers } from "lucide-react";
+
+interface BatchAllocationDialogProps {
+  exams: BatchExam[];
+  combinations: (SeatingRule & { id: string; name: string })[];
+  defaultCombinationId: string;
+  // The rooms ticked and the fill policy chosen on the allocation page
+  classrooms: AllocationClassroom[];
+  fill: FillOptions;
+  profiles: CapacityProfileRow[];
+  performedBy: string;
+  onFinished: () => void;
+}
+
+const OUTCOME_BADGE_VARIANTS: Record<BatchOutcome, 'default' | 'secondary' | 'destructive'> = {
+  allocated: 'default',
+  skipped: 'secondary',
+  failed: 'destructive'
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const BatchAllocationDialog = ({
+  exams,
+  combinations,
+  defaultCombinationId,
+  classrooms,
+  fill,
+  profiles,
+  performedBy,
+  onFinished
+}: BatchAllocationDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [scopeKind, setScopeKind] = useState<BatchScope['kind']>('dates');
+  const [from, setFrom] = useState(today);
+  const [to, setTo] = useState(today);
+  const [examType, setExamType] = useState('');
+  const [combinationId, setCombinationId] = useState('');
+  const [skipSeated, setSkipSeated] = useState(true);
+  const [avoidRepeats, setAvoidRepeats] = useState(true);
+  const [publish, setPublish] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [results, setResults] = useState<BatchExamResult[]>([]);
+  const { toast } = useToast();
+
+  const examTypes = [...new Set(exams.map(e => e.exam_type).filter((type): type is string => Boolean(type)))].sort();
+  const scope: BatchScope = scopeKind === 'series' ? { kind: 'series', examType } : { kind: 'dates', from, to };
+  const scoped = examsInScope(exams, scope);
+  const sessions = groupSessions(scoped);
+  const combination = combinations.find(c => c.id === (combinationId || defaultCombinationId));
+
+  const handleOpenChange = (next: boolean) => {
+    if (isRunning) return;
+    setOpen(next);
+    if (next) {
+      setResults([]);
+      setProgress(null);
+    }
+  };
+
+  const runBatch = async () => {
+    if (!combination || scoped.length === 0) return;
+
+    setIsRunning(true);
+    setResults([]);
+    setProgress({ done: 0, total: sessions.length });
+
+    try {
+      const all = await runBatchAllocation(
+        scoped,
+        {
+          rule: combination,
+          combinationId: combination.id,
+          classrooms,
+          profiles,
+          fill,
+          avoidRepeats,
+          skipSeated,
+          publish,
+          performedBy
+        },
+        (sessionResults, done, total) => {
+          setResults(current => [...current, ...sessionResults]);
+          setProgress({ done, total });
+        }
+      );
+
+      const failed = all.filter(r => r.outcome === 'failed').length;
+      toast({
+        title: failed > 0 ? "Batch Finished with Failures" : "Batch Allocation Complete",
+        description: `${all.filter(r => r.outcome === 'allocated').length} allocated, ${all.filter(r => r.outcome === 'skipped').length} skipped, ${failed} failed.`,
+        variant: failed > 0 ? "destructive" : undefined
+      });
+    } catch (error) {
+      console.error('Error running batch allocation:', error);
+      toast({
+        title: "Batch Failed",
+        description: "Failed to start the batch. Exams already allocated keep their new seating.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsRunning(false);
+      onFinished();
+    }
+  };
+
+  const counts = (outcome: BatchOutcome) => results.filter(r => r.outcome === outcome).length;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Layers className="h-4 w-4 mr-2" />
+          Batch Allocate
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Batch Allocation</DialogTitle>
+          <DialogDescription>
+            Allocates every scheduled exam on a range of days or in one series, time slot by time slot. Exams sharing
+            a slot are seated together, and each slot keeps clear of the seats earlier slots took. Uses the rooms
+            ticked and the fill policy chosen on this page.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Allocate</Label>
+              <Select value={scopeKind} onValueChange={(value) => setScopeKind(value as BatchScope['kind'])} disabled={isRunning}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="dates">Every exam between two dates</SelectItem>
+                  <SelectItem value="series">Every exam of a series</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Seating Combination</Label>
+              <Select value={combination?.id ?? ''} onValueChange={setCombinationId} disabled={isRunning}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a combination" />
+                </SelectTrigger>
+                <SelectContent>
+                  {combinations.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {scopeKind === 'dates' ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="batch-from">From</Label>
+                <Input id="batch-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} disabled={isRunning} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="batch-to">To</Label>
+                <Input id="batch-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} disabled={isRunning} />
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label>Exam Series</Label>
+              <Select value={examType} onValueChange={setExamType} disabled={isRunning}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose an exam type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {examTypes.map((type) => (
+                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <div className="flex items-center space-x-2">
+              <Switch id="batch-skip-seated" checked={skipSeated} onCheckedChange={setSkipSeated} disabled={isRunning} />
+              <Label htmlFor="batch-skip-seated">Skip exams that already have seating</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch id="batch-avoid-repeats" checked={avoidRepeats} onCheckedChange={setAvoidRepeats} disabled={isRunning} />
+              <Label htmlFor="batch-avoid-repeats">Avoid neighbours and rooms students had in earlier papers of their series</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch id="batch-publish" checked={publish} onCheckedChange={setPublish} disabled={isRunning} />
+              <Label htmlFor="batch-publish">Publish to students as each slot is saved; otherwise re-seated exams go back to draft</Label>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+            <span>
+              {scoped.length} scheduled exam(s) in {sessions.length} time slot(s)
+              {classrooms.length === 0 && <span className="text-red-600"> • no rooms ticked</span>}
+            </span>
+            <Button
+              onClick={runBatch}
+              disabled={isRunning || !combination || scoped.length === 0 || classrooms.length === 0}
+            >
+              {isRunning ? 'Allocating...' : `Allocate ${scoped.length} Exams`}
+            </Button>
+          </div>
+
+          {progress && (
+            <div className="space-y-2">
+              <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 100} />
+              <div className="flex justify-between text-xs text-gray-600">
+                <span>
+                  {isRunning ? `Time slot ${Math.min(progress.done + 1, progress.total)} of ${progress.total}` : 'Finished'}
+                </span>
+                <span>
+                  {counts('allocated')} allocated • {counts('skipped')} skipped • {counts('failed')} failed
+                </span>
+              </div>
+            </div>
+          )}
+
+          {results.length > 0 && (
+            <div className="overflow-x-auto max-h-80 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b bg-gray-50">
+                    <th className="text-left p-2">Exam</th>
+                    <th className="text-left p-2">Result</th>
+                    <th className="text-left p-2">Seated</th>
+                    <th className="text-left p-2">Notes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.map(({ exam, outcome, seated, total, message }) => (
+                    <tr key={exam.id} className="border-b align-top">
+                      <td className="p-2">
+                        <div className="font-medium">{exam.subject}</div>
+                        <div className="text-xs text-gray-500">
+                          {new Date(exam.exam_date).toLocaleDateString()} • {exam.start_time} - {exam.end_time}
+                        </div>
+                      </td>
+                      <td className="p-2">
+                        <Badge variant={OUTCOME_BADGE_VARIANTS[outcome]}>{BATCH_OUTCOME_LABELS[outcome]}</Badge>
+                      </td>
+                      <td className="p-2">{outcome === 'allocated' ? `${seated} / ${total}` : '—'}</td>
+                      <td className="p-2 text-xs text-gray-600">{message}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BatchAllocationDialog;
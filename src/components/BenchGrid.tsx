@@ -0,0 +1,140 @@
+import { Fragment, ReactNode } from 'react';
+import { cn } from "@/lib/utils";
+import { seatLabel } from "@/lib/allocation";
+import type { DoorPosition, RoomLayout } from "@/lib/allocation";
+
+export type OccupantTone = 'added' | 'moved' | 'violation';
+
+export interface BenchOccupant {
+  bench_number: number;
+  seat_position: number;
+  student: {
+    name: string;
+    roll_number: string;
+    year: string;
+    section: string;
+  };
+  label?: string;
+  // Short tag such as "Arrear", shown prominently so invigilators notice it
+  badge?: string;
+  tone?: OccupantTone;
+}
+
+interface BenchGridProps {
+  layout: RoomLayout;
+  occupants: BenchOccupant[];
+  // With `seatsPerBench`, every seat of a bench is rendered, empty or not
+  seatsPerBench?: number;
+  renderSeat?: (benchNumber: number, seatPosition: number, occupant?: BenchOccupant) => ReactNode;
+}
+
+const toneClasses: Record<OccupantTone, string> = {
+  added: 'border-green-400 bg-green-50',
+  moved: 'border-blue-400 bg-blue-50',
+  violation: 'border-amber-400 bg-amber-50'
+};
+
+export const OccupantCard = ({ occupant, className }: { occupant: BenchOccupant; className?: string }) => (
+  <div className={cn("text-xs bg-white p-1 rounded border", occupant.tone && toneClasses[occupant.tone], className)}>
+    <div className="font-medium truncate">{occupant.student.name}</div>
+    {occupant.badge && (
+      <div className="inline-block px-1 rounded bg-purple-100 text-purple-800 font-semibold uppercase text-[10px]">
+        {occupant.badge}
+      </div>
+    )}
+    <div className="text-gray-500">{occupant.student.roll_number}</div>
+    <div className="text-gray-500">{occupant.student.year} {occupant.student.section}</div>
+    {occupant.label && <div className="text-gray-500 truncate">{occupant.label}</div>}
+  </div>
+);
+
+export const EmptySeat = ({ label, className }: { label: string; className?: string }) => (
+  <div className={cn("text-xs p-1 rounded border border-dashed text-gray-400 min-h-[40px]", className)}>
+    {label}
+  </div>
+);
+
+export const BoardMarker = () => (
+  <div className="text-center text-xs font-medium bg-gray-800 text-white rounded py-1">Board</div>
+);
+
+export const DoorMarker = ({ door, edge }: { door: DoorPosition | null; edge: 'front' | 'back' }) => {
+  if (!door?.startsWith(edge)) return null;
+  return (
+    <div className={cn("text-xs text-amber-700", door.endsWith('right') ? 'text-right' : 'text-left')}>
+      Door
+    </div>
+  );
+};
+
+const BenchGrid = ({ layout, occupants, seatsPerBench, renderSeat }: BenchGridProps) => {
+  const renderSlot = renderSeat ?? ((benchNumber: number, seatPosition: number, occupant?: BenchOccupant) =>
+    occupant
+      ? <OccupantCard occupant={occupant} />
+      : <EmptySeat label={`${seatLabel(seatPosition, seatsPerBench)} • empty`} />
+  );
+
+  // One track per bench column, plus a narrow one wherever an aisle runs
+  const tracks = Array.from({ length: layout.columns }, (_, column) =>
+    layout.aisles.includes(column + 1) ? 'minmax(7rem, 1fr) 1.5rem' : 'minmax(7rem, 1fr)'
+  );
+
+  const renderBench = (benchNumber: number) => {
+    if (benchNumber > layout.benches) return <div />;
+
+    if (layout.disabled.includes(benchNumber)) {
+      return (
+        <div className="border border-dashed rounded p-2 bg-gray-100 min-h-[80px] text-xs text-gray-400">
+          Bench {benchNumber} • unusable
+        </div>
+      );
+    }
+
+    const benchOccupants = occupants
+      .filter(o => o.bench_number === benchNumber)
+      .sort((a, b) => a.seat_position - b.seat_position);
+
+    return (
+      <div className="border rounded p-2 bg-gray-50 min-h-[80px]">
+        <div className="text-xs font-medium text-gray-600 mb-1">Bench {benchNumber}</div>
+        <div className="space-y-1">
+          {seatsPerBench
+            ? Array.from({ length: seatsPerBench }, (_, seatIndex) => (
+                <div key={seatIndex + 1}>
+                  {renderSlot(benchNumber, seatIndex + 1, benchOccupants.find(o => o.seat_position === seatIndex + 1))}
+                </div>
+              ))
+            : benchOccupants.map((occupant) => (
+                <OccupantCard key={`${occupant.bench_number}-${occupant.seat_position}`} occupant={occupant} />
+              ))}
+        </div>
+      </div>
+    );
+  };
+
+  // The row nearest the board is drawn next to it
+  const rows = Array.from({ length: layout.rows }, (_, row) => row);
+  const drawnRows = layout.board === 'bottom' ? rows.reverse() : rows;
+
+  return (
+    <div className="overflow-x-auto space-y-2">
+      {layout.board === 'top' ? <BoardMarker /> : <DoorMarker door={layout.door} edge="back" />}
+      {layout.board === 'top' && <DoorMarker door={layout.door} edge="front" />}
+      <div className="grid gap-2" style={{ gridTemplateColumns: tracks.join(' ') }}>
+        {drawnRows.map((row) => Array.from({ length: layout.columns }, (_, column) => {
+          const slot = row * layout.columns + column;
+          return (
+            <Fragment key={slot}>
+              {renderBench(slot + 1)}
+              {layout.aisles.includes(column + 1) && <div aria-hidden className="border-x border-dotted" />}
+            </Fragment>
+          );
+        }))}
+      </div>
+      {layout.board === 'bottom' && <DoorMarker door={layout.door} edge="front" />}
+      {layout.board === 'top' ? <DoorMarker door={layout.door} edge="back" /> : <BoardMarker />}
+    </div>
+  );
+};
+
+export default BenchGrid;
@@ -0,0 +1,45 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { describeProfile } from "@/lib/allocation";
+import type { CapacityProfile } from "@/lib/allocation";
+
+interface CapacityProfileSelectProps {
+  value: CapacityProfile | null;
+  onChange: (profile: CapacityProfile | null) => void;
+  // Largest bench the profile may apply to
+  maxSeats: number;
+  // Offered as the "no profile of its own" choice, e.g. "Exam type default"
+  inheritLabel: string;
+  className?: string;
+}
+
+const encode = (profile: CapacityProfile | null) =>
+  profile ? `${profile.seats_per_bench ?? 'all'}:${profile.checkerboard ? 'checkerboard' : 'plain'}` : 'inherit';
+
+const decode = (value: string): CapacityProfile | null => {
+  if (value === 'inherit') return null;
+  const [seats, pattern] = value.split(':');
+  return { seats_per_bench: seats === 'all' ? null : parseInt(seats), checkerboard: pattern === 'checkerboard' };
+};
+
+const CapacityProfileSelect = ({ value, onChange, maxSeats, inheritLabel, className }: CapacityProfileSelectProps) => {
+  const options: CapacityProfile[] = [null, ...Array.from({ length: Math.max(0, maxSeats - 1) }, (_, i) => i + 1)]
+    .flatMap(seats => [false, true].map(checkerboard => ({ seats_per_bench: seats, checkerboard })));
+
+  return (
+    <Select value={encode(value)} onValueChange={(next) => onChange(decode(next))}>
+      <SelectTrigger className={className}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="inherit">{inheritLabel}</SelectItem>
+        {options.map((profile) => (
+          <SelectItem key={encode(profile)} value={encode(profile)}>
+            {describeProfile(profile)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default CapacityProfileSelect;
@@ -0,0 +1,139 @@
+import { Fragment } from 'react';
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BoardMarker, DoorMarker } from "@/components/BenchGrid";
+import { cn } from "@/lib/utils";
+import { DOOR_POSITIONS, resolveLayout, toggleListValue, usableBenches } from "@/lib/allocation";
+import type { BoardSide, ClassroomLayout, DoorPosition } from "@/lib/allocation";
+
+interface ClassroomLayoutEditorProps {
+  totalBenches: number;
+  benchesPerRow: number;
+  studentsPerBench: number;
+  layout: ClassroomLayout;
+  onChange: (layout: ClassroomLayout) => void;
+}
+
+const DOOR_LABELS: Record<DoorPosition, string> = {
+  'front-left': 'Front left',
+  'front-right': 'Front right',
+  'back-left': 'Back left',
+  'back-right': 'Back right'
+};
+
+const ClassroomLayoutEditor = ({ totalBenches, benchesPerRow, studentsPerBench, layout, onChange }: ClassroomLayoutEditorProps) => {
+  const room = resolveLayout({
+    id: '',
+    room_number: '',
+    building: null,
+    total_benches: totalBenches,
+    benches_per_row: benchesPerRow,
+    students_per_bench: studentsPerBench,
+    layout
+  });
+  const usable = usableBenches(room).length;
+
+  // Toggles only touch benches and columns that exist in the current grid
+  const toggleBench = (bench: number) => onChange({ ...layout, disabled: toggleListValue(room.disabled, bench) });
+  const toggleAisle = (column: number) => onChange({ ...layout, aisles: toggleListValue(room.aisles, column) });
+
+  const tracks = Array.from({ length: room.columns }, (_, column) =>
+    column + 1 < room.columns ? `3.5rem ${room.aisles.includes(column + 1) ? '1.5rem' : '0.5rem'}` : '3.5rem'
+  );
+  const rows = Array.from({ length: room.rows }, (_, row) => row);
+
+  if (totalBenches < 1 || benchesPerRow < 1) {
+    return <p className="text-sm text-muted-foreground">Enter the number of benches to lay out the room.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Board Position</Label>
+          <Select value={layout.board} onValueChange={(value) => onChange({ ...layout, board: value as BoardSide })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="top">Top of plan</SelectItem>
+              <SelectItem value="bottom">Bottom of plan</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Door</Label>
+          <Select
+            value={layout.door ?? 'none'}
+            onValueChange={(value) => onChange({ ...layout, door: value === 'none' ? null : value as DoorPosition })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Not marked</SelectItem>
+              {DOOR_POSITIONS.map((position) => (
+                <SelectItem key={position} value={position}>{DOOR_LABELS[position]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="border rounded p-3 space-y-2 overflow-x-auto">
+        {layout.board === 'top' ? <BoardMarker /> : <DoorMarker door={layout.door} edge="back" />}
+        {layout.board === 'top' && <DoorMarker door={layout.door} edge="front" />}
+        <div className="grid gap-y-2 w-max" style={{ gridTemplateColumns: tracks.join(' ') }}>
+          {(layout.board === 'top' ? rows : [...rows].reverse()).map((row) => (
+            <Fragment key={row}>
+              {Array.from({ length: room.columns }, (_, column) => {
+                const bench = row * room.columns + column + 1;
+                const isDisabled = room.disabled.includes(bench);
+                const hasAisle = room.aisles.includes(column + 1);
+
+                return (
+                  <Fragment key={column}>
+                    {bench <= room.benches ? (
+                      <button
+                        type="button"
+                        onClick={() => toggleBench(bench)}
+                        title={isDisabled ? 'Mark usable' : 'Mark unusable'}
+                        className={cn(
+                          "h-10 rounded border text-xs",
+                          isDisabled ? "border-dashed bg-gray-100 text-gray-400 line-through" : "bg-white hover:bg-blue-50"
+                        )}
+                      >
+                        {bench}
+                      </button>
+                    ) : (
+                      <div />
+                    )}
+                    {column + 1 < room.columns && (
+                      <button
+                        type="button"
+                        onClick={() => toggleAisle(column + 1)}
+                        title={hasAisle ? 'Remove aisle' : 'Add aisle'}
+                        className={cn("h-10 rounded", hasAisle ? "border-x border-dotted border-gray-400" : "hover:bg-gray-200")}
+                      />
+                    )}
+                  </Fragment>
+                );
+              })}
+            </Fragment>
+          ))}
+        </div>
+        {layout.board === 'bottom' && <DoorMarker door={layout.door} edge="front" />}
+        {layout.board === 'top' ? <DoorMarker door={layout.door} edge="back" /> : <BoardMarker />}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Click a bench to mark it unusable, or the gap between two columns to add an aisle. Bench 1 sits in the row nearest the board.
+      </p>
+      <div className="text-sm text-muted-foreground">
+        Exam Capacity: {usable * studentsPerBench} students ({usable} of {room.benches} benches usable)
+      </div>
+    </div>
+  );
+};
+
+export default ClassroomLayoutEditor;
@@ -8,21 +8,37 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { useToast } from "@/hooks/use-toast";
+import ClassroomLayoutEditor from "@/components/ClassroomLayoutEditor";
+import RoomEvacuationDialog from "@/components/RoomEvacuationDialog";
+import type { EvacuationAction } from "@/components/RoomEvacuationDialog";
+import EvacuationReport from "@/components/EvacuationReport";
+import { fetchRoomBookings, fetchSeatsLostByEdit } from "@/lib/evacuation";
+import type { RoomBooking, RoomEvacuation } from "@/lib/evacuation";
+import { EMPTY_LAYOUT, parseLayout } from "@/lib/allocation";
+import type { ClassroomLayout } from "@/lib/allocation";
 import { Plus, Edit, Trash2, Building } from "lucide-react";
 
 interface Classroom {
   id: string;
   room_number: string;
   building: string;
+  floor: number | null;
   total_benches: number;
   benches_per_row: number;
   students_per_bench: number;
   total_capacity: number;
   is_active: boolean;
+  layout: Json;
 }
 
-const ClassroomManagement = () => {
+interface ClassroomManagementProps {
+  // Faculty member named in the log when frozen seating has to move
+  performedBy: string;
+}
+
+const ClassroomManagement = ({ performedBy }: ClassroomManagementProps) => {
   const [classrooms, setClassrooms] = useState<Classroom[]>([]);
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
@@ -30,10 +46,14 @@ const ClassroomManagement = () => {
   const [formData, setFormData] = useState({
     room_number: '',
     building: '',
+    floor: null as number | null,
     total_benches: 0,
     benches_per_row: 0,
     students_per_bench: 2,
   });
+  const [layout, setLayout] = useState<ClassroomLayout>(EMPTY_LAYOUT);
+  const [evacuating, setEvacuating] = useState<{ classroom: Classroom; action: EvacuationAction; bookings: RoomBooking[] } | null>(null);
+  const [evacuationReport, setEvacuationReport] = useState<RoomEvacuation | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -64,10 +84,24 @@ const ClassroomManagement = () => {
     e.preventDefault();
     
     try {
+      const payload = { ...formData, layout: { ...layout } };
+
       if (editingClassroom) {
+        // Students keep their seats until someone moves them, so the room cannot lose those seats first
+        const lost = await fetchSeatsLostByEdit({ id: editingClassroom.id, ...payload });
+        if (lost.length > 0) {
+          const subjects = [...new Set(lost.map(seat => seat.subject))].join(', ');
+          toast({
+            title: "Seats Still In Use",
+            description: `${lost.length} student${lost.length === 1 ? '' : 's'} of ${subjects} sit on benches or seats this change removes. Move them in the seat editor, or deactivate the room to move everyone, before saving.`,
+            variant: "destructive",
+          });
+          return;
+        }
+
         const { error } = await supabase
           .from('classrooms')
-          .update(formData)
+          .update(payload)
           .eq('id', editingClassroom.id);
 
         if (error) throw error;
@@ -75,7 +109,7 @@ const ClassroomManagement = () => {
       } else {
         const { error } = await supabase
           .from('classrooms')
-          .insert([formData]);
+          .insert([payload]);
 
         if (error) throw error;
         toast({ title: "Success", description: "Classroom created successfully" });
@@ -86,10 +120,12 @@ const ClassroomManagement = () => {
       setFormData({
         room_number: '',
         building: '',
+        floor: null,
         total_benches: 0,
         benches_per_row: 0,
         students_per_bench: 2,
       });
+      setLayout(EMPTY_LAYOUT);
       fetchClassrooms();
     } catch (error: any) {
       toast({
@@ -105,16 +141,57 @@ const ClassroomManagement = () => {
     setFormData({
       room_number: classroom.room_number,
       building: classroom.building || '',
+      floor: classroom.floor,
       total_benches: classroom.total_benches,
       benches_per_row: classroom.benches_per_row,
       students_per_bench: classroom.students_per_bench,
     });
+    setLayout(parseLayout(classroom.layout));
     setDialogOpen(true);
   };
 
-  const handleDelete = async (id: string) => {
+  // Rooms seating students for upcoming exams are emptied first; true when that was needed
+  const needsEvacuation = async (classroom: Classroom, action: EvacuationAction) => {
+    const bookings = await fetchRoomBookings(classroom.id);
+    if (bookings.length === 0) return false;
+
+    setEvacuating({ classroom, action, bookings });
+    return true;
+  };
+
+  const handleEvacuated = async (evacuation: RoomEvacuation) => {
+    if (!evacuating) return;
+    const { classroom, action } = evacuating;
+
+    setEvacuating(null);
+    setEvacuationReport(evacuation);
+
+    if (action === 'delete') {
+      await deleteClassroom(classroom.id);
+    } else {
+      await setActive(classroom.id, false);
+    }
+  };
+
+  const handleDelete = async (classroom: Classroom) => {
     if (!confirm('Are you sure you want to delete this classroom?')) return;
 
+    try {
+      if (await needsEvacuation(classroom, 'delete')) return;
+    } catch (error) {
+      console.error('Error checking room bookings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to check the room's upcoming seating",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await deleteClassroom(classroom.id);
+  };
+
+  const deleteClassroom = async (id: string) => {
     try {
       const { error } = await supabase
         .from('classrooms')
@@ -133,11 +210,29 @@ const ClassroomManagement = () => {
     }
   };
 
-  const toggleActive = async (id: string, currentStatus: boolean) => {
+  const toggleActive = async (classroom: Classroom) => {
+    if (classroom.is_active) {
+      try {
+        if (await needsEvacuation(classroom, 'deactivate')) return;
+      } catch (error) {
+        console.error('Error checking room bookings:', error);
+        toast({
+          title: "Error",
+          description: "Failed to check the room's upcoming seating",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    await setActive(classroom.id, !classroom.is_active);
+  };
+
+  const setActive = async (id: string, isActive: boolean) => {
     try {
       const { error } = await supabase
         .from('classrooms')
-        .update({ is_active: !currentStatus })
+        .update({ is_active: isActive })
         .eq('id', id);
 
       if (error) throw error;
@@ -157,7 +252,7 @@ const ClassroomManagement = () => {
 
   return (
     <div className="space-y-6">
-      <div className="flex justify-between items-center">
+      <div className={`flex justify-between items-center ${evacuationReport ? 'print:hidden' : ''}`}>
         <div>
           <h2 className="text-2xl font-bold">Classroom Management</h2>
           <p className="text-muted-foreground">Manage examination rooms and their seating arrangements</p>
@@ -169,7 +264,7 @@ const ClassroomManagement = () => {
               Add Classroom
             </Button>
           </DialogTrigger>
-          <DialogContent>
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>
                 {editingClassroom ? 'Edit Classroom' : 'Add New Classroom'}
@@ -179,7 +274,7 @@ const ClassroomManagement = () => {
               </DialogDescription>
             </DialogHeader>
             <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
+              <div className="grid grid-cols-3 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="room_number">Room Number</Label>
                   <Input
@@ -199,6 +294,16 @@ const ClassroomManagement = () => {
                     placeholder="Academic Block A"
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="floor">Floor</Label>
+                  <Input
+                    id="floor"
+                    type="number"
+                    value={formData.floor ?? ''}
+                    onChange={(e) => setFormData({...formData, floor: e.target.value === '' ? null : parseInt(e.target.value)})}
+                    placeholder="0 for ground"
+                  />
+                </div>
               </div>
               <div className="grid grid-cols-3 gap-4">
                 <div className="space-y-2">
@@ -229,16 +334,20 @@ const ClassroomManagement = () => {
                     id="students_per_bench"
                     type="number"
                     min="1"
-                    max="3"
+                    max="8"
                     value={formData.students_per_bench}
                     onChange={(e) => setFormData({...formData, students_per_bench: parseInt(e.target.value) || 2})}
                     required
                   />
                 </div>
               </div>
-              <div className="text-sm text-muted-foreground">
-                Total Capacity: {formData.total_benches * formData.students_per_bench} students
-              </div>
+              <ClassroomLayoutEditor
+                totalBenches={formData.total_benches}
+                benchesPerRow={formData.benches_per_row}
+                studentsPerBench={formData.students_per_bench}
+                layout={layout}
+                onChange={setLayout}
+              />
               <div className="flex justify-end space-x-2">
                 <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
                   Cancel
@@ -252,7 +361,15 @@ const ClassroomManagement = () => {
         </Dialog>
       </div>
 
-      <Card>
+      {evacuationReport && (
+        <EvacuationReport
+          evacuation={evacuationReport}
+          classrooms={classrooms}
+          onClose={() => setEvacuationReport(null)}
+        />
+      )}
+
+      <Card className={evacuationReport ? 'print:hidden' : undefined}>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Building className="h-5 w-5" />
@@ -280,8 +397,18 @@ const ClassroomManagement = () => {
               {classrooms.map((classroom) => (
                 <TableRow key={classroom.id}>
                   <TableCell className="font-medium">{classroom.room_number}</TableCell>
-                  <TableCell>{classroom.building}</TableCell>
-                  <TableCell>{classroom.total_benches}</TableCell>
+                  <TableCell>
+                    {classroom.building}
+                    {classroom.floor !== null && (
+                      <span className="text-xs text-muted-foreground"> • Floor {classroom.floor}</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {classroom.total_benches}
+                    {parseLayout(classroom.layout).disabled.length > 0 && (
+                      <span className="text-xs text-muted-foreground"> ({parseLayout(classroom.layout).disabled.length} unusable)</span>
+                    )}
+                  </TableCell>
                   <TableCell>
                     {classroom.benches_per_row} × {Math.ceil(classroom.total_benches / classroom.benches_per_row)}
                   </TableCell>
@@ -294,7 +421,7 @@ const ClassroomManagement = () => {
                     <Badge 
                       variant={classroom.is_active ? "default" : "secondary"}
                       className="cursor-pointer"
-                      onClick={() => toggleActive(classroom.id, classroom.is_active)}
+                      onClick={() => toggleActive(classroom)}
                     >
                       {classroom.is_active ? "Active" : "Inactive"}
                     </Badge>
@@ -311,7 +438,7 @@ const ClassroomManagement = () => {
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => handleDelete(classroom.id)}
+                        onClick={() => handleDelete(classroom)}
                       >
                         <Trash2 className="h-4 w-4" />
                       </Button>
@@ -323,6 +450,17 @@ const ClassroomManagement = () => {
           </Table>
         </CardContent>
       </Card>
+
+      {evacuating && (
+        <RoomEvacuationDialog
+          room={evacuating.classroom}
+          action={evacuating.action}
+          bookings={evacuating.bookings}
+          performedBy={performedBy}
+          onCancel={() => setEvacuating(null)}
+          onEvacuated={handleEvacuated}
+        />
+      )}
     </div>
   );
 };
@@ -5,6 +5,10 @@ import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { fetchStudentAccommodation } from "@/lib/accommodations";
+import type { StudentAccommodation } from "@/lib/accommodations";
+import { adjustedEndTime, seatLabel } from "@/lib/allocation";
+import { STUDENT_VISIBLE_STATUSES } from "@/lib/allocation-status";
 import { Calendar, Clock, Users, Building, BookOpen, TrendingUp } from "lucide-react";
 
 interface DashboardProps {
@@ -38,6 +42,7 @@ const Dashboard = ({ userType, userData }: DashboardProps) => {
   });
   const [upcomingExams, setUpcomingExams] = useState<Exam[]>([]);
   const [studentSeating, setStudentSeating] = useState<any[]>([]);
+  const [accommodation, setAccommodation] = useState<StudentAccommodation | null>(null);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
 
@@ -76,6 +81,9 @@ const Dashboard = ({ userType, userData }: DashboardProps) => {
       if (examsError) throw examsError;
       setUpcomingExams(exams || []);
 
+      // Extra time pushes back when this student's exams end
+      setAccommodation(await fetchStudentAccommodation(userData.id));
+
     } catch (error: any) {
       toast({
         title: "Error",
@@ -89,15 +97,16 @@ const Dashboard = ({ userType, userData }: DashboardProps) => {
 
   const fetchStudentDashboard = async () => {
     try {
-      // Fetch student's seating allocations
+      // Fetch student's seating allocations; draft plans stay hidden until published
       const { data: allocations, error } = await supabase
         .from('seating_allocations')
         .select(`
           *,
-          exams (subject, exam_date, start_time, end_time),
-          classrooms (room_number, building)
+          exams!inner (subject, exam_date, start_time, end_time, allocation_status),
+          classrooms (room_number, building, students_per_bench)
         `)
         .eq('student_id', userData.id)
+        .in('exams.allocation_status', STUDENT_VISIBLE_STATUSES)
         .order('exams.exam_date', { ascending: true });
 
       if (error) throw error;
@@ -311,7 +320,14 @@ const Dashboard = ({ userType, userData }: DashboardProps) => {
                     <TableRow key={exam.id}>
                       <TableCell className="font-medium">{exam.subject}</TableCell>
                       <TableCell>{formatDate(exam.exam_date)}</TableCell>
-                      <TableCell>{formatTime(exam.start_time)} - {formatTime(exam.end_time)}</TableCell>
+                      <TableCell>
+                        {formatTime(exam.start_time)} - {formatTime(adjustedEndTime(exam.end_time, accommodation))}
+                        {accommodation && accommodation.extra_time_minutes > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            Includes {accommodation.extra_time_minutes} min extra time
+                          </div>
+                        )}
+                      </TableCell>
                       <TableCell>
                         <Badge variant={exam.status === 'scheduled' ? "default" : "secondary"}>
                           {exam.status}
@@ -357,7 +373,7 @@ const Dashboard = ({ userType, userData }: DashboardProps) => {
                         <TableCell>#{allocation.bench_number}</TableCell>
                         <TableCell>
                           <Badge variant="outline">
-                            {allocation.seat_position === 1 ? 'Left' : 'Right'}
+                            {seatLabel(allocation.seat_position, allocation.classrooms?.students_per_bench)}
                           </Badge>
                         </TableCell>
                       </TableRow>
@@ -0,0 +1,206 @@
+import { useState, useRef } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Upload, FileSpreadsheet, AlertCircle, CheckCircle2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { importEnrolments } from "@/lib/subjects";
+import type { EnrolmentImportResult, EnrolmentRow } from "@/lib/subjects";
+import * as XLSX from 'xlsx';
+
+interface EnrolmentUploadProps {
+  onImported?: () => void;
+}
+
+const toEnrolmentRow = (headers: string[], values: string[]) => {
+  const row: Partial<EnrolmentRow> = {};
+
+  headers.forEach((header, index) => {
+    const value = values[index]?.toString().trim() || '';
+    if (header === 'roll_number' || header === 'roll number') row.roll_number = value;
+    if (header === 'subject_code' || header === 'subject code') row.subject_code = value.toUpperCase();
+    if (header === 'subject_name' || header === 'subject name') row.subject_name = value;
+    if (header === 'department') row.department = value;
+  });
+
+  return row;
+};
+
+const EnrolmentUpload = ({ onImported }: EnrolmentUploadProps) => {
+  const [uploading, setUploading] = useState(false);
+  const [uploadResult, setUploadResult] = useState<EnrolmentImportResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const parseFile = async (file: File): Promise<Partial<EnrolmentRow>[]> => {
+    let table: string[][];
+
+    if (file.name.endsWith('.xlsx') || file.name.endsWith('.xls')) {
+      const workbook = XLSX.read(new Uint8Array(await file.arrayBuffer()), { type: 'array' });
+      const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+      table = XLSX.utils.sheet_to_json<string[]>(worksheet, { header: 1 });
+    } else if (file.name.endsWith('.csv') || file.name.endsWith('.txt')) {
+      table = (await file.text()).split('\n').filter(line => line.trim()).map(line => line.split(','));
+    } else {
+      throw new Error('Unsupported file format. Please use .xlsx, .xls, .csv, or .txt files.');
+    }
+
+    if (table.length < 2) {
+      throw new Error('File must contain at least a header row and one data row');
+    }
+
+    const headers = table[0].map(h => h?.toString().trim().toLowerCase() || '');
+    return table.slice(1)
+      .filter(values => values && values.some(cell => cell))
+      .map(values => toEnrolmentRow(headers, values));
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setUploading(true);
+    setUploadResult(null);
+
+    try {
+      const parsed = await parseFile(file);
+      const missing = parsed
+        .map((row, index) => (!row.roll_number || !row.subject_code) ? `Row ${index + 2}: Missing required fields (roll_number, subject_code)` : null)
+        .filter((error): error is string => !!error);
+      const rows = parsed.filter((row): row is EnrolmentRow => !!row.roll_number && !!row.subject_code);
+
+      if (rows.length === 0) {
+        throw new Error('No valid enrolment data found in the file.');
+      }
+
+      const result = await importEnrolments(rows);
+      setUploadResult({ ...result, errors: [...missing, ...result.errors] });
+
+      if (result.enrolled > 0 || result.existing > 0) {
+        toast({
+          title: "Upload Complete",
+          description: [
+            `Enrolled ${result.enrolled} student-subject pairs.`,
+            result.existing > 0 && `${result.existing} were enrolled already.`
+          ].filter(Boolean).join(' '),
+        });
+      }
+
+      onImported?.();
+    } catch (error) {
+      console.error('Error importing enrolments:', error);
+      toast({
+        title: "Upload Error",
+        description: error instanceof Error ? error.message : "Failed to process the file. Please check the format.",
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const downloadTemplate = () => {
+    const csvContent = "roll_number,subject_code,subject_name,department\nCS21001,CS301,Computer Networks,Computer Science\nCS21002,CS301,Computer Networks,Computer Science\nCS21002,MA201,Discrete Mathematics,Mathematics";
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.style.display = 'none';
+    a.href = url;
+    a.download = 'enrolment_template.csv';
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(a);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileSpreadsheet className="h-5 w-5" />
+          Upload Enrolments
+        </CardTitle>
+        <CardDescription>
+          Enrol students in subjects via Excel (.xlsx, .xls) or CSV file, one row per student and subject.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex gap-4">
+          <Button variant="outline" onClick={downloadTemplate}>
+            Download CSV Template
+          </Button>
+          <div className="flex items-center gap-2">
+            <Input
+              ref={fileInputRef}
+              type="file"
+              accept=".xlsx,.xls,.csv,.txt"
+              onChange={handleFileUpload}
+              disabled={uploading}
+              className="max-w-xs"
+            />
+            <Button disabled={uploading}>
+              <Upload className="h-4 w-4 mr-2" />
+              {uploading ? "Uploading..." : "Upload File"}
+            </Button>
+          </div>
+        </div>
+
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            <strong>File Format Requirements:</strong>
+            <ul className="mt-2 list-disc list-inside space-y-1">
+              <li>Columns: roll_number, subject_code, subject_name (optional), department (optional)</li>
+              <li>Students must already exist; upload them first under Excel Upload</li>
+              <li>Subject codes not in the catalogue are created when subject_name is given</li>
+              <li>Existing enrolments are kept, so the same file can be uploaded twice</li>
+            </ul>
+          </AlertDescription>
+        </Alert>
+
+        {uploadResult && (
+          <div className="space-y-4">
+            <Alert className={uploadResult.enrolled + uploadResult.existing > 0 ? "border-green-200 bg-green-50" : "border-red-200 bg-red-50"}>
+              <CheckCircle2 className="h-4 w-4" />
+              <AlertDescription>
+                <strong>Upload Results:</strong>
+                <div className="mt-2">
+                  <p className="text-green-600">✓ Enrolments: {uploadResult.enrolled}</p>
+                  {uploadResult.existing > 0 && (
+                    <p className="text-gray-600">Already enrolled: {uploadResult.existing}</p>
+                  )}
+                  {uploadResult.createdSubjects > 0 && (
+                    <p className="text-green-600">✓ New subjects: {uploadResult.createdSubjects}</p>
+                  )}
+                  {uploadResult.errors.length > 0 && (
+                    <p className="text-red-600">✗ Skipped rows: {uploadResult.errors.length}</p>
+                  )}
+                </div>
+              </AlertDescription>
+            </Alert>
+
+            {uploadResult.errors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  <strong>Errors:</strong>
+                  <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto">
+                    {uploadResult.errors.map((error, index) => (
+                      <li key={index} className="text-sm">{error}</li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EnrolmentUpload;
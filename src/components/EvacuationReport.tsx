@@ -0,0 +1,75 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { seatLabel } from "@/lib/allocation";
+import type { SeatAssignment } from "@/lib/allocation";
+import type { RoomEvacuation } from "@/lib/evacuation";
+import { Printer, X } from "lucide-react";
+
+interface EvacuationReportProps {
+  evacuation: RoomEvacuation;
+  classrooms: { id: string; room_number: string; students_per_bench: number }[];
+  onClose: () => void;
+}
+
+// Who moved where after a room was taken out of use, one table per exam
+const EvacuationReport = ({ evacuation, classrooms, onClose }: EvacuationReportProps) => {
+  const seatName = (a: SeatAssignment) => {
+    const room = classrooms.find(c => c.id === a.classroom_id);
+    return `${room?.room_number ?? evacuation.room.room_number} • Bench ${a.bench_number}, ${seatLabel(a.seat_position, room?.students_per_bench)}`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Seat Change Report • {evacuation.room.room_number}</CardTitle>
+            <CardDescription>
+              {evacuation.exams.reduce((sum, e) => sum + e.changes.length, 0)} students moved to new seats
+            </CardDescription>
+          </div>
+          <div className="flex space-x-2 print:hidden">
+            <Button variant="outline" size="sm" onClick={() => window.print()}>
+              <Printer className="h-4 w-4 mr-2" />
+              Print
+            </Button>
+            <Button variant="outline" size="sm" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {evacuation.exams.map(({ exam, changes }) => (
+          <div key={exam.id} className="space-y-2 print:break-inside-avoid">
+            <h4 className="font-medium">
+              {exam.subject} • {new Date(exam.exam_date).toLocaleDateString()} • {exam.start_time} - {exam.end_time}
+            </h4>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Roll Number</th>
+                  <th className="text-left p-2">Name</th>
+                  <th className="text-left p-2">Was</th>
+                  <th className="text-left p-2">Now</th>
+                </tr>
+              </thead>
+              <tbody>
+                {changes.map(({ student, before, after }) => (
+                  <tr key={student.id} className="border-b">
+                    <td className="p-2 font-medium">{student.roll_number}</td>
+                    <td className="p-2">{student.name}</td>
+                    <td className="p-2 text-gray-600">{seatName(before)}</td>
+                    <td className="p-2">{after ? seatName(after) : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EvacuationReport;
@@ -0,0 +1,234 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { CANDIDATE_KIND_LABELS, CANDIDATE_KINDS } from "@/lib/allocation";
+import type { CandidateKind } from "@/lib/allocation";
+import { addExamCandidates, fetchExamCandidates, removeExamCandidate } from "@/lib/exam-candidates";
+import type { ExamCandidate } from "@/lib/exam-candidates";
+import { UserPlus, Trash2, Upload } from "lucide-react";
+import * as XLSX from 'xlsx';
+
+interface ExamCandidatesDialogProps {
+  exam: { id: string; subject: string };
+  // Shown on the trigger, so the list is only fetched when the dialog opens
+  count: number;
+  onChanged?: () => void;
+}
+
+// Roll numbers from the `roll_number` column, or the first column without one
+const readRollNumbers = async (file: File) => {
+  let table: string[][];
+
+  if (file.name.endsWith('.xlsx') || file.name.endsWith('.xls')) {
+    const workbook = XLSX.read(new Uint8Array(await file.arrayBuffer()), { type: 'array' });
+    table = XLSX.utils.sheet_to_json<string[]>(workbook.Sheets[workbook.SheetNames[0]], { header: 1 });
+  } else if (file.name.endsWith('.csv') || file.name.endsWith('.txt')) {
+    table = (await file.text()).split('\n').filter(line => line.trim()).map(line => line.split(','));
+  } else {
+    throw new Error('Unsupported file format. Please use .xlsx, .xls, .csv, or .txt files.');
+  }
+
+  const headers = (table[0] || []).map(h => h?.toString().trim().toLowerCase() || '');
+  const column = headers.findIndex(h => h === 'roll_number' || h === 'roll number');
+  const rows = column === -1 ? table : table.slice(1);
+
+  return rows.map(row => row?.[Math.max(column, 0)]?.toString().trim() || '').filter(Boolean);
+};
+
+const ExamCandidatesDialog = ({ exam, count, onChanged }: ExamCandidatesDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [candidates, setCandidates] = useState<ExamCandidate[]>([]);
+  const [rollNumbers, setRollNumbers] = useState('');
+  const [kind, setKind] = useState<CandidateKind>('arrear');
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const loadCandidates = useCallback(async () => {
+    try {
+      setCandidates(await fetchExamCandidates([exam.id]));
+    } catch (error) {
+      console.error('Error fetching exam candidates:', error);
+    }
+  }, [exam.id]);
+
+  useEffect(() => {
+    if (open) loadCandidates();
+  }, [open, loadCandidates]);
+
+  const addCandidates = async (rolls: string[]) => {
+    if (rolls.length === 0) return;
+    setIsSaving(true);
+    setErrors([]);
+
+    try {
+      const result = await addExamCandidates(exam.id, rolls, kind);
+      setErrors(result.errors);
+      setRollNumbers('');
+      await loadCandidates();
+      onChanged?.();
+
+      if (result.added > 0 || result.existing > 0) {
+        toast({
+          title: result.added > 0 ? "Candidates Added" : "Already Candidates",
+          description: [
+            result.added > 0
+              && `${result.added} ${CANDIDATE_KIND_LABELS[kind].toLowerCase()} candidates added to ${exam.subject}. Regenerate the seating to place them.`,
+            result.existing > 0 && `${result.existing} were candidates of this exam already and keep their entry.`
+          ].filter(Boolean).join(' ')
+        });
+      }
+    } catch (error) {
+      console.error('Error adding exam candidates:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add candidates. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      await addCandidates(await readRollNumbers(file));
+    } catch (error) {
+      toast({
+        title: "Upload Error",
+        description: error instanceof Error ? error.message : "Failed to process the file. Please check the format.",
+        variant: "destructive"
+      });
+    } finally {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const handleRemove = async (candidate: ExamCandidate) => {
+    try {
+      await removeExamCandidate(candidate.id);
+      await loadCandidates();
+      onChanged?.();
+    } catch (error) {
+      console.error('Error removing exam candidate:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove candidate. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" title="Arrear / supplementary candidates">
+          <UserPlus className="h-4 w-4" />
+          {count > 0 && <span className="ml-1">{count}</span>}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Extra Candidates • {exam.subject}</DialogTitle>
+          <DialogDescription>
+            Students from other years sitting this paper. They are seated whatever the seating combination allows.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Candidate Type</Label>
+            <Select value={kind} onValueChange={(value) => setKind(value as CandidateKind)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CANDIDATE_KINDS.map((k) => (
+                  <SelectItem key={k} value={k}>{CANDIDATE_KIND_LABELS[k]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="roll-numbers">Roll Numbers</Label>
+            <Textarea
+              id="roll-numbers"
+              value={rollNumbers}
+              onChange={(e) => setRollNumbers(e.target.value)}
+              placeholder="CS19001, CS19014&#10;One or more, separated by commas or new lines"
+              rows={3}
+            />
+            <Button
+              onClick={() => addCandidates(rollNumbers.split(/[\s,]+/))}
+              disabled={isSaving || !rollNumbers.trim()}
+              className="w-full"
+            >
+              <UserPlus className="h-4 w-4 mr-2" />
+              {isSaving ? 'Adding...' : 'Add Candidates'}
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="candidate-file">Or Upload a List</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="candidate-file"
+                ref={fileInputRef}
+                type="file"
+                accept=".xlsx,.xls,.csv,.txt"
+                onChange={handleFileUpload}
+                disabled={isSaving}
+              />
+              <Upload className="h-4 w-4 text-gray-500" />
+            </div>
+            <p className="text-xs text-muted-foreground">Excel or CSV with a roll_number column</p>
+          </div>
+
+          {errors.length > 0 && (
+            <div className="p-2 bg-red-50 rounded text-sm text-red-700 max-h-24 overflow-y-auto">
+              {errors.map((error) => <div key={error}>{error}</div>)}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Added Candidates ({candidates.length})</Label>
+            <div className="space-y-1 max-h-60 overflow-y-auto">
+              {candidates.map((candidate) => (
+                <div key={candidate.id} className="flex justify-between items-center p-2 bg-gray-50 rounded text-sm">
+                  <div>
+                    <span className="font-medium">{candidate.student.roll_number}</span> {candidate.student.name}
+                    <span className="text-gray-500"> • {candidate.student.year} {candidate.student.section}</span>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="outline" className="text-xs">{CANDIDATE_KIND_LABELS[candidate.kind]}</Badge>
+                    <Button variant="ghost" size="sm" onClick={() => handleRemove(candidate)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              {candidates.length === 0 && (
+                <p className="text-sm text-muted-foreground">No extra candidates for this exam.</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExamCandidatesDialog;
@@ -7,30 +7,44 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
-import { Calendar, Clock, BookOpen, Plus, Edit, Trash2 } from "lucide-react";
+import { EXAM_TYPES } from "@/lib/exam-types";
+import { fetchSubjects } from "@/lib/subjects";
+import type { SubjectWithEnrolment } from "@/lib/subjects";
+import { countClashesByExam } from "@/lib/allocation";
+import type { StudentClash } from "@/lib/allocation";
+import { fetchProposedClashes, fetchStudentClashes, UNSAVED_EXAM_ID } from "@/lib/allocation-data";
+import { ALLOCATION_STATUS_LABELS, effectiveAllocationStatus, freezeStartedExams } from "@/lib/allocation-status";
+import { Calendar, Clock, BookOpen, Plus, Edit, Trash2, AlertTriangle } from "lucide-react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import ExamCandidatesDialog from "@/components/ExamCandidatesDialog";
 
 interface Exam {
   id: string;
   exam_type?: string;
   subject: string;
+  subject_id: string | null;
   exam_date: string;
   start_time: string;
   end_time: string;
   duration_hours: number | null;
   years: string[];
   status: string;
+  allocation_status: string;
   created_at: string;
   updated_at: string;
+  candidate_count: number;
 }
 
 const ExamManagement = () => {
   const [exams, setExams] = useState<Exam[]>([]);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingExam, setEditingExam] = useState<Exam | null>(null);
+  const [subjects, setSubjects] = useState<SubjectWithEnrolment[]>([]);
+  const [clashes, setClashes] = useState<StudentClash[]>([]);
   const [formData, setFormData] = useState({
     examType: '',
     subject: '',
+    subjectId: null as string | null,
     exam_date: '',
     start_time: '',
     duration_hours: 3,
@@ -42,15 +56,38 @@ const ExamManagement = () => {
 
   useEffect(() => {
     fetchExams();
+    fetchSubjects()
+      .then(setSubjects)
+      .catch((error) => console.error('Error fetching subjects:', error));
   }, []);
 
   const fetchExams = async () => {
     const { data } = await supabase
       .from('exams')
-      .select('*')
+      .select('*, exam_candidates(count)')
       .order('exam_date', { ascending: true });
     
-    if (data) setExams(data);
+    if (data) {
+      const loaded = data.map(({ exam_candidates, ...exam }) => ({
+        ...exam,
+        candidate_count: exam_candidates?.[0]?.count || 0
+      }));
+      setExams(loaded);
+
+      // Seating of exams that have started can no longer be edited freely
+      freezeStartedExams(loaded)
+        .then((frozen) => {
+          if (frozen.length === 0) return;
+          setExams(current => current.map(e => frozen.includes(e.id) ? { ...e, allocation_status: 'frozen' } : e));
+        })
+        .catch((error) => console.error('Error freezing started exams:', error));
+
+      // Past papers cannot be moved any more, so only upcoming ones are checked
+      const today = new Date().toISOString().split('T')[0];
+      fetchStudentClashes(loaded.filter(e => e.status !== 'cancelled' && e.exam_date >= today))
+        .then(setClashes)
+        .catch((error) => console.error('Error analysing exam clashes:', error));
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -71,6 +108,7 @@ const ExamManagement = () => {
     const examData = {
       exam_type: formData.examType,
       subject: formData.subject,
+      subject_id: formData.subjectId,
       exam_date: formData.exam_date,
       start_time: formData.start_time,
       end_time: endTime.toTimeString().slice(0, 5),
@@ -80,6 +118,18 @@ const ExamManagement = () => {
     };
 
     try {
+      const examId = editingExam?.id ?? UNSAVED_EXAM_ID;
+      const proposedClashes = await fetchProposedClashes({ ...examData, id: examId }, exams);
+
+      if (proposedClashes.length > 0) {
+        const { student, first, second } = proposedClashes[0];
+        const other = first.id === examId ? second : first;
+        const proceed = confirm(
+          `${proposedClashes.length} students would have two exams at once, e.g. ${student.roll_number} also sits ${other.subject} at ${other.start_time}. Save anyway?`
+        );
+        if (!proceed) return;
+      }
+
       if (editingExam) {
         const { error } = await supabase
           .from('exams')
@@ -122,6 +172,7 @@ const ExamManagement = () => {
     setFormData({
       examType: '',
       subject: '',
+      subjectId: null,
       exam_date: '',
       start_time: '',
       duration_hours: 3,
@@ -135,6 +186,7 @@ const ExamManagement = () => {
     setFormData({
       examType: exam.exam_type || '',
       subject: exam.subject,
+      subjectId: exam.subject_id,
       exam_date: exam.exam_date,
       start_time: exam.start_time,
       duration_hours: exam.duration_hours || 3,
@@ -170,6 +222,8 @@ const ExamManagement = () => {
     }
   };
 
+  const clashCounts = countClashesByExam(clashes);
+
   const getStatusBadgeVariant = (status: string) => {
     switch (status) {
       case 'scheduled': return 'default';
@@ -210,15 +264,42 @@ const ExamManagement = () => {
                 <Label htmlFor="exam_type">Exam Type *</Label>
                 <Select 
                   value={formData.examType} 
-                  onValueChange={(value) => setFormData({...formData, examType: value, subject: ''})}
+                  onValueChange={(value) => setFormData({...formData, examType: value, subject: '', subjectId: null})}
                 >
                   <SelectTrigger>
                     <SelectValue placeholder="Select exam type" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="CAIT-1">CAIT-1</SelectItem>
-                    <SelectItem value="CAIT-2">CAIT-2</SelectItem>
-                    <SelectItem value="FINAL SEM">FINAL SEM</SelectItem>
+                    {EXAM_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Catalogue Subject</Label>
+                <Select
+                  value={formData.subjectId ?? 'none'}
+                  onValueChange={(value) => {
+                    const subject = subjects.find(s => s.id === value);
+                    setFormData({
+                      ...formData,
+                      subjectId: subject?.id ?? null,
+                      subject: subject ? `${subject.code} - ${subject.name}` : formData.subject
+                    });
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None (every student of the selected years)</SelectItem>
+                    {subjects.map((subject) => (
+                      <SelectItem key={subject.id} value={subject.id}>
+                        {subject.code} - {subject.name} ({subject.enrolled} enrolled)
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -315,6 +396,33 @@ const ExamManagement = () => {
         </Dialog>
       </div>
 
+      {clashes.length > 0 && (
+        <Card className="border-amber-300">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <AlertTriangle className="h-5 w-5 text-amber-500" />
+              <span>Timetable Clashes</span>
+            </CardTitle>
+            <CardDescription>
+              {new Set(clashes.map(c => c.student.id)).size} students are due in two exams at the same time
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-1 max-h-64 overflow-y-auto">
+              {clashes.map(({ student, first, second }) => (
+                <div key={`${student.id}-${first.id}-${second.id}`} className="p-2 bg-amber-50 rounded text-sm">
+                  <span className="font-medium">{student.roll_number}</span> {student.name}
+                  <span className="text-gray-600"> • {student.year} {student.section}</span>
+                  <div className="text-xs text-amber-800">
+                    {first.subject} ({first.start_time} - {first.end_time}) and {second.subject} ({second.start_time} - {second.end_time}) on {new Date(first.exam_date).toLocaleDateString()}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <div className="grid gap-4">
         {exams.map((exam) => (
           <Card key={exam.id}>
@@ -328,6 +436,12 @@ const ExamManagement = () => {
                       <h3 className="font-semibold text-lg">{exam.subject}</h3>
                     </div>
                     <Badge variant={getStatusBadgeVariant(exam.status)}>{exam.status}</Badge>
+                    {clashCounts.has(exam.id) && (
+                      <Badge variant="destructive" className="flex items-center space-x-1">
+                        <AlertTriangle className="h-3 w-3" />
+                        <span>{clashCounts.get(exam.id)} clashes</span>
+                      </Badge>
+                    )}
                   </div>
                   
                   <div className="flex items-center space-x-4 text-sm text-gray-600">
@@ -342,6 +456,14 @@ const ExamManagement = () => {
                   </div>
                   
                   <div className="flex items-center space-x-2">
+                    <Badge variant="outline" className="text-xs">
+                      Seating: {ALLOCATION_STATUS_LABELS[effectiveAllocationStatus(exam)]}
+                    </Badge>
+                    {exam.subject_id && (
+                      <Badge variant="outline" className="text-xs">
+                        {subjects.find(s => s.id === exam.subject_id)?.enrolled ?? 0} enrolled
+                      </Badge>
+                    )}
                     <span className="text-sm text-gray-600">Years:</span>
                     {exam.years.map((year) => (
                       <Badge key={year} variant="secondary" className="text-xs">
@@ -352,6 +474,7 @@ const ExamManagement = () => {
                 </div>
                 
                 <div className="flex items-center space-x-2">
+                  <ExamCandidatesDialog exam={exam} count={exam.candidate_count} onChanged={fetchExams} />
                   <Button
                     variant="outline"
                     size="sm"
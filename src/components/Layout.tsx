@@ -12,7 +12,8 @@ import {
   LogOut,
   Upload,
   UserCheck,
-  BookOpen
+  BookOpen,
+  Library
 } from "lucide-react";
 
 interface LayoutProps {
@@ -29,6 +30,7 @@ const Layout = ({ children, currentPage, onNavigate, userType, userData, onLogou
     { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
     { id: 'students', label: 'Students', icon: Users },
     { id: 'excel-upload', label: 'Excel Upload', icon: Upload },
+    { id: 'subjects', label: 'Subjects', icon: Library },
     { id: 'exams', label: 'Exam Management', icon: BookOpen },
     { id: 'classrooms', label: 'Classrooms', icon: Building },
     { id: 'allocations', label: 'Seat Allocation', icon: Calendar },
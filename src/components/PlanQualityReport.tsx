@@ -0,0 +1,154 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { EXCLUSION_REASON_LABELS, summarizeExclusions } from "@/lib/allocation";
+import type { ExclusionReason, PlanQualityReport as QualityReport } from "@/lib/allocation";
+import { ClipboardCheck, Download } from "lucide-react";
+
+interface PlanQualityReportProps {
+  report: QualityReport;
+  exams: { id: string; subject: string }[];
+  onExport: () => void;
+}
+
+const mixBadges = (tally: Record<string, number>) =>
+  Object.entries(tally)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, count]) => (
+      <Badge key={key} variant="outline" className="text-xs font-normal">
+        {key} × {count}
+      </Badge>
+    ));
+
+const PlanQualityReport = ({ report, exams, onExport }: PlanQualityReportProps) => {
+  const subjectById = new Map(exams.map(e => [e.id, e.subject]));
+  const exclusions = summarizeExclusions(report.excluded);
+
+  const stats = [
+    { label: 'Rooms Used', value: report.rooms.length },
+    { label: 'Fill', value: `${report.fillPercent}%` },
+    { label: 'Empty Seats', value: report.emptySeats },
+    { label: 'Same-Group Bench-Mates', value: report.sameGroupPairs.side }
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <ClipboardCheck className="h-5 w-5" />
+              <span>Quality Report</span>
+            </CardTitle>
+            <CardDescription>
+              {report.allocatedCount} of {report.totalStudents} students seated • {report.strategy} mixing • Seed {report.seed}
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={onExport}>
+            <Download className="h-4 w-4 mr-2" />
+            Export Plan
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {stats.map(({ label, value }) => (
+            <div key={label} className="p-3 bg-gray-50 rounded-lg">
+              <div className="text-xs text-gray-600">{label}</div>
+              <div className="text-xl font-semibold">{value}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="font-medium">Neighbours in the Same Group</h4>
+          <p className="text-xs text-gray-600">
+            Pairs sitting the same exam and sharing a {report.groupBy === 'year' ? 'year' : 'year and section'}, counted
+            whether or not the neighbour rule was asked to keep them apart.
+          </p>
+          <div className="flex flex-wrap gap-2 text-sm">
+            <Badge variant={report.sameGroupPairs.side > 0 ? 'secondary' : 'outline'}>{report.sameGroupPairs.side} side by side</Badge>
+            <Badge variant="outline">{report.sameGroupPairs.front} front and back</Badge>
+            <Badge variant="outline">{report.sameGroupPairs.diagonal} diagonal</Badge>
+            {report.repeats && (
+              <>
+                <Badge variant={report.repeats.pairs > 0 ? 'secondary' : 'outline'}>{report.repeats.pairs} repeat pairs from the series</Badge>
+                <Badge variant="outline">{report.repeats.rooms} in a repeat room</Badge>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="font-medium">Rooms</h4>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b bg-gray-50">
+                  <th className="text-left p-2">Room</th>
+                  <th className="text-left p-2">Fill</th>
+                  <th className="text-left p-2">Years / Sections</th>
+                  <th className="text-left p-2">Departments</th>
+                  <th className="text-left p-2">Same-Group Pairs</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rooms.map((room) => (
+                  <tr key={room.classroom_id} className="border-b align-top">
+                    <td className="p-2 font-medium">
+                      {room.room_number}
+                      {room.building && <div className="text-xs text-gray-500 font-normal">{room.building}</div>}
+                    </td>
+                    <td className="p-2 min-w-[140px]">
+                      <Progress value={room.fillPercent} className="h-2" />
+                      <div className="text-xs text-gray-600 mt-1">
+                        {room.seated} / {room.available} • {room.empty} empty
+                      </div>
+                    </td>
+                    <td className="p-2">
+                      <div className="flex flex-wrap gap-1">{mixBadges(room.sections)}</div>
+                    </td>
+                    <td className="p-2">
+                      <div className="flex flex-wrap gap-1">{mixBadges(room.departments)}</div>
+                    </td>
+                    <td className="p-2">{room.sameGroupPairs}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {(report.excluded.length > 0 || report.unplaced.length > 0 || report.unmetAccommodations.length > 0) && (
+          <div className="space-y-2">
+            <h4 className="font-medium">Left Out</h4>
+            <div className="flex flex-wrap gap-2 text-sm">
+              {(Object.entries(exclusions) as [ExclusionReason, number][]).map(([reason, count]) => (
+                <Badge key={reason} variant="outline">{count} • {EXCLUSION_REASON_LABELS[reason]}</Badge>
+              ))}
+              {report.unmetAccommodations.length > 0 && (
+                <Badge variant="outline">{report.unmetAccommodations.length} • Accommodation not met</Badge>
+              )}
+            </div>
+            {report.unplaced.length > 0 && (
+              <div className="space-y-1 max-h-48 overflow-y-auto">
+                {report.unplaced.map(({ student, reason }) => (
+                  <div key={`${student.exam_id}-${student.id}`} className="flex justify-between p-2 bg-red-50 rounded text-sm">
+                    <span>
+                      {student.roll_number} {student.name}
+                      {exams.length > 1 && <span className="text-gray-500"> • {subjectById.get(student.exam_id)}</span>}
+                    </span>
+                    <span className="text-xs text-red-700">{reason}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PlanQualityReport;
@@ -0,0 +1,227 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { diffPlans, seatLabel } from "@/lib/allocation";
+import type { AllocationExam, AllocationStudent, SeatAssignment } from "@/lib/allocation";
+import { fetchSeatingAllocations } from "@/lib/allocation-data";
+import { effectiveAllocationStatus, promptOverrideReason } from "@/lib/allocation-status";
+import { fetchSeatingPlanVersions, rollbackSeatingPlan } from "@/lib/seating-plans";
+import type { SeatingPlanVersion } from "@/lib/seating-plans";
+import { GitCompare, History, RotateCcw } from "lucide-react";
+
+interface PlanVersionHistoryProps {
+  examId: string;
+  // Changes whenever a version is saved, so the list reloads
+  latestPlanId: string | null;
+  exams: (Pick<AllocationExam, 'id' | 'subject' | 'exam_date' | 'start_time'> & { allocation_status?: string })[];
+  classrooms: { id: string; room_number: string; students_per_bench: number }[];
+  performedBy: string;
+  onRolledBack?: () => void;
+}
+
+// The seating as it stands. It matches the newest version unless recording that
+// version failed or seats went with a deleted student or room.
+const CURRENT = 'current';
+
+const PlanVersionHistory = ({ examId, latestPlanId, exams, classrooms, performedBy, onRolledBack }: PlanVersionHistoryProps) => {
+  const [versions, setVersions] = useState<SeatingPlanVersion[]>([]);
+  const [current, setCurrent] = useState<SeatAssignment[]>([]);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState(CURRENT);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+  const { toast } = useToast();
+
+  const loadVersions = useCallback(async () => {
+    try {
+      const [loaded, seating] = await Promise.all([
+        fetchSeatingPlanVersions(examId),
+        fetchSeatingAllocations([examId])
+      ]);
+
+      setVersions(loaded);
+      setCurrent(seating);
+      setFromId(loaded[1]?.id ?? loaded[0]?.id ?? '');
+      setToId(loaded.length > 1 ? loaded[0].id : CURRENT);
+    } catch (error) {
+      console.error('Error fetching seating plan versions:', error);
+    }
+  }, [examId]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions, latestPlanId]);
+
+  // This exam's seats in a version, or null when it was saved without them
+  const seatsOf = (id: string) => {
+    if (id === CURRENT) return current;
+    const seats = versions.find(v => v.id === id)?.assignments;
+    return seats ? seats.filter(a => a.exam_id === examId) : null;
+  };
+
+  const studentById = new Map<string, AllocationStudent>(
+    versions.flatMap(v => v.parameters.exams.flatMap(({ students }) => students.map(s => [s.id, s] as const)))
+  );
+  const studentName = (studentId: string) => {
+    const student = studentById.get(studentId);
+    return student ? `${student.roll_number} ${student.name}` : studentId;
+  };
+  const seatName = (a: SeatAssignment) => {
+    const room = classrooms.find(c => c.id === a.classroom_id);
+    return `${room?.room_number ?? 'Removed room'} • Bench ${a.bench_number}, ${seatLabel(a.seat_position, room?.students_per_bench)}`;
+  };
+
+  const fromSeats = fromId ? seatsOf(fromId) : null;
+  const toSeats = seatsOf(toId);
+  const diff = fromSeats && toSeats ? diffPlans(fromSeats, toSeats) : null;
+
+  const rollBack = async (version: SeatingPlanVersion) => {
+    const together = version.exam_ids.length > 1 ? ` It also restores the ${version.exam_ids.length - 1} other exam(s) seated with it.` : '';
+    if (!confirm(`Roll back to version ${version.version}? The current seating is replaced.${together}`)) return;
+
+    const frozen = exams.filter(e => version.exam_ids.includes(e.id) && effectiveAllocationStatus(e) === 'frozen');
+    const reason = frozen.length > 0 ? promptOverrideReason(frozen.map(e => e.subject)) : null;
+    if (frozen.length > 0 && !reason) return;
+
+    setIsRollingBack(true);
+
+    try {
+      await rollbackSeatingPlan(version.id, performedBy, reason);
+
+      toast({
+        title: "Rolled Back",
+        description: `Version ${version.version} is the current seating again, saved as a new version.`
+      });
+      onRolledBack?.();
+    } catch (error) {
+      console.error('Error rolling back seating plan:', error);
+      toast({
+        title: "Rollback Failed",
+        description: "Failed to restore this version. Students or rooms in it may no longer exist.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsRollingBack(false);
+    }
+  };
+
+  if (versions.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <History className="h-5 w-5" />
+          <span>Version History</span>
+        </CardTitle>
+        <CardDescription>
+          Every saved plan for this exam, newest first
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {versions.map((version, index) => (
+            <div key={version.id} className="flex justify-between items-center p-2 bg-gray-50 rounded text-sm">
+              <div className="space-y-1">
+                <div className="flex items-center space-x-2">
+                  <Badge variant={index === 0 ? "default" : "outline"}>v{version.version}</Badge>
+                  <span className="font-medium">{version.created_by || 'Unknown'}</span>
+                  <span className="text-gray-500">{new Date(version.created_at).toLocaleString()}</span>
+                </div>
+                <div className="text-xs text-gray-500">
+                  {version.combination_name ?? 'Deleted combination'} • Seed <span className="font-mono">{version.seed}</span>
+                  {version.assignments && ` • ${version.assignments.length} seats`}
+                  {version.restored_from && ` • Restored from v${versions.find(v => v.id === version.restored_from)?.version ?? '?'}`}
+                  {version.edited_from && ` • Seats moved by hand from v${versions.find(v => v.id === version.edited_from)?.version ?? '?'}`}
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => rollBack(version)}
+                disabled={!version.assignments || isRollingBack}
+                title={version.assignments ? 'Roll back to this version' : 'Saved before versions kept their seats'}
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Roll Back
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex items-center space-x-2 font-medium">
+            <GitCompare className="h-4 w-4" />
+            <span>Compare</span>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>From</Label>
+              <Select value={fromId} onValueChange={setFromId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((version) => (
+                    <SelectItem key={version.id} value={version.id}>Version {version.version}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>To</Label>
+              <Select value={toId} onValueChange={setToId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={CURRENT}>Current seating</SelectItem>
+                  {versions.map((version) => (
+                    <SelectItem key={version.id} value={version.id}>Version {version.version}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {!diff ? (
+            <p className="text-sm text-muted-foreground">
+              Version {versions.find(v => v.id === (fromSeats ? toId : fromId))?.version} was saved before versions kept their seats, so it cannot be compared.
+            </p>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="outline" className="border-green-400">{diff.added.length} added</Badge>
+                <Badge variant="outline" className="border-blue-400">{diff.moved.length} moved</Badge>
+                <Badge variant="outline" className="border-red-400">{diff.removed.length} removed</Badge>
+                <Badge variant="outline">{diff.unchanged} unchanged</Badge>
+              </div>
+              <div className="space-y-1 max-h-64 overflow-y-auto text-xs">
+                {diff.moved.map(({ before, after }) => (
+                  <div key={`moved-${after.student_id}`} className="p-2 bg-blue-50 rounded">
+                    <span className="font-medium">{studentName(after.student_id)}</span>: {seatName(before)} → {seatName(after)}
+                  </div>
+                ))}
+                {diff.added.map((a) => (
+                  <div key={`added-${a.student_id}`} className="p-2 bg-green-50 rounded">
+                    <span className="font-medium">{studentName(a.student_id)}</span>: seated at {seatName(a)}
+                  </div>
+                ))}
+                {diff.removed.map((a) => (
+                  <div key={`removed-${a.student_id}`} className="p-2 bg-red-50 rounded">
+                    <span className="font-medium">{studentName(a.student_id)}</span>: no longer seated (was {seatName(a)})
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PlanVersionHistory;
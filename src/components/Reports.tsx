@@ -7,7 +7,14 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
-import { FileText, Download, Printer, Eye, Users, Building } from "lucide-react";
+import type { Json } from "@/integrations/supabase/types";
+import BenchGrid from "@/components/BenchGrid";
+import SeatEditor from "@/components/SeatEditor";
+import { fetchAccommodations, toAccommodation } from "@/lib/accommodations";
+import { CANDIDATE_KIND_LABELS, adjustedEndTime, describeAccommodation, resolveLayout, seatLabel } from "@/lib/allocation";
+import type { Accommodation, CandidateKind } from "@/lib/allocation";
+import { fetchCandidateKinds } from "@/lib/exam-candidates";
+import { FileText, Download, Printer, Eye, Users, Building, Move } from "lucide-react";
 
 interface ExamWithAllocations {
   id: string;
@@ -25,11 +32,16 @@ interface SeatingReport {
     room_number: string;
     building: string;
     total_benches: number;
+    benches_per_row: number;
     students_per_bench: number;
+    layout: Json;
   };
   allocations: {
     bench_number: number;
     seat_position: number;
+    // Arrear / supplementary candidates added to the exam individually
+    candidate_kind: CandidateKind | null;
+    accommodation: Accommodation | null;
     student: {
       name: string;
       roll_number: string;
@@ -40,13 +52,19 @@ interface SeatingReport {
   }[];
 }
 
-const Reports = () => {
+interface ReportsProps {
+  // Faculty member named in the log when frozen seating is overridden
+  performedBy: string;
+}
+
+const Reports = ({ performedBy }: ReportsProps) => {
   const [exams, setExams] = useState<ExamWithAllocations[]>([]);
   const [selectedExam, setSelectedExam] = useState<string>('');
   const [selectedClassroom, setSelectedClassroom] = useState<string>('');
   const [seatingReports, setSeatingReports] = useState<SeatingReport[]>([]);
   const [availableClassrooms, setAvailableClassrooms] = useState<{id: string, room_number: string, building: string}[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
   const { toast } = useToast();
 
   const fetchExamsWithAllocations = useCallback(async () => {
@@ -120,6 +138,7 @@ const Reports = () => {
       let query = supabase
         .from('seating_allocations')
         .select(`
+          student_id,
           bench_number,
           seat_position,
           students!inner(
@@ -134,7 +153,9 @@ const Reports = () => {
             room_number,
             building,
             total_benches,
-            students_per_bench
+            benches_per_row,
+            students_per_bench,
+            layout
           )
         `)
         .eq('exam_id', selectedExam)
@@ -146,7 +167,11 @@ const Reports = () => {
         query = query.eq('classroom_id', selectedClassroom);
       }
 
-      const { data, error } = await query;
+      const [{ data, error }, candidateKinds, accommodations] = await Promise.all([
+        query,
+        fetchCandidateKinds(selectedExam),
+        fetchAccommodations()
+      ]);
 
       if (error) throw error;
 
@@ -164,6 +189,10 @@ const Reports = () => {
           acc[classroomId].allocations.push({
             bench_number: allocation.bench_number,
             seat_position: allocation.seat_position,
+            candidate_kind: candidateKinds.get(allocation.student_id) ?? null,
+            accommodation: accommodations.has(allocation.student_id)
+              ? toAccommodation(accommodations.get(allocation.student_id))
+              : null,
             student: allocation.students
           });
           
@@ -194,15 +223,18 @@ const Reports = () => {
     if (!exam) return;
 
     const csvContent = [
-      ['Roll Number', 'Name', 'Year', 'Section', 'Department', 'Bench', 'Seat', 'Signature'],
+      ['Roll Number', 'Name', 'Year', 'Section', 'Department', 'Candidate', 'Accommodations', 'Ends', 'Bench', 'Seat', 'Signature'],
       ...classroomReport.allocations.map(allocation => [
         allocation.student.roll_number,
         allocation.student.name,
         allocation.student.year,
         allocation.student.section,
         allocation.student.department,
+        allocation.candidate_kind ? CANDIDATE_KIND_LABELS[allocation.candidate_kind] : 'Regular',
+        allocation.accommodation ? describeAccommodation(allocation.accommodation).join('; ') : '',
+        adjustedEndTime(exam.end_time, allocation.accommodation),
         allocation.bench_number.toString(),
-        allocation.seat_position === 1 ? 'Left' : 'Right',
+        seatLabel(allocation.seat_position, classroomReport.classroom.students_per_bench),
         ''
       ])
     ].map(row => row.join(',')).join('\n');
@@ -231,6 +263,7 @@ const Reports = () => {
     setSelectedExam(examId);
     setSelectedClassroom('');
     setSeatingReports([]);
+    setIsEditing(false);
     if (examId) {
       fetchClassroomsForExam(examId);
     }
@@ -331,6 +364,16 @@ const Reports = () => {
                 )}
               </Button>
 
+              <Button
+                onClick={() => setIsEditing(!isEditing)}
+                disabled={!selectedExam}
+                variant="outline"
+                className="w-full"
+              >
+                <Move className="h-4 w-4 mr-2" />
+                {isEditing ? 'Close Seat Editor' : 'Edit Seats'}
+              </Button>
+
               {seatingReports.length > 0 && (
                 <Button 
                   onClick={printSeatingChart}
@@ -347,6 +390,16 @@ const Reports = () => {
 
         {/* Reports Display */}
         <div className="lg:col-span-2 space-y-6">
+          {isEditing && selectedExam && (
+            <SeatEditor
+              examId={selectedExam}
+              performedBy={performedBy}
+              onSaved={() => {
+                if (seatingReports.length > 0) generateSeatingChart();
+              }}
+            />
+          )}
+
           {seatingReports.length === 0 ? (
             <Card>
               <CardContent className="flex items-center justify-center py-12">
@@ -388,27 +441,17 @@ const Reports = () => {
                       <Users className="h-4 w-4 mr-2" />
                       Seating Arrangement
                     </h4>
-                    <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${Math.min(6, report.classroom.total_benches)}, 1fr)` }}>
-                      {Array.from({ length: report.classroom.total_benches }, (_, benchIndex) => {
-                        const benchNumber = benchIndex + 1;
-                        const benchAllocations = report.allocations.filter(a => a.bench_number === benchNumber);
-                        
-                        return (
-                          <div key={benchNumber} className="border rounded p-2 bg-gray-50 min-h-[80px]">
-                            <div className="text-xs font-medium text-gray-600 mb-1">Bench {benchNumber}</div>
-                            <div className="space-y-1">
-                              {benchAllocations.map((allocation) => (
-                                <div key={`${allocation.bench_number}-${allocation.seat_position}`} className="text-xs bg-white p-1 rounded border">
-                                  <div className="font-medium truncate">{allocation.student.name}</div>
-                                  <div className="text-gray-500">{allocation.student.roll_number}</div>
-                                  <div className="text-gray-500">{allocation.student.year} {allocation.student.section}</div>
-                                </div>
-                              ))}
-                            </div>
-                          </div>
-                        );
-                      })}
-                    </div>
+                    <BenchGrid
+                      layout={resolveLayout(report.classroom)}
+                      occupants={report.allocations.map(allocation => ({
+                        ...allocation,
+                        badge: [
+                          allocation.candidate_kind && CANDIDATE_KIND_LABELS[allocation.candidate_kind],
+                          ...(allocation.accommodation ? describeAccommodation(allocation.accommodation) : [])
+                        ].filter(Boolean).join(' • ') || undefined
+                      }))}
+                      seatsPerBench={report.classroom.students_per_bench}
+                    />
                   </div>
 
                   {/* Student List */}
@@ -433,9 +476,26 @@ const Reports = () => {
                             .map((allocation, index) => (
                             <tr key={index} className="border-b hover:bg-gray-50">
                               <td className="p-2">{allocation.bench_number}</td>
-                              <td className="p-2">{allocation.seat_position === 1 ? 'Left' : 'Right'}</td>
+                              <td className="p-2">{seatLabel(allocation.seat_position, report.classroom.students_per_bench)}</td>
                               <td className="p-2 font-medium">{allocation.student.roll_number}</td>
-                              <td className="p-2">{allocation.student.name}</td>
+                              <td className="p-2">
+                                {allocation.student.name}
+                                {allocation.candidate_kind && (
+                                  <Badge className="ml-2 text-xs bg-purple-100 text-purple-800 hover:bg-purple-100">
+                                    {CANDIDATE_KIND_LABELS[allocation.candidate_kind]}
+                                  </Badge>
+                                )}
+                                {allocation.accommodation && describeAccommodation(allocation.accommodation).map(label => (
+                                  <Badge key={label} className="ml-2 text-xs bg-teal-100 text-teal-800 hover:bg-teal-100">
+                                    {label}
+                                  </Badge>
+                                ))}
+                                {allocation.accommodation && allocation.accommodation.extra_time_minutes > 0 && selectedExamDetails && (
+                                  <span className="ml-2 text-xs text-gray-600">
+                                    Ends {adjustedEndTime(selectedExamDetails.end_time, allocation.accommodation)}
+                                  </span>
+                                )}
+                              </td>
                               <td className="p-2">
                                 <Badge variant="outline" className="text-xs">
                                   {allocation.student.year}
@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { effectiveAllocationStatus, promptOverrideReason } from "@/lib/allocation-status";
+import { applyRoomEvacuation, planRoomEvacuation } from "@/lib/evacuation";
+import type { EvacuatedRoom, RoomBooking, RoomEvacuation } from "@/lib/evacuation";
+import { AlertTriangle, ArrowRightLeft } from "lucide-react";
+
+export type EvacuationAction = 'deactivate' | 'delete';
+
+interface RoomEvacuationDialogProps {
+  room: EvacuatedRoom;
+  action: EvacuationAction;
+  bookings: RoomBooking[];
+  performedBy: string;
+  onCancel: () => void;
+  // Called once the students are moved; the room itself is left to the caller
+  onEvacuated: (evacuation: RoomEvacuation) => void;
+}
+
+const RoomEvacuationDialog = ({ room, action, bookings, performedBy, onCancel, onEvacuated }: RoomEvacuationDialogProps) => {
+  const [evacuation, setEvacuation] = useState<RoomEvacuation | null>(null);
+  const [isMoving, setIsMoving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setEvacuation(null);
+    planRoomEvacuation(room, bookings)
+      .then(setEvacuation)
+      .catch((error) => {
+        console.error('Error planning room evacuation:', error);
+        toast({
+          title: "Planning Failed",
+          description: `Failed to find new seats for the students in ${room.room_number}.`,
+          variant: "destructive"
+        });
+      });
+  }, [room, bookings, toast]);
+
+  const studentCount = bookings.reduce((sum, b) => sum + b.students.length, 0);
+  const frozenExams = bookings.map(b => b.exam).filter(exam => effectiveAllocationStatus(exam) === 'frozen');
+
+  const moveStudents = async () => {
+    if (!evacuation) return;
+
+    const reason = frozenExams.length > 0 ? promptOverrideReason(frozenExams.map(e => e.subject)) : null;
+    if (frozenExams.length > 0 && !reason) return;
+
+    setIsMoving(true);
+
+    try {
+      await applyRoomEvacuation(evacuation, performedBy, reason);
+      onEvacuated(evacuation);
+    } catch (error) {
+      console.error('Error moving students:', error);
+      toast({
+        title: "Move Failed",
+        description: "Failed to move the students. Every exam keeps its previous seating.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  const roomsUsed = (changes: RoomEvacuation['exams'][number]['changes']) =>
+    new Set(changes.flatMap(c => c.after ? [c.after.classroom_id] : [])).size;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !isMoving && onCancel()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <ArrowRightLeft className="h-5 w-5" />
+            <span>Move Students out of {room.room_number}</span>
+          </DialogTitle>
+          <DialogDescription>
+            {room.room_number} seats {studentCount} students for {bookings.length} upcoming exam(s).
+            They must move to free seats elsewhere before the room can be {action === 'delete' ? 'deleted' : 'deactivated'}.
+            Rooms in the same building and on the same floor are filled first.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {bookings.map(({ exam, students }) => {
+            const planned = evacuation?.exams.find(e => e.exam.id === exam.id);
+            return (
+              <div key={exam.id} className="flex justify-between items-center p-2 bg-gray-50 rounded text-sm">
+                <div>
+                  <div className="font-medium">{exam.subject}</div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(exam.exam_date).toLocaleDateString()} • {exam.start_time} - {exam.end_time}
+                    {planned && ` • moving to ${roomsUsed(planned.changes)} room(s)`}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {effectiveAllocationStatus(exam) === 'frozen' && <Badge variant="secondary">Frozen</Badge>}
+                  <Badge variant="outline">{students.length} students</Badge>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {!evacuation && <p className="text-sm text-gray-500">Finding new seats...</p>}
+
+        {evacuation && evacuation.unplaced.length > 0 && (
+          <div className="p-3 bg-red-50 rounded-lg text-sm text-red-800 space-y-1">
+            <div className="flex items-center font-medium">
+              <AlertTriangle className="h-4 w-4 mr-2" />
+              No free seat for {evacuation.unplaced.length} students
+            </div>
+            <div className="max-h-32 overflow-y-auto text-xs">
+              {evacuation.unplaced.map(({ student, before }) => (
+                <div key={`${before.exam_id}-${student.id}`}>
+                  {student.roll_number} {student.name} • {evacuation.exams.find(e => e.exam.id === before.exam_id)?.exam.subject}
+                </div>
+              ))}
+            </div>
+            <p>Activate another room or free seats in this slot, then try again. Nobody has been moved.</p>
+          </div>
+        )}
+
+        {frozenExams.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Frozen exams are moved through a logged override; you will be asked for a reason.
+          </p>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={onCancel} disabled={isMoving}>
+            Cancel
+          </Button>
+          <Button
+            variant={action === 'delete' ? 'destructive' : 'default'}
+            onClick={moveStudents}
+            disabled={!evacuation || evacuation.unplaced.length > 0 || isMoving}
+          >
+            {isMoving ? 'Moving...' : `Move ${studentCount} Students and ${action === 'delete' ? 'Delete' : 'Deactivate'}`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RoomEvacuationDialog;
@@ -5,41 +5,135 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
-import { Calendar, Users, Building, CheckCircle, AlertCircle } from "lucide-react";
+import type { Json } from "@/integrations/supabase/types";
+import SeatingPlanPreview from "@/components/SeatingPlanPreview";
+import CapacityProfileSelect from "@/components/CapacityProfileSelect";
+import PlanVersionHistory from "@/components/PlanVersionHistory";
+import PlanQualityReport from "@/components/PlanQualityReport";
+import BatchAllocationDialog from "@/components/BatchAllocationDialog";
+import {
+  classroomCapacity,
+  describeAccommodation,
+  diffPlans,
+  EXCLUSION_REASON_LABELS,
+  FILL_POLICY_LABELS,
+  findSessionExams,
+  findStudentClashes,
+  freeSeats,
+  isPreferredRoom,
+  seatLabel,
+  summarizeExclusions,
+  totalCapacity as sumCapacity
+} from "@/lib/allocation";
+import type {
+  AdjacencyViolation,
+  AllocationPlan,
+  AllocationStudent,
+  CapacityProfile,
+  ExcludedStudent,
+  ExclusionReason,
+  FillOptions,
+  FillPolicy,
+  PlanDiff,
+  PlanQualityReport as QualityReport,
+  SeatRef,
+  StudentClash
+} from "@/lib/allocation";
+import {
+  fetchExamStudents,
+  fetchExtraTimeSeats,
+  fetchOccupiedSeats,
+  fetchSeatingAllocations,
+  fetchSeatingHistory,
+  insertSeatingAllocations,
+  replaceSeatingAllocations
+} from "@/lib/allocation-data";
+import { adjacencyFromSettings, fetchSystemSettings } from "@/lib/system-settings";
+import {
+  fetchCapacityOverrides,
+  fetchCapacityProfiles,
+  saveCapacityOverride,
+  withCapacityProfiles
+} from "@/lib/capacity-profiles";
+import type { CapacityOverrideRow, CapacityProfileRow } from "@/lib/capacity-profiles";
+import {
+  buildPlanParameters,
+  fetchLatestSeatingPlan,
+  recordSeatingPlan,
+  reportPlanQuality,
+  reproduceSeatingPlan,
+  runPlan
+} from "@/lib/seating-plans";
+import { exportPlanWorkbook } from "@/lib/plan-export";
+import type { PlanParameters, SeatingPlanRecord } from "@/lib/seating-plans";
+import {
+  ALLOCATION_STATUS_LABELS,
+  effectiveAllocationStatus,
+  fetchSeatingOverrides,
+  freezeStartedExams,
+  overrideFrozenSeating,
+  promptOverrideReason,
+  setAllocationStatus
+} from "@/lib/allocation-status";
+import type { AllocationStatus, SeatingOverride } from "@/lib/allocation-status";
+import {
+  Accessibility,
+  Calendar,
+  Users,
+  Building,
+  CheckCircle,
+  AlertCircle,
+  AlertTriangle,
+  Eye,
+  X,
+  History,
+  Save,
+  Snowflake,
+  Undo2
+} from "lucide-react";
 
 interface Exam {
   id: string;
   exam_type?: string;
   subject: string;
+  subject_id?: string | null;
   exam_date: string;
   start_time: string;
   end_time: string;
   years: string[];
   status: string;
+  allocation_status?: string;
 }
 
 interface Classroom {
   id: string;
   room_number: string;
   building: string;
+  floor: number | null;
   total_benches: number;
+  benches_per_row: number;
   total_capacity: number;
   students_per_bench: number;
+  layout: Json;
 }
 
-interface Student {
-  id: string;
-  name: string;
-  roll_number: string;
-  year: string;
-  section: string;
-  department: string;
-  created_at: string;
-  email: string | null;
-  password: string | null;
-  updated_at: string;
+interface SeatingDraft {
+  plan: AllocationPlan;
+  // Incremental drafts only add seats for students without one
+  incremental: boolean;
+  // The engine inputs, recorded with the seed when the draft is published
+  parameters: PlanParameters;
+  combinationId: string | null;
+  exams: Exam[];
+  students: AllocationStudent[];
+  occupied: SeatRef[];
+  // Against the current plan, when the exams already have seating
+  diff: PlanDiff | null;
+  quality: QualityReport;
 }
 
 interface SeatingCombination {
@@ -51,22 +145,105 @@ interface SeatingCombination {
   created_at: string;
 }
 
-const SeatAllocation = () => {
+interface SeatAllocationProps {
+  // Faculty member named in the log when frozen seating is overridden
+  performedBy: string;
+}
+
+const STATUS_BADGE_VARIANTS: Record<AllocationStatus, 'outline' | 'default' | 'secondary'> = {
+  draft: 'outline',
+  published: 'default',
+  frozen: 'secondary'
+};
+
+const SeatAllocation = ({ performedBy }: SeatAllocationProps) => {
   const [exams, setExams] = useState<Exam[]>([]);
   const [classrooms, setClassrooms] = useState<Classroom[]>([]);
   const [seatingCombinations, setSeatingCombinations] = useState<SeatingCombination[]>([]);
   const [selectedExam, setSelectedExam] = useState<string>('');
   const [selectedCombination, setSelectedCombination] = useState<string>('');
   const [allocatedStudents, setAllocatedStudents] = useState<number>(0);
+  const [relaxedSeats, setRelaxedSeats] = useState<AdjacencyViolation[]>([]);
+  const [excludedStudents, setExcludedStudents] = useState<ExcludedStudent[]>([]);
+  const [studentClashes, setStudentClashes] = useState<StudentClash[]>([]);
   const [isAllocating, setIsAllocating] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
+  const [seatingOverrides, setSeatingOverrides] = useState<SeatingOverride[]>([]);
+  const [draft, setDraft] = useState<SeatingDraft | null>(null);
+  const [allocateJointly, setAllocateJointly] = useState(true);
+  const [onlyUnplaced, setOnlyUnplaced] = useState(false);
+  const [avoidSeriesRepeats, setAvoidSeriesRepeats] = useState(true);
+  const [occupiedSeats, setOccupiedSeats] = useState<SeatRef[]>([]);
+  const [latestPlan, setLatestPlan] = useState<SeatingPlanRecord | null>(null);
+  const [isReproducing, setIsReproducing] = useState(false);
+  const [capacityProfiles, setCapacityProfiles] = useState<CapacityProfileRow[]>([]);
+  const [capacityOverrides, setCapacityOverrides] = useState<CapacityOverrideRow[]>([]);
+  const [selectedRooms, setSelectedRooms] = useState<string[]>([]);
+  const [fillOptions, setFillOptions] = useState<FillOptions>({ policy: 'fewest-rooms', building: null, floor: null });
   const { toast } = useToast();
 
   useEffect(() => {
     fetchExams();
     fetchClassrooms();
     fetchSeatingCombinations();
+    fetchCapacityProfiles()
+      .then(setCapacityProfiles)
+      .catch((error) => console.error('Error fetching capacity profiles:', error));
   }, []);
 
+  useEffect(() => {
+    const exam = exams.find(e => e.id === selectedExam);
+    if (!exam) {
+      setCapacityOverrides([]);
+      return;
+    }
+
+    loadCapacityOverrides(allocateJointly ? findSessionExams(exam, exams) : [exam]);
+  }, [selectedExam, allocateJointly, exams]);
+
+  useEffect(() => {
+    const exam = exams.find(e => e.id === selectedExam);
+    if (!exam) {
+      setOccupiedSeats([]);
+      return;
+    }
+
+    fetchOccupiedSeats(allocateJointly ? findSessionExams(exam, exams) : [exam])
+      .then(setOccupiedSeats)
+      .catch((error) => console.error('Error fetching slot occupancy:', error));
+  }, [selectedExam, allocateJointly, exams]);
+
+  useEffect(() => {
+    if (!selectedExam) {
+      setLatestPlan(null);
+      return;
+    }
+
+    fetchLatestSeatingPlan(selectedExam)
+      .then(setLatestPlan)
+      .catch((error) => console.error('Error fetching seating plan record:', error));
+  }, [selectedExam]);
+
+  useEffect(() => {
+    if (!selectedExam) {
+      setSeatingOverrides([]);
+      return;
+    }
+
+    fetchSeatingOverrides(selectedExam)
+      .then(setSeatingOverrides)
+      .catch((error) => console.error('Error fetching seating overrides:', error));
+  }, [selectedExam]);
+
+  const loadCapacityOverrides = async (scope: Exam[]) => {
+    try {
+      setCapacityOverrides(await fetchCapacityOverrides(scope.map(e => e.id)));
+    } catch (error) {
+      console.error('Error fetching capacity overrides:', error);
+    }
+  };
+
   const fetchExams = async () => {
     const { data } = await supabase
       .from('exams')
@@ -74,7 +251,15 @@ const SeatAllocation = () => {
       .eq('status', 'scheduled')
       .order('exam_date', { ascending: true });
     
-    if (data) setExams(data);
+    if (!data) return;
+
+    try {
+      const frozen = await freezeStartedExams(data);
+      setExams(data.map(e => frozen.includes(e.id) ? { ...e, allocation_status: 'frozen' } : e));
+    } catch (error) {
+      console.error('Error freezing started exams:', error);
+      setExams(data);
+    }
   };
 
   const fetchClassrooms = async () => {
@@ -84,7 +269,10 @@ const SeatAllocation = () => {
       .eq('is_active', true)
       .order('room_number');
     
-    if (data) setClassrooms(data);
+    if (data) {
+      setClassrooms(data);
+      setSelectedRooms(data.map(c => c.id));
+    }
   };
 
   const fetchSeatingCombinations = async () => {
@@ -115,14 +303,13 @@ const SeatAllocation = () => {
       
       if (!exam || !combination) return;
 
-      // Fetch eligible students based on exam years and combination rules
-      const { data: students } = await supabase
-        .from('students')
-        .select('*')
-        .in('year', exam.years)
-        .order('year, section, roll_number');
+      // Exams sharing the time slot are seated together in the same rooms
+      const examsToAllocate = allocateJointly ? findSessionExams(exam, exams) : [exam];
+      const examStudents = await Promise.all(
+        examsToAllocate.map(async (e) => ({ exam: e, students: await fetchExamStudents(e) }))
+      );
 
-      if (!students || students.length === 0) {
+      if (examStudents.every(({ students }) => students.length === 0)) {
         toast({
           title: "No Students Found",
           description: "No eligible students found for this exam.",
@@ -131,68 +318,111 @@ const SeatAllocation = () => {
         return;
       }
 
-      // Clear existing allocations for this exam
-      await supabase
-        .from('seating_allocations')
-        .delete()
-        .eq('exam_id', selectedExam);
+      // Students also due in another exam of the slot can only sit one of them
+      const allocatingIds = new Set(examsToAllocate.map(e => e.id));
+      const otherStudents = await Promise.all(
+        findSessionExams(exam, exams)
+          .filter(e => !allocatingIds.has(e.id))
+          .map(async (e) => ({ exam: e, students: await fetchExamStudents(e) }))
+      );
+      const clashes = findStudentClashes([...examStudents, ...otherStudents])
+        .filter(c => allocatingIds.has(c.first.id) || allocatingIds.has(c.second.id));
+      setStudentClashes(clashes);
 
-      // Generate seating arrangement
-      const totalCapacity = classrooms.reduce((sum, room) => sum + room.total_capacity, 0);
-      
-      if (students.length > totalCapacity) {
+      if (clashes.length > 0) {
         toast({
-          title: "Insufficient Capacity",
-          description: `Need ${students.length} seats but only ${totalCapacity} available.`,
+          title: "Timetable Clashes",
+          description: `${clashes.length} students are due in two overlapping exams. Review them before publishing.`,
           variant: "destructive"
         });
-        return;
       }
 
-      // Apply mixing strategy
-      let mixedStudents = [...students];
-      if (combination.mix_strategy === 'alternate') {
-        mixedStudents = alternateStudentsByYearSection(students);
-      } else if (combination.mix_strategy === 'random') {
-        mixedStudents = shuffleArray(students);
-      }
+      // Seats other exams in the same slot already hold are off-limits
+      const occupied = await fetchOccupiedSeats(examsToAllocate);
+      setOccupiedSeats(occupied);
+      // Students with extra time also keep off seats of exams starting before they finish
+      const extraTimeOccupied = await fetchExtraTimeSeats(examStudents);
 
-      // Allocate students to classrooms and seats
-      let studentIndex = 0;
-      const allocations = [];
+      // Locked seats from the current plan stay where they are; when only
+      // seating unplaced students, every current seat does
+      const current = await fetchSeatingAllocations(examsToAllocate.map(e => e.id));
+      const fixed = onlyUnplaced ? current : current.filter(a => a.is_locked);
 
-      for (const classroom of classrooms) {
-        if (studentIndex >= mixedStudents.length) break;
+      const settings = await fetchSystemSettings();
+      const history = avoidSeriesRepeats
+        ? await fetchSeatingHistory(
+            examsToAllocate,
+            examStudents.flatMap(({ students }) => students.map(s => s.id)),
+            settings.series_window_days
+          )
+        : null;
+      const parameters = buildPlanParameters({
+        exams: examStudents,
+        classrooms: withCapacityProfiles(
+          classrooms.filter(c => selectedRooms.includes(c.id)),
+          examsToAllocate,
+          capacityProfiles,
+          capacityOverrides
+        ),
+        rule: combination,
+        occupied,
+        extraTimeOccupied,
+        fixed,
+        adjacency: adjacencyFromSettings(settings),
+        fill: fillOptions,
+        history,
+        incremental: onlyUnplaced
+      });
+      const plan = runPlan(parameters);
 
-        for (let bench = 1; bench <= classroom.total_benches; bench++) {
-          for (let seat = 1; seat <= classroom.students_per_bench; seat++) {
-            if (studentIndex >= mixedStudents.length) break;
+      setExcludedStudents(plan.diagnostics.excluded);
 
-            allocations.push({
-              exam_id: selectedExam,
-              classroom_id: classroom.id,
-              student_id: mixedStudents[studentIndex].id,
-              bench_number: bench,
-              seat_position: seat
-            });
+      if (plan.diagnostics.totalStudents === 0) {
+        toast({
+          title: "No Students Found",
+          description: `All ${plan.diagnostics.excluded.length} students for this exam are outside the selected combination.`,
+          variant: "destructive"
+        });
+        return;
+      }
 
-            studentIndex++;
-          }
-        }
+      if (plan.diagnostics.shortfall > 0) {
+        toast({
+          title: "Insufficient Capacity",
+          description: `Need ${plan.diagnostics.totalStudents} seats but only ${plan.diagnostics.totalCapacity} are free in this time slot.`,
+          variant: "destructive"
+        });
+        return;
       }
 
-      // Insert allocations into database
-      const { error } = await supabase
-        .from('seating_allocations')
-        .insert(allocations);
+      const diff = current.length > 0 ? diffPlans(current, plan.assignments) : null;
 
-      if (error) throw error;
+      if (onlyUnplaced && diff && diff.added.length === 0) {
+        toast({
+          title: "Everyone Is Seated",
+          description: "All eligible students for this exam already have a seat."
+        });
+        return;
+      }
+
+      setRelaxedSeats(plan.diagnostics.violations);
+      setDraft({
+        plan,
+        incremental: onlyUnplaced,
+        parameters,
+        combinationId: combination.id,
+        exams: examsToAllocate,
+        students: examStudents.flatMap(({ students }) => students),
+        occupied,
+        diff,
+        quality: reportPlanQuality(plan, parameters)
+      });
 
-      setAllocatedStudents(allocations.length);
-      
       toast({
-        title: "Allocation Complete",
-        description: `Successfully allocated ${allocations.length} students to seats.`
+        title: "Draft Ready",
+        description: onlyUnplaced && diff
+          ? `Review the seats for ${diff.added.length} unplaced students, then save or publish them.`
+          : `Review the seating for ${plan.assignments.length} students, then save or publish it.`
       });
 
     } catch (error) {
@@ -207,40 +437,290 @@ const SeatAllocation = () => {
     }
   };
 
-  const alternateStudentsByYearSection = (students: Student[]) => {
-    const groups = students.reduce((acc, student) => {
-      const key = `${student.year}-${student.section}`;
-      if (!acc[key]) acc[key] = [];
-      acc[key].push(student);
-      return acc;
-    }, {} as Record<string, Student[]>);
-
-    const result = [];
-    const groupKeys = Object.keys(groups);
-    const maxLength = Math.max(...Object.values(groups).map(g => g.length));
-
-    for (let i = 0; i < maxLength; i++) {
-      for (const key of groupKeys) {
-        if (groups[key][i]) {
-          result.push(groups[key][i]);
+  // Writes the draft's seating; `publish` also shows it to students
+  const saveDraft = async (publish: boolean) => {
+    if (!draft) return;
+
+    const { plan, exams: draftExams, incremental, diff, parameters, combinationId } = draft;
+    const examIds = draftExams.map(e => e.id);
+    const statusOf = (exam: Exam) => effectiveAllocationStatus(exams.find(e => e.id === exam.id) ?? exam);
+    const frozenExams = draftExams.filter(e => statusOf(e) === 'frozen');
+    const reason = frozenExams.length > 0 ? promptOverrideReason(frozenExams.map(e => e.subject)) : null;
+    if (frozenExams.length > 0 && !reason) return;
+
+    // A draft saved over published seating goes back to draft first, so
+    // students never see seats nobody has published
+    const toUnpublish = publish ? [] : draftExams.filter(e => statusOf(e) === 'published').map(e => e.id);
+    const markStatus = (ids: string[], status: string) =>
+      setExams(current => current.map(e => ids.includes(e.id) ? { ...e, allocation_status: status } : e));
+
+    const writeSeating = async () => {
+      if (reason) {
+        // Frozen seating is only replaced through the logged override
+        await overrideFrozenSeating(examIds, plan.assignments, reason, performedBy);
+        setSeatingOverrides(await fetchSeatingOverrides(selectedExam));
+      } else if (incremental && diff) {
+        // Existing rows stay exactly as published; only the new seats are written
+        await insertSeatingAllocations(diff.added);
+      } else {
+        // Swap the old plan for the new one in a single transaction
+        await replaceSeatingAllocations(examIds, plan.assignments);
+      }
+    };
+
+    setIsPublishing(true);
+
+    try {
+      if (toUnpublish.length > 0) {
+        await setAllocationStatus(toUnpublish, 'draft');
+        markStatus(toUnpublish, 'draft');
+      }
+
+      try {
+        await writeSeating();
+      } catch (error) {
+        // The old seating is untouched, so students may see it again
+        if (toUnpublish.length > 0) {
+          await setAllocationStatus(toUnpublish, 'published');
+          markStatus(toUnpublish, 'published');
         }
+        throw error;
+      }
+
+      const toPublish = publish ? draftExams.filter(e => statusOf(e) === 'draft').map(e => e.id) : [];
+      if (toPublish.length > 0) {
+        await setAllocationStatus(toPublish, 'published');
+        markStatus(toPublish, 'published');
+      }
+
+      setAllocatedStudents(plan.assignments.length);
+      setDraft(null);
+
+      try {
+        await recordSeatingPlan(plan, parameters, combinationId, performedBy);
+        setLatestPlan(await fetchLatestSeatingPlan(selectedExam));
+      } catch (error) {
+        console.error('Error recording seating plan:', error);
+        toast({
+          title: "Plan Not Recorded",
+          description: `The seating is saved, but its seed (${plan.diagnostics.seed}) could not be stored for audit.`,
+          variant: "destructive"
+        });
       }
+
+      const notes = [
+        plan.diagnostics.violations.length > 0 && `neighbour rule relaxed at ${plan.diagnostics.violations.length} seats`,
+        plan.diagnostics.excluded.length > 0 && `${plan.diagnostics.excluded.length} students excluded by the combination`,
+        plan.diagnostics.unmetAccommodations.length > 0
+          && `${plan.diagnostics.unmetAccommodations.length} accommodations not met`
+      ].filter(Boolean);
+
+      const hidden = draftExams.filter(e => !toPublish.includes(e.id) && statusOf(e) === 'draft');
+
+      toast({
+        title: publish ? "Allocation Published" : "Draft Saved",
+        description: [
+          incremental && diff && !reason
+            ? `Seated ${diff.added.length} more students; existing seats were not changed.`
+            : notes.length > 0
+            ? `Allocated ${plan.assignments.length} students across ${draftExams.length} exam(s); ${notes.join(', ')}.`
+            : `Successfully allocated ${plan.assignments.length} students across ${draftExams.length} exam(s).`,
+          reason && 'The frozen seating override has been logged.',
+          hidden.length > 0 && 'Students will not see it until it is published.',
+          toUnpublish.length > 0 && 'It was published before, so students no longer see any seating until it is published again.'
+        ].filter(Boolean).join(' ')
+      });
+
+    } catch (error) {
+      console.error('Error saving allocation:', error);
+      toast({
+        title: "Save Failed",
+        description: "Failed to save the seating plan. The previous seating plan is unchanged.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const rerunLatestPlan = async () => {
+    if (!latestPlan) return;
+
+    setIsReproducing(true);
+
+    try {
+      const { plan, identical } = await reproduceSeatingPlan(latestPlan);
+      const { parameters } = latestPlan;
+      const draftExams = exams.filter(e => latestPlan.exam_ids.includes(e.id));
+      const current = await fetchSeatingAllocations(latestPlan.exam_ids);
+
+      setExcludedStudents(plan.diagnostics.excluded);
+      setRelaxedSeats(plan.diagnostics.violations);
+      setOccupiedSeats(parameters.occupied);
+      setDraft({
+        plan,
+        incremental: parameters.incremental,
+        parameters,
+        combinationId: latestPlan.combination_id,
+        exams: draftExams.length > 0 ? draftExams : parameters.exams.map(({ exam }) => ({ ...exam, status: 'scheduled' })),
+        students: parameters.exams.flatMap(({ students }) => students),
+        occupied: parameters.occupied,
+        diff: current.length > 0 ? diffPlans(current, plan.assignments) : null,
+        quality: reportPlanQuality(plan, parameters)
+      });
+
+      // Hand edits are not the seed's doing, so only the plan they started from can match
+      const edited = Boolean(latestPlan.edited_from);
+      toast({
+        title: identical ? "Plan Reproduced" : edited ? "Plan Has Hand Edits" : "Plan Differs",
+        description: identical
+          ? `Seed ${latestPlan.seed} regenerated the recorded plan seat for seat.`
+          : edited
+          ? `Seed ${latestPlan.seed} regenerated the plan before seats were moved by hand; the edits are not in this draft.`
+          : `Seed ${latestPlan.seed} did not reproduce the recorded plan.`,
+        variant: identical || edited ? "default" : "destructive"
+      });
+
+    } catch (error) {
+      console.error('Error reproducing seating plan:', error);
+      toast({
+        title: "Re-run Failed",
+        description: "Failed to regenerate the recorded seating plan.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsReproducing(false);
+    }
+  };
+
+  const changeAllocationStatus = async (from: AllocationStatus, to: AllocationStatus) => {
+    const examIds = scopeExams.filter(e => effectiveAllocationStatus(e) === from).map(e => e.id);
+    if (examIds.length === 0) return;
+    if (to === 'frozen' && !confirm('Freeze the seating now? After this, every change needs a logged reason.')) return;
+
+    setIsUpdatingStatus(true);
+
+    try {
+      await setAllocationStatus(examIds, to);
+      setExams(current => current.map(e => examIds.includes(e.id) ? { ...e, allocation_status: to } : e));
+
+      toast({
+        title: `Seating ${ALLOCATION_STATUS_LABELS[to]}`,
+        description: to === 'published'
+          ? `Students can now see their seats for ${examIds.length} exam(s).`
+          : to === 'draft'
+          ? `Seats for ${examIds.length} exam(s) are hidden from students again.`
+          : `Seats for ${examIds.length} exam(s) can only change through a logged override.`
+      });
+    } catch (error) {
+      console.error('Error updating allocation status:', error);
+      toast({
+        title: "Update Failed",
+        description: "Failed to change the seating status. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsUpdatingStatus(false);
+    }
+  };
+
+  const discardDraft = () => {
+    setDraft(null);
+    setRelaxedSeats([]);
+    setExcludedStudents([]);
+    setStudentClashes([]);
+  };
+
+  const exportDraft = () => {
+    if (!draft) return;
+    exportPlanWorkbook(draft.plan, draft.quality, {
+      exams: draft.exams,
+      students: draft.students,
+      classrooms: draft.parameters.classrooms
+    });
+  };
+
+  const handleRolledBack = async () => {
+    discardDraft();
+
+    try {
+      const [plan, overrides] = await Promise.all([
+        fetchLatestSeatingPlan(selectedExam),
+        fetchSeatingOverrides(selectedExam)
+      ]);
+      setLatestPlan(plan);
+      setSeatingOverrides(overrides);
+    } catch (error) {
+      console.error('Error refreshing seating plan record:', error);
+    }
+  };
+
+  // A batch may have replaced the seating of the selected exam too
+  const handleBatchFinished = () => {
+    fetchExams();
+    if (selectedExam) {
+      handleRolledBack();
+    } else {
+      discardDraft();
     }
+  };
 
-    return result;
+  const handleExamChange = (examId: string) => {
+    setSelectedExam(examId);
+    discardDraft();
   };
 
-  const shuffleArray = (array: Student[]) => {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  // `classroomId` null sets the profile for every room of the selected exam
+  const updateCapacityOverride = async (classroomId: string | null, profile: CapacityProfile | null) => {
+    const exam = exams.find(e => e.id === selectedExam);
+    if (!exam) return;
+
+    try {
+      await saveCapacityOverride(exam.id, classroomId, profile);
+      await loadCapacityOverrides(allocateJointly ? findSessionExams(exam, exams) : [exam]);
+      discardDraft();
+    } catch (error) {
+      console.error('Error saving capacity override:', error);
+      toast({
+        title: "Save Failed",
+        description: "Failed to save the capacity profile for this exam.",
+        variant: "destructive"
+      });
     }
-    return shuffled;
   };
 
+  const toggleRoom = (classroomId: string, selected: boolean) => {
+    setSelectedRooms(prev => selected ? [...prev, classroomId] : prev.filter(id => id !== classroomId));
+    discardDraft();
+  };
+
+  const updateFillOptions = (changes: Partial<FillOptions>) => {
+    setFillOptions(prev => ({ ...prev, ...changes }));
+    discardDraft();
+  };
+
+  const overrideFor = (classroomId: string | null): CapacityProfile | null => {
+    const override = capacityOverrides.find(o => o.exam_id === selectedExam && o.classroom_id === classroomId);
+    return override ? { seats_per_bench: override.seats_per_bench, checkerboard: override.checkerboard } : null;
+  };
+
+  const roomNumber = (classroomId: string) =>
+    classrooms.find(c => c.id === classroomId)?.room_number ?? classroomId;
+  const seatName = (classroomId: string, seatPosition: number) =>
+    seatLabel(seatPosition, classrooms.find(c => c.id === classroomId)?.students_per_bench);
+
+  const exclusionSummary = summarizeExclusions(excludedStudents);
   const selectedExamDetails = exams.find(e => e.id === selectedExam);
-  const totalCapacity = classrooms.reduce((sum, room) => sum + room.total_capacity, 0);
+  const sessionExams = selectedExamDetails ? findSessionExams(selectedExamDetails, exams) : [];
+  const scopeExams = !selectedExamDetails ? [] : allocateJointly ? sessionExams : [selectedExamDetails];
+  const scopeStatuses = scopeExams.map(e => effectiveAllocationStatus(e));
+  // Rooms as the selected exams see them, thinned by their capacity profiles
+  const profiledClassrooms = withCapacityProfiles(classrooms, scopeExams, capacityProfiles, capacityOverrides);
+  const chosenClassrooms = profiledClassrooms.filter(c => selectedRooms.includes(c.id));
+  const totalCapacity = sumCapacity(chosenClassrooms);
+  const freeCapacity = freeSeats(chosenClassrooms, occupiedSeats).length;
+  const buildings = [...new Set(classrooms.map(c => c.building).filter(Boolean))].sort();
+  const floors = [...new Set(classrooms.map(c => c.floor).filter((f): f is number => f !== null))].sort((a, b) => a - b);
 
   return (
     <div className="space-y-6">
@@ -249,6 +729,16 @@ const SeatAllocation = () => {
           <h2 className="text-2xl font-semibold text-gray-900">Seat Allocation</h2>
           <p className="text-gray-600">Generate smart seating arrangements for examinations</p>
         </div>
+        <BatchAllocationDialog
+          exams={exams}
+          combinations={seatingCombinations}
+          defaultCombinationId={selectedCombination}
+          classrooms={classrooms.filter(c => selectedRooms.includes(c.id))}
+          fill={fillOptions}
+          profiles={capacityProfiles}
+          performedBy={performedBy}
+          onFinished={handleBatchFinished}
+        />
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -267,7 +757,7 @@ const SeatAllocation = () => {
             <CardContent className="space-y-4">
               <div className="space-y-2">
                 <Label htmlFor="exam-select">Select Exam</Label>
-                <Select value={selectedExam} onValueChange={setSelectedExam}>
+                <Select value={selectedExam} onValueChange={handleExamChange}>
                   <SelectTrigger>
                     <SelectValue placeholder="Choose an exam to allocate seats for" />
                   </SelectTrigger>
@@ -308,6 +798,7 @@ const SeatAllocation = () => {
                             </div>
                             <div className="text-xs text-gray-500">
                               {combination.mix_strategy} mixing • Years: {combination.allowed_years.join(', ')}
+                              {combination.allowed_sections.length > 0 && ` • Sections: ${combination.allowed_sections.join(', ')}`}
                             </div>
                           </div>
                       </SelectItem>
@@ -341,26 +832,209 @@ const SeatAllocation = () => {
                 </div>
               )}
 
+              {sessionExams.length > 1 && (
+                <div className="p-4 bg-amber-50 rounded-lg space-y-3">
+                  <h4 className="font-medium text-amber-900">Shared Time Slot</h4>
+                  <div className="space-y-1 text-sm">
+                    {sessionExams.filter(e => e.id !== selectedExam).map((exam) => (
+                      <div key={exam.id}>
+                        <span className="font-medium">{exam.subject}</span>
+                        <span className="text-amber-700"> • {exam.start_time} - {exam.end_time} • {exam.years.join(', ')}</span>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      id="allocate-jointly"
+                      checked={allocateJointly}
+                      onCheckedChange={setAllocateJointly}
+                    />
+                    <Label htmlFor="allocate-jointly">
+                      Allocate all {sessionExams.length} exams together, mixing subjects on each bench
+                    </Label>
+                  </div>
+                </div>
+              )}
+
+              {selectedExamDetails && (
+                <div className="space-y-2">
+                  <Label>Capacity Profile</Label>
+                  <CapacityProfileSelect
+                    value={overrideFor(null)}
+                    onChange={(profile) => updateCapacityOverride(null, profile)}
+                    maxSeats={Math.max(1, ...classrooms.map(c => c.students_per_bench))}
+                    inheritLabel={selectedExamDetails.exam_type ? `${selectedExamDetails.exam_type} default` : 'Exam type default'}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Applies to every room of this exam unless a room below sets its own. Exams sharing a room use the strictest profile.
+                  </p>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label>Fill Policy</Label>
+                <Select
+                  value={fillOptions.policy}
+                  onValueChange={(value) => updateFillOptions({ policy: value as FillPolicy })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FILL_POLICY_LABELS) as FillPolicy[]).map((policy) => (
+                      <SelectItem key={policy} value={policy}>{FILL_POLICY_LABELS[policy]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {fillOptions.policy === 'in-order' && 'Fills the selected rooms one after another in room number order.'}
+                  {fillOptions.policy === 'fewest-rooms' && 'Uses as few of the selected rooms as possible, so fewer invigilators are needed.'}
+                  {fillOptions.policy === 'preferred' && 'Fills rooms in the chosen building and floor first, then the rest.'}
+                  {fillOptions.policy === 'balanced' && 'Spreads students evenly across every selected room.'}
+                </p>
+              </div>
+
+              {fillOptions.policy === 'preferred' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Building</Label>
+                    <Select
+                      value={fillOptions.building ?? 'any'}
+                      onValueChange={(value) => updateFillOptions({ building: value === 'any' ? null : value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="any">Any building</SelectItem>
+                        {buildings.map((building) => (
+                          <SelectItem key={building} value={building}>{building}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Floor</Label>
+                    <Select
+                      value={fillOptions.floor === null ? 'any' : String(fillOptions.floor)}
+                      onValueChange={(value) => updateFillOptions({ floor: value === 'any' ? null : parseInt(value) })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="any">Any floor</SelectItem>
+                        {floors.map((floor) => (
+                          <SelectItem key={floor} value={String(floor)}>Floor {floor}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+
+              {selectedExamDetails?.exam_type && (
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="avoid-series-repeats"
+                    checked={avoidSeriesRepeats}
+                    onCheckedChange={setAvoidSeriesRepeats}
+                  />
+                  <Label htmlFor="avoid-series-repeats">
+                    Avoid neighbours and rooms students had in earlier {selectedExamDetails.exam_type} papers
+                  </Label>
+                </div>
+              )}
+
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="only-unplaced"
+                  checked={onlyUnplaced}
+                  onCheckedChange={(checked) => {
+                    setOnlyUnplaced(checked);
+                    discardDraft();
+                  }}
+                />
+                <Label htmlFor="only-unplaced">
+                  Only seat students without a seat, leaving current seats untouched
+                </Label>
+              </div>
+
               <Button 
                 onClick={generateSeatingAllocation}
-                disabled={!selectedExam || !selectedCombination || isAllocating}
+                disabled={!selectedExam || !selectedCombination || selectedRooms.length === 0 || isAllocating || isPublishing}
                 className="w-full"
                 size="lg"
               >
                 {isAllocating ? (
                   <>
                     <AlertCircle className="h-4 w-4 mr-2 animate-spin" />
-                    Generating Allocation...
+                    Generating Draft...
                   </>
                 ) : (
                   <>
-                    <CheckCircle className="h-4 w-4 mr-2" />
-                    Generate Seating Allocation
+                    <Eye className="h-4 w-4 mr-2" />
+                    {draft ? 'Regenerate Draft' : 'Generate Draft'}
                   </>
                 )}
               </Button>
+
+              {draft && (
+                <div className="flex space-x-2">
+                  <Button
+                    onClick={() => saveDraft(true)}
+                    disabled={isPublishing}
+                    className="flex-1"
+                  >
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    {isPublishing ? 'Saving...' : 'Publish'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => saveDraft(false)}
+                    disabled={isPublishing}
+                  >
+                    <Save className="h-4 w-4 mr-2" />
+                    Save as Draft
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={discardDraft}
+                    disabled={isPublishing}
+                  >
+                    <X className="h-4 w-4 mr-2" />
+                    Discard
+                  </Button>
+                </div>
+              )}
             </CardContent>
           </Card>
+
+          {draft && (
+            <SeatingPlanPreview
+              plan={draft.plan}
+              classrooms={classrooms}
+              students={draft.students}
+              exams={draft.exams}
+              occupied={draft.occupied}
+              diff={draft.diff}
+            />
+          )}
+
+          {draft && (
+            <PlanQualityReport report={draft.quality} exams={draft.exams} onExport={exportDraft} />
+          )}
+
+          {selectedExam && (
+            <PlanVersionHistory
+              examId={selectedExam}
+              latestPlanId={latestPlan?.id ?? null}
+              exams={exams}
+              classrooms={classrooms}
+              performedBy={performedBy}
+              onRolledBack={handleRolledBack}
+            />
+          )}
         </div>
 
         {/* Statistics Panel */}
@@ -375,13 +1049,45 @@ const SeatAllocation = () => {
             <CardContent>
               <div className="space-y-4">
                 <div className="flex justify-between items-center">
-                  <span className="text-sm text-gray-600">Available Classrooms</span>
-                  <Badge variant="outline">{classrooms.length}</Badge>
+                  <span className="text-sm text-gray-600">Selected Classrooms</span>
+                  <Badge variant="outline">{selectedRooms.length} of {classrooms.length}</Badge>
                 </div>
                 <div className="flex justify-between items-center">
-                  <span className="text-sm text-gray-600">Total Capacity</span>
+                  <span className="text-sm text-gray-600">Exam Capacity</span>
                   <Badge variant="outline">{totalCapacity} seats</Badge>
                 </div>
+                {selectedExamDetails && (
+                  <>
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-gray-600">Taken by Overlapping Exams</span>
+                      <Badge variant="outline">{occupiedSeats.length} seats</Badge>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-gray-600">Free in This Slot</span>
+                      <Badge variant="default">{freeCapacity} seats</Badge>
+                    </div>
+                  </>
+                )}
+                {draft && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-gray-600">Rooms Used</span>
+                    <Badge variant="default">{draft.plan.diagnostics.roomsUsed}</Badge>
+                  </div>
+                )}
+                {draft?.plan.diagnostics.repeats && (
+                  <>
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-gray-600">Repeat Neighbour Pairs</span>
+                      <Badge variant={draft.plan.diagnostics.repeats.pairs > 0 ? 'secondary' : 'outline'}>
+                        {draft.plan.diagnostics.repeats.pairs}
+                      </Badge>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-gray-600">Students in a Repeat Room</span>
+                      <Badge variant="outline">{draft.plan.diagnostics.repeats.rooms}</Badge>
+                    </div>
+                  </>
+                )}
                 {allocatedStudents > 0 && (
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-gray-600">Allocated Students</span>
@@ -392,24 +1098,283 @@ const SeatAllocation = () => {
             </CardContent>
           </Card>
 
+          {selectedExamDetails && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Eye className="h-5 w-5" />
+                  <span>Plan Status</span>
+                </CardTitle>
+                <CardDescription>
+                  Students only see published seating. It freezes once the exam starts.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {scopeExams.map((exam) => (
+                  <div key={exam.id} className="flex justify-between items-center">
+                    <span className="text-sm text-gray-600">{exam.subject}</span>
+                    <Badge variant={STATUS_BADGE_VARIANTS[effectiveAllocationStatus(exam)]}>
+                      {ALLOCATION_STATUS_LABELS[effectiveAllocationStatus(exam)]}
+                    </Badge>
+                  </div>
+                ))}
+                {scopeStatuses.includes('draft') && (
+                  <Button
+                    onClick={() => changeAllocationStatus('draft', 'published')}
+                    disabled={isUpdatingStatus || isPublishing}
+                    className="w-full"
+                  >
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Publish to Students
+                  </Button>
+                )}
+                {scopeStatuses.includes('published') && (
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      onClick={() => changeAllocationStatus('published', 'draft')}
+                      disabled={isUpdatingStatus || isPublishing}
+                      className="flex-1"
+                    >
+                      <Undo2 className="h-4 w-4 mr-2" />
+                      Back to Draft
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => changeAllocationStatus('published', 'frozen')}
+                      disabled={isUpdatingStatus || isPublishing}
+                      className="flex-1"
+                    >
+                      <Snowflake className="h-4 w-4 mr-2" />
+                      Freeze Now
+                    </Button>
+                  </div>
+                )}
+                {seatingOverrides.length > 0 && (
+                  <div className="space-y-1">
+                    <span className="text-sm font-medium">Override Log</span>
+                    <div className="space-y-1 max-h-48 overflow-y-auto">
+                      {seatingOverrides.map((override) => (
+                        <div key={override.id} className="p-2 bg-sky-50 rounded text-xs">
+                          <div className="font-medium">{override.reason}</div>
+                          <div className="text-gray-500">
+                            {override.performed_by || 'Unknown'} • {new Date(override.created_at).toLocaleString()} • {override.seats_before} → {override.seats_after} seats
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {latestPlan && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <History className="h-5 w-5" />
+                  <span>Saved Plan Record</span>
+                </CardTitle>
+                <CardDescription>
+                  Stored inputs and seed of the latest saved seating
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-gray-600">Saved</span>
+                  <span className="text-sm">{new Date(latestPlan.created_at).toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-gray-600">Strategy</span>
+                  <Badge variant="outline">{latestPlan.strategy}</Badge>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-gray-600">Seed</span>
+                  <Badge variant="secondary" className="font-mono">{latestPlan.seed}</Badge>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-gray-600">Fingerprint</span>
+                  <span className="text-xs font-mono text-gray-500" title={latestPlan.fingerprint}>
+                    {latestPlan.fingerprint.slice(0, 12)}
+                  </span>
+                </div>
+                <Button
+                  onClick={rerunLatestPlan}
+                  disabled={isReproducing || isAllocating || isPublishing}
+                  variant="outline"
+                  className="w-full"
+                >
+                  <History className="h-4 w-4 mr-2" />
+                  {isReproducing ? 'Re-running...' : 'Re-run with Same Seed'}
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {excludedStudents.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <AlertTriangle className="h-5 w-5 text-amber-500" />
+                  <span>Excluded Students</span>
+                </CardTitle>
+                <CardDescription>
+                  Students for this exam that the seating combination does not allow
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {(Object.keys(exclusionSummary) as ExclusionReason[]).map((reason) => (
+                  <div key={reason} className="flex justify-between items-center">
+                    <span className="text-sm text-gray-600">{EXCLUSION_REASON_LABELS[reason]}</span>
+                    <Badge variant="outline">{exclusionSummary[reason]}</Badge>
+                  </div>
+                ))}
+                <div className="space-y-1 max-h-48 overflow-y-auto">
+                  {excludedStudents.map(({ student, detail }) => (
+                    <div key={student.id} className="p-2 bg-gray-50 rounded text-xs">
+                      <span className="font-medium">{student.roll_number}</span> {student.name}
+                      <div className="text-gray-500">{detail}</div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {studentClashes.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <AlertTriangle className="h-5 w-5 text-red-500" />
+                  <span>Student Clashes</span>
+                </CardTitle>
+                <CardDescription>
+                  Students due in two exams whose times overlap
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-1 max-h-64 overflow-y-auto">
+                  {studentClashes.map(({ student, first, second }) => (
+                    <div key={`${student.id}-${first.id}-${second.id}`} className="p-2 bg-red-50 rounded text-xs">
+                      <span className="font-medium">{student.roll_number}</span> {student.name}
+                      <div className="text-gray-600">
+                        {first.subject} ({first.start_time} - {first.end_time}) and {second.subject} ({second.start_time} - {second.end_time})
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {relaxedSeats.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <AlertTriangle className="h-5 w-5 text-amber-500" />
+                  <span>Relaxed Seats</span>
+                </CardTitle>
+                <CardDescription>
+                  Seats where a same-group neighbour could not be avoided
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {relaxedSeats.map((violation) => (
+                    <div
+                      key={`${violation.classroom_id}-${violation.bench_number}-${violation.seat_position}-${violation.neighbour_id}`}
+                      className="flex justify-between items-center p-2 bg-amber-50 rounded text-sm"
+                    >
+                      <span>
+                        {roomNumber(violation.classroom_id)} • Bench {violation.bench_number}, {seatName(violation.classroom_id, violation.seat_position)}
+                      </span>
+                      <Badge variant="outline" className="text-xs">{violation.direction}</Badge>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {draft && draft.plan.diagnostics.unmetAccommodations.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Accessibility className="h-5 w-5 text-amber-500" />
+                  <span>Unmet Accommodations</span>
+                </CardTitle>
+                <CardDescription>
+                  No suitable free seat or room was left; these students are seated with everyone else
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {draft.plan.diagnostics.unmetAccommodations.map((student) => (
+                    <div
+                      key={`${student.exam_id}-${student.id}`}
+                      className="flex justify-between items-center p-2 bg-amber-50 rounded text-sm"
+                    >
+                      <span>{student.roll_number} {student.name}</span>
+                      <span className="text-xs text-gray-600">
+                        {student.accommodation && describeAccommodation(student.accommodation).join(', ')}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center space-x-2">
                 <Users className="h-5 w-5" />
                 <span>Available Classrooms</span>
               </CardTitle>
+              <CardDescription>
+                Only ticked rooms are used for the next draft
+              </CardDescription>
             </CardHeader>
             <CardContent>
               <div className="space-y-2">
-                {classrooms.map((classroom) => (
-                  <div key={classroom.id} className="flex justify-between items-center p-2 bg-gray-50 rounded">
-                    <div>
-                      <div className="font-medium text-sm">{classroom.room_number}</div>
-                      <div className="text-xs text-gray-500">{classroom.building}</div>
+                {profiledClassrooms.map((classroom) => (
+                  <div key={classroom.id} className="p-2 bg-gray-50 rounded space-y-2">
+                    <div className="flex justify-between items-center">
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`room-${classroom.id}`}
+                          checked={selectedRooms.includes(classroom.id)}
+                          onCheckedChange={(checked) => toggleRoom(classroom.id, checked === true)}
+                        />
+                        <label htmlFor={`room-${classroom.id}`}>
+                          <div className="font-medium text-sm">
+                            {classroom.room_number}
+                            {fillOptions.policy === 'preferred' && isPreferredRoom(classroom, fillOptions) && (
+                              <Badge variant="outline" className="ml-2 text-xs">Preferred</Badge>
+                            )}
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            {classroom.building}
+                            {classroom.floor !== null && ` • Floor ${classroom.floor}`}
+                          </div>
+                        </label>
+                      </div>
+                      <Badge variant="secondary" className="text-xs">
+                        {selectedExamDetails
+                          ? `${freeSeats([classroom], occupiedSeats).length} / ${classroomCapacity(classroom)} free`
+                          : `${classroomCapacity(classroom)} seats`}
+                      </Badge>
                     </div>
-                    <Badge variant="secondary" className="text-xs">
-                      {classroom.total_capacity} seats
-                    </Badge>
+                    {selectedExamDetails && (
+                      <CapacityProfileSelect
+                        value={overrideFor(classroom.id)}
+                        onChange={(profile) => updateCapacityOverride(classroom.id, profile)}
+                        maxSeats={classroom.students_per_bench}
+                        inheritLabel="Exam default"
+                        className="h-8 text-xs"
+                      />
+                    )}
                   </div>
                 ))}
               </div>
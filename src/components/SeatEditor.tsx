@@ -0,0 +1,396 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import BenchGrid, { EmptySeat, OccupantCard } from "@/components/BenchGrid";
+import { cn } from "@/lib/utils";
+import {
+  findAdjacencyViolations,
+  firstFreeSeat,
+  moveStudent,
+  PLAN_ISSUE_LABELS,
+  resolveLayout,
+  seatKey,
+  seatLabel,
+  toggleSeatLock,
+  validatePlan
+} from "@/lib/allocation";
+import type {
+  AdjacencyOptions,
+  AllocationClassroom,
+  AllocationStudent,
+  SeatAssignment,
+  SeatRef
+} from "@/lib/allocation";
+import { fetchOccupiedSeats, replaceSeatingAllocations } from "@/lib/allocation-data";
+import { fetchAllPages } from "@/lib/queries";
+import { recordSeatEdit } from "@/lib/seating-plans";
+import { adjacencyFromSettings, fetchSystemSettings } from "@/lib/system-settings";
+import { effectiveAllocationStatus, overrideFrozenSeating, promptOverrideReason } from "@/lib/allocation-status";
+import type { AllocationStatus } from "@/lib/allocation-status";
+import { AlertTriangle, ArrowRightLeft, Lock, Snowflake, Move, Save, Undo2, Unlock } from "lucide-react";
+
+interface SeatEditorProps {
+  examId: string;
+  // Logged against overrides of frozen seating
+  performedBy: string;
+  onSaved?: () => void;
+}
+
+const SeatEditor = ({ examId, performedBy, onSaved }: SeatEditorProps) => {
+  const [classrooms, setClassrooms] = useState<Tables<'classrooms'>[]>([]);
+  const [students, setStudents] = useState<AllocationStudent[]>([]);
+  const [occupied, setOccupied] = useState<SeatRef[]>([]);
+  const [adjacency, setAdjacency] = useState<AdjacencyOptions | null>(null);
+  const [exam, setExam] = useState<{ subject: string; status: AllocationStatus } | null>(null);
+  const [saved, setSaved] = useState<SeatAssignment[]>([]);
+  const [working, setWorking] = useState<SeatAssignment[]>([]);
+  const [extraRooms, setExtraRooms] = useState<string[]>([]);
+  const [activeRoom, setActiveRoom] = useState('');
+  const [dragging, setDragging] = useState<SeatRef | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadPlan = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      const [examResult, rows, classroomsResult, settings] = await Promise.all([
+        supabase
+          .from('exams')
+          .select('id, subject, exam_date, start_time, end_time, years, exam_type, allocation_status')
+          .eq('id', examId)
+          .single(),
+        // Saving replaces every seat of the exam, so every seat must be loaded
+        fetchAllPages((from, to) => supabase
+          .from('seating_allocations')
+          .select(`
+            exam_id,
+            classroom_id,
+            student_id,
+            bench_number,
+            seat_position,
+            is_locked,
+            students!inner(id, roll_number, name, year, section, department)
+          `)
+          .eq('exam_id', examId)
+          .order('id')
+          .range(from, to)),
+        supabase
+          .from('classrooms')
+          .select('*')
+          .order('room_number'),
+        fetchSystemSettings()
+      ]);
+
+      if (examResult.error) throw examResult.error;
+      if (classroomsResult.error) throw classroomsResult.error;
+
+      const assignments = rows.map(({ students: _student, ...assignment }) => assignment);
+      const usedRoomIds = new Set(assignments.map(a => a.classroom_id));
+
+      setExam({ subject: examResult.data.subject, status: effectiveAllocationStatus(examResult.data) });
+      setStudents(rows.map(row => row.students));
+      setClassrooms((classroomsResult.data || []).filter(c => c.is_active || usedRoomIds.has(c.id)));
+      setOccupied(await fetchOccupiedSeats([examResult.data]));
+      setAdjacency(adjacencyFromSettings(settings));
+      setSaved(assignments);
+      setWorking(assignments);
+      setExtraRooms([]);
+    } catch (error) {
+      console.error('Error loading seating plan:', error);
+      toast({
+        title: "Loading Failed",
+        description: "Failed to load the seating plan for editing.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [examId, toast]);
+
+  useEffect(() => {
+    loadPlan();
+  }, [loadPlan]);
+
+  const rooms = classrooms.filter(c => extraRooms.includes(c.id) || working.some(a => a.classroom_id === c.id));
+  const spareRooms = classrooms.filter(c => c.is_active && !rooms.includes(c));
+  const currentRoom = rooms.find(r => r.id === activeRoom) ?? rooms[0];
+
+  const issues = validatePlan(working, classrooms, occupied);
+  const violations = adjacency ? findAdjacencyViolations(working, students, classrooms, adjacency) : [];
+  const issueSeats = new Set(issues.map(i => seatKey(i.seat)));
+  const violatingSeats = new Set(violations.map(seatKey));
+  const takenSeats = new Set(occupied.map(seatKey));
+  const studentById = new Map(students.map(s => [s.id, s]));
+  const isDirty = JSON.stringify(saved) !== JSON.stringify(working);
+
+  const handleDrop = (to: SeatRef) => {
+    if (!dragging) return;
+    setWorking(current => moveStudent(current, dragging, to));
+    setDragging(null);
+  };
+
+  // Only the open room's tab is mounted, so moves between rooms go through a menu
+  const moveToRoom = (from: SeatRef, room: AllocationClassroom) => {
+    const to = firstFreeSeat(working, room, occupied);
+    if (!to) {
+      toast({
+        title: "Room Full",
+        description: `${room.room_number} has no free seat. Drag someone out of it first.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setWorking(current => moveStudent(current, from, to));
+    setActiveRoom(room.id);
+  };
+
+  const handleAddRoom = (roomId: string) => {
+    setExtraRooms(current => [...current, roomId]);
+    setActiveRoom(roomId);
+  };
+
+  const savePlan = async () => {
+    if (issues.length > 0) {
+      toast({
+        title: "Plan Has Errors",
+        description: "Resolve the highlighted seats before saving.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const isFrozen = exam?.status === 'frozen';
+    const reason = isFrozen ? promptOverrideReason([exam.subject]) : null;
+    if (isFrozen && !reason) return;
+
+    setIsSaving(true);
+
+    try {
+      if (reason) {
+        await overrideFrozenSeating([examId], working, reason, performedBy);
+      } else {
+        await replaceSeatingAllocations([examId], working);
+      }
+      setSaved(working);
+
+      let versioned = true;
+      try {
+        versioned = (await recordSeatEdit(examId, performedBy)) !== null;
+      } catch (error) {
+        console.error('Error recording seat edit:', error);
+        versioned = false;
+      }
+
+      toast({
+        title: reason ? "Frozen Seating Overridden" : "Seating Updated",
+        description: [
+          `Saved ${working.length} seats${violations.length > 0 ? ` with ${violations.length} adjacency warnings` : ''}.`,
+          reason && 'The override has been logged.',
+          !versioned && 'No version was recorded for these edits.'
+        ].filter(Boolean).join(' ')
+      });
+      onSaved?.();
+    } catch (error) {
+      console.error('Error saving seating plan:', error);
+      toast({
+        title: "Save Failed",
+        description: "Failed to save seat changes. The previous plan is unchanged.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderSeat = (room: AllocationClassroom) => (benchNumber: number, seatPosition: number) => {
+    const seat: SeatRef = { classroom_id: room.id, bench_number: benchNumber, seat_position: seatPosition };
+    const key = seatKey(seat);
+    const assignment = working.find(a => seatKey(a) === key);
+    const student = assignment && studentById.get(assignment.student_id);
+
+    if (takenSeats.has(key) && !assignment) {
+      return <EmptySeat label="Other exam" className="bg-gray-100" />;
+    }
+
+    if (!assignment || !student) {
+      return (
+        <div onDragOver={(e) => e.preventDefault()} onDrop={() => handleDrop(seat)}>
+          <EmptySeat
+            label={`${seatLabel(seatPosition, room.students_per_bench)} • empty`}
+            className={cn(dragging && "border-blue-400 bg-blue-50")}
+          />
+        </div>
+      );
+    }
+
+    return (
+      <div
+        draggable={!assignment.is_locked}
+        onDragStart={() => setDragging(seat)}
+        onDragEnd={() => setDragging(null)}
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={() => handleDrop(seat)}
+        className={cn("relative", !assignment.is_locked && "cursor-move")}
+      >
+        <OccupantCard
+          occupant={{
+            bench_number: benchNumber,
+            seat_position: seatPosition,
+            student,
+            tone: violatingSeats.has(key) ? 'violation' : undefined
+          }}
+          className={cn("pr-5", issueSeats.has(key) && "border-red-500 bg-red-50")}
+        />
+        <button
+          type="button"
+          className="absolute top-1 right-1 text-gray-500 hover:text-gray-900"
+          title={assignment.is_locked ? 'Unlock seat' : 'Lock seat'}
+          onClick={() => setWorking(current => toggleSeatLock(current, seat))}
+        >
+          {assignment.is_locked ? <Lock className="h-3 w-3" /> : <Unlock className="h-3 w-3" />}
+        </button>
+        {!assignment.is_locked && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button
+                type="button"
+                className="absolute bottom-1 right-1 text-gray-500 hover:text-gray-900"
+                title="Move to another room"
+              >
+                <ArrowRightLeft className="h-3 w-3" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Move to room</DropdownMenuLabel>
+              {[...rooms, ...spareRooms].filter(r => r.id !== room.id).map((target) => (
+                <DropdownMenuItem key={target.id} onSelect={() => moveToRoom(seat, target)}>
+                  {target.room_number}{target.building ? ` - ${target.building}` : ''}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <Move className="h-5 w-5" />
+              <span>Edit Seats</span>
+            </CardTitle>
+            <CardDescription>
+              Drag students between seats; dropping on an occupied seat swaps them. Use a seat's move menu to send the student to the first free seat of another room. Locked seats keep their place when the plan is regenerated.
+            </CardDescription>
+          </div>
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" onClick={() => setWorking(saved)} disabled={!isDirty || isSaving}>
+              <Undo2 className="h-4 w-4 mr-2" />
+              Reset
+            </Button>
+            <Button size="sm" onClick={savePlan} disabled={!isDirty || isSaving || issues.length > 0}>
+              <Save className="h-4 w-4 mr-2" />
+              {isSaving ? 'Saving...' : 'Save Changes'}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading seating plan...</p>
+        ) : (
+          <>
+            {exam?.status === 'frozen' && (
+              <div className="p-3 bg-sky-50 rounded-lg text-sm text-sky-800 flex items-center">
+                <Snowflake className="h-4 w-4 mr-2" />
+                This exam has started, so its seating is frozen. Saving asks for a reason and logs the change.
+              </div>
+            )}
+
+            {issues.length > 0 && (
+              <div className="p-3 bg-red-50 rounded-lg text-sm text-red-800 space-y-1">
+                {issues.map((issue, index) => (
+                  <div key={index}>
+                    {studentById.get(issue.student_id)?.roll_number ?? issue.student_id}: {PLAN_ISSUE_LABELS[issue.kind]}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {violations.length > 0 && (
+              <div className="p-3 bg-amber-50 rounded-lg text-sm text-amber-800 flex items-center">
+                <AlertTriangle className="h-4 w-4 mr-2" />
+                {violations.length} seat{violations.length === 1 ? '' : 's'} break the adjacency rule. You can still save.
+              </div>
+            )}
+
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="outline">{working.length} students</Badge>
+                <Badge variant="outline">{working.filter(a => a.is_locked).length} locked</Badge>
+              </div>
+              {spareRooms.length > 0 && (
+                <Select value="" onValueChange={handleAddRoom}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Add a room" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {spareRooms.map((room) => (
+                      <SelectItem key={room.id} value={room.id}>
+                        {room.room_number} - {room.building}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+
+            {currentRoom && (
+              <Tabs value={currentRoom.id} onValueChange={setActiveRoom}>
+                <TabsList className="flex-wrap h-auto">
+                  {rooms.map((room) => (
+                    <TabsTrigger key={room.id} value={room.id}>
+                      {room.room_number}
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+                {rooms.map((room) => (
+                  <TabsContent key={room.id} value={room.id}>
+                    <BenchGrid
+                      layout={resolveLayout(room)}
+                      occupants={[]}
+                      seatsPerBench={room.students_per_bench}
+                      renderSeat={renderSeat(room)}
+                    />
+                  </TabsContent>
+                ))}
+              </Tabs>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SeatEditor;
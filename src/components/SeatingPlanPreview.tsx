@@ -0,0 +1,119 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import BenchGrid from "@/components/BenchGrid";
+import type { BenchOccupant } from "@/components/BenchGrid";
+import { CANDIDATE_KIND_LABELS, classroomCapacity, resolveLayout, seatKey } from "@/lib/allocation";
+import type { AllocationClassroom, AllocationPlan, AllocationStudent, PlanDiff, SeatRef } from "@/lib/allocation";
+import { Eye } from "lucide-react";
+
+interface SeatingPlanPreviewProps {
+  plan: AllocationPlan;
+  classrooms: AllocationClassroom[];
+  students: AllocationStudent[];
+  exams: { id: string; subject: string }[];
+  occupied: SeatRef[];
+  diff?: PlanDiff | null;
+}
+
+const SeatingPlanPreview = ({ plan, classrooms, students, exams, occupied, diff }: SeatingPlanPreviewProps) => {
+  const studentById = new Map(students.map(s => [s.id, s]));
+  const subjectById = new Map(exams.map(e => [e.id, e.subject]));
+  const violatingSeats = new Set(plan.diagnostics.violations.map(seatKey));
+  const addedSeats = new Set((diff?.added || []).map(seatKey));
+  const movedSeats = new Set((diff?.moved || []).map(m => seatKey(m.after)));
+
+  const usedRooms = classrooms.filter(c => plan.assignments.some(a => a.classroom_id === c.id));
+  const usedCapacity = usedRooms.reduce(
+    (sum, room) => sum + classroomCapacity(room) - occupied.filter(s => s.classroom_id === room.id).length,
+    0
+  );
+
+  const occupantsFor = (classroomId: string): BenchOccupant[] =>
+    plan.assignments
+      .filter(a => a.classroom_id === classroomId)
+      .map(a => {
+        const key = seatKey(a);
+        const student = studentById.get(a.student_id);
+        return {
+          bench_number: a.bench_number,
+          seat_position: a.seat_position,
+          student: student ?? { name: 'Unknown', roll_number: a.student_id, year: '', section: '' },
+          label: exams.length > 1 ? subjectById.get(a.exam_id) : undefined,
+          badge: student?.candidate_kind ? CANDIDATE_KIND_LABELS[student.candidate_kind] : undefined,
+          tone: violatingSeats.has(key) ? 'violation' : addedSeats.has(key) ? 'added' : movedSeats.has(key) ? 'moved' : undefined
+        };
+      });
+
+  const stats = [
+    { label: 'Rooms Used', value: usedRooms.length },
+    { label: 'Students Placed', value: plan.diagnostics.allocatedCount },
+    { label: 'Empty Seats', value: usedCapacity - plan.assignments.length },
+    { label: 'Rule Violations', value: plan.diagnostics.violations.length }
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Eye className="h-5 w-5" />
+          <span>Draft Preview</span>
+        </CardTitle>
+        <CardDescription>
+          Nothing is saved until the draft is published • Seed {plan.diagnostics.seed}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {stats.map(({ label, value }) => (
+            <div key={label} className="p-3 bg-gray-50 rounded-lg">
+              <div className="text-xs text-gray-600">{label}</div>
+              <div className="text-xl font-semibold">{value}</div>
+            </div>
+          ))}
+        </div>
+
+        {diff && (
+          <div className="p-4 bg-blue-50 rounded-lg">
+            <h4 className="font-medium text-blue-900 mb-2">Changes Against Current Plan</h4>
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="outline" className="border-green-400">{diff.added.length} added</Badge>
+              <Badge variant="outline" className="border-blue-400">{diff.moved.length} moved</Badge>
+              <Badge variant="outline" className="border-red-400">{diff.removed.length} removed</Badge>
+              <Badge variant="outline">{diff.unchanged} unchanged</Badge>
+            </div>
+          </div>
+        )}
+
+        {usedRooms.length > 0 && (
+          <Tabs defaultValue={usedRooms[0].id}>
+            <TabsList className="flex-wrap h-auto">
+              {usedRooms.map((room) => (
+                <TabsTrigger key={room.id} value={room.id}>
+                  {room.room_number}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+            {usedRooms.map((room) => (
+              <TabsContent key={room.id} value={room.id}>
+                <BenchGrid
+                  layout={resolveLayout(room)}
+                  occupants={occupantsFor(room.id)}
+                  seatsPerBench={room.students_per_bench}
+                />
+              </TabsContent>
+            ))}
+          </Tabs>
+        )}
+
+        <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+          <span className="flex items-center gap-1"><span className="h-3 w-3 rounded border border-amber-400 bg-amber-50" /> Rule relaxed</span>
+          {diff && <span className="flex items-center gap-1"><span className="h-3 w-3 rounded border border-green-400 bg-green-50" /> Newly seated</span>}
+          {diff && <span className="flex items-center gap-1"><span className="h-3 w-3 rounded border border-blue-400 bg-blue-50" /> Moved</span>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SeatingPlanPreview;
@@ -9,7 +9,12 @@ import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
-import { Settings as SettingsIcon, Users, Building, Save, Plus, Trash2 } from "lucide-react";
+import { DEFAULT_SYSTEM_SETTINGS, fetchSystemSettings } from "@/lib/system-settings";
+import { fetchCapacityProfiles, saveCapacityProfile } from "@/lib/capacity-profiles";
+import { EXAM_TYPES } from "@/lib/exam-types";
+import type { CapacityProfile } from "@/lib/allocation";
+import CapacityProfileSelect from "@/components/CapacityProfileSelect";
+import { Settings as SettingsIcon, Users, Building, Save, Plus, Trash2, Armchair } from "lucide-react";
 
 interface SeatingCombination {
   id: string;
@@ -29,20 +34,106 @@ const Settings = () => {
     mix_strategy: 'alternate',
     is_default: false
   });
-  const [systemSettings, setSystemSettings] = useState({
-    default_exam_duration: 3,
-    default_students_per_bench: 2,
-    allow_same_year_adjacent: false,
-    auto_email_credentials: true,
-    backup_frequency: 'daily'
-  });
+  const [systemSettings, setSystemSettings] = useState(DEFAULT_SYSTEM_SETTINGS);
+  const [systemSettingsId, setSystemSettingsId] = useState<string | undefined>();
   const [isSaving, setIsSaving] = useState(false);
+  const [isSavingSettings, setIsSavingSettings] = useState(false);
+  const [capacityProfiles, setCapacityProfiles] = useState<Record<string, CapacityProfile | null>>({});
+  const [isSavingProfiles, setIsSavingProfiles] = useState(false);
   const { toast } = useToast();
 
   useEffect(() => {
     fetchSeatingCombinations();
+    loadSystemSettings();
+    loadCapacityProfiles();
   }, []);
 
+  const loadCapacityProfiles = async () => {
+    try {
+      const rows = await fetchCapacityProfiles();
+      const profiles: Record<string, CapacityProfile | null> = Object.fromEntries(EXAM_TYPES.map(type => [type, null]));
+      for (const { exam_type, seats_per_bench, checkerboard } of rows) {
+        profiles[exam_type] = { seats_per_bench, checkerboard };
+      }
+      setCapacityProfiles(profiles);
+    } catch (error) {
+      console.error('Error fetching capacity profiles:', error);
+    }
+  };
+
+  const saveCapacityProfiles = async () => {
+    setIsSavingProfiles(true);
+
+    try {
+      await Promise.all(
+        Object.entries(capacityProfiles).map(([examType, profile]) => saveCapacityProfile(examType, profile))
+      );
+
+      await loadCapacityProfiles();
+      toast({
+        title: "Capacity Profiles Saved",
+        description: "Exam seating density has been updated for each exam type."
+      });
+
+    } catch (error) {
+      console.error('Error saving capacity profiles:', error);
+      toast({
+        title: "Save Failed",
+        description: "Failed to save capacity profiles. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSavingProfiles(false);
+    }
+  };
+
+  const loadSystemSettings = async () => {
+    const { id, ...settings } = await fetchSystemSettings();
+    setSystemSettingsId(id);
+    setSystemSettings({
+      default_exam_duration: settings.default_exam_duration,
+      default_students_per_bench: settings.default_students_per_bench,
+      allow_same_year_adjacent: settings.allow_same_year_adjacent,
+      check_diagonal_adjacent: settings.check_diagonal_adjacent,
+      auto_email_credentials: settings.auto_email_credentials,
+      backup_frequency: settings.backup_frequency,
+      series_window_days: settings.series_window_days
+    });
+  };
+
+  const saveSystemSettings = async () => {
+    setIsSavingSettings(true);
+
+    try {
+      const { error } = systemSettingsId
+        ? await supabase
+            .from('system_settings')
+            .update(systemSettings)
+            .eq('id', systemSettingsId)
+        : await supabase
+            .from('system_settings')
+            .insert([systemSettings]);
+
+      if (error) throw error;
+
+      await loadSystemSettings();
+      toast({
+        title: "Settings Saved",
+        description: "System configuration has been updated."
+      });
+
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      toast({
+        title: "Save Failed",
+        description: "Failed to save system settings. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
   const fetchSeatingCombinations = async () => {
     const { data } = await supabase
       .from('seating_combinations')
@@ -258,7 +349,7 @@ const Settings = () => {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="alternate">Alternate (Year/Section rotation)</SelectItem>
-                    <SelectItem value="block">Block (Group similar together)</SelectItem>
+                    <SelectItem value="block">Block (Contiguous section blocks)</SelectItem>
                     <SelectItem value="random">Random (Completely mixed)</SelectItem>
                   </SelectContent>
                 </Select>
@@ -301,7 +392,9 @@ const Settings = () => {
                         )}
                       </div>
                       <div className="text-sm text-gray-600 mt-1">
-                        {combination.allowed_years.join(', ')} • {combination.mix_strategy} mixing
+                        {combination.allowed_years.join(', ')}
+                        {combination.allowed_sections.length > 0 && ` • Sections ${combination.allowed_sections.join(', ')}`}
+                        {' '}• {combination.mix_strategy} mixing
                       </div>
                     </div>
                     <div className="flex items-center space-x-2">
@@ -374,10 +467,28 @@ const Settings = () => {
                     <SelectItem value="1">1 Student</SelectItem>
                     <SelectItem value="2">2 Students</SelectItem>
                     <SelectItem value="3">3 Students</SelectItem>
+                    <SelectItem value="4">4 Students</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="series-window">Exam Series History (Days)</Label>
+                <Input
+                  id="series-window"
+                  type="number"
+                  min="1"
+                  value={systemSettings.series_window_days}
+                  onChange={(e) => setSystemSettings(prev => ({ 
+                    ...prev, 
+                    series_window_days: parseInt(e.target.value) 
+                  }))}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Earlier papers of a series held within this many days count when avoiding repeat neighbours
+                </p>
+              </div>
+
               <div className="flex items-center space-x-2">
                 <Switch
                   id="same-year-adjacent"
@@ -387,7 +498,19 @@ const Settings = () => {
                     allow_same_year_adjacent: checked 
                   }))}
                 />
-                <Label htmlFor="same-year-adjacent">Allow same year students to sit adjacent</Label>
+                <Label htmlFor="same-year-adjacent">Allow same year students to sit adjacent (different sections only)</Label>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="diagonal-adjacent"
+                  checked={systemSettings.check_diagonal_adjacent}
+                  onCheckedChange={(checked) => setSystemSettings(prev => ({ 
+                    ...prev, 
+                    check_diagonal_adjacent: checked 
+                  }))}
+                />
+                <Label htmlFor="diagonal-adjacent">Also keep diagonal neighbours apart</Label>
               </div>
 
               <div className="flex items-center space-x-2">
@@ -422,9 +545,48 @@ const Settings = () => {
                 </Select>
               </div>
 
-              <Button className="w-full mt-6">
+              <Button 
+                onClick={saveSystemSettings}
+                disabled={isSavingSettings}
+                className="w-full mt-6"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                {isSavingSettings ? 'Saving...' : 'Save System Settings'}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Armchair className="h-5 w-5" />
+                <span>Exam Capacity Profiles</span>
+              </CardTitle>
+              <CardDescription>
+                How densely rooms are seated for each exam type. Exams and rooms can override this on the allocation screen.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {Object.entries(capacityProfiles).map(([examType, profile]) => (
+                <div key={examType} className="flex items-center justify-between gap-4">
+                  <Label className="shrink-0">{examType}</Label>
+                  <CapacityProfileSelect
+                    value={profile}
+                    onChange={(next) => setCapacityProfiles(prev => ({ ...prev, [examType]: next }))}
+                    maxSeats={4}
+                    inheritLabel="No profile (every seat)"
+                    className="w-56"
+                  />
+                </div>
+              ))}
+
+              <Button
+                onClick={saveCapacityProfiles}
+                disabled={isSavingProfiles}
+                className="w-full mt-6"
+              >
                 <Save className="h-4 w-4 mr-2" />
-                Save System Settings
+                {isSavingProfiles ? 'Saving...' : 'Save Capacity Profiles'}
               </Button>
             </CardContent>
           </Card>
@@ -8,6 +8,11 @@ import { supabase } from "@/integrations/supabase/client";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import AccommodationDialog from "@/components/AccommodationDialog";
+import { fetchAccommodations } from "@/lib/accommodations";
+import type { StudentAccommodation } from "@/lib/accommodations";
+import { describeAccommodation } from "@/lib/allocation";
 
 interface Student {
   id: string;
@@ -23,6 +28,7 @@ interface Student {
 
 const StudentManagement = () => {
   const [students, setStudents] = useState<Student[]>([]);
+  const [accommodations, setAccommodations] = useState<Map<string, StudentAccommodation>>(new Map());
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedYear, setSelectedYear] = useState('');
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -44,13 +50,17 @@ const StudentManagement = () => {
 
   const fetchStudents = async () => {
     try {
-      const { data, error } = await supabase
-        .from('students')
-        .select('*')
-        .order('year, section, roll_number');
+      const [{ data, error }, accommodationMap] = await Promise.all([
+        supabase
+          .from('students')
+          .select('*')
+          .order('year, section, roll_number'),
+        fetchAccommodations()
+      ]);
       
       if (error) throw error;
       setStudents(data || []);
+      setAccommodations(accommodationMap);
     } catch (error) {
       console.error('Error fetching students:', error);
       toast({
@@ -475,7 +485,16 @@ const StudentManagement = () => {
                   filteredStudents.map((student) => (
                     <tr key={student.id}>
                       <td className="font-mono font-medium">{student.roll_number}</td>
-                      <td className="font-medium">{student.name}</td>
+                      <td className="font-medium">
+                        {student.name}
+                        {accommodations.has(student.id) && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {describeAccommodation(accommodations.get(student.id)).map(label => (
+                              <Badge key={label} variant="secondary" className="text-xs font-normal">{label}</Badge>
+                            ))}
+                          </div>
+                        )}
+                      </td>
                       <td>{student.year}</td>
                       <td className="text-center">{student.section}</td>
                       <td>{student.department}</td>
@@ -488,6 +507,11 @@ const StudentManagement = () => {
                           >
                             <Edit className="h-4 w-4" />
                           </Button>
+                          <AccommodationDialog
+                            student={student}
+                            accommodation={accommodations.get(student.id)}
+                            onSaved={fetchStudents}
+                          />
                           <Button 
                             variant="outline" 
                             size="sm"
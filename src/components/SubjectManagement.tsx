@@ -0,0 +1,271 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import EnrolmentUpload from "@/components/EnrolmentUpload";
+import { clearEnrolment, deleteSubject, fetchSubjects, saveSubject } from "@/lib/subjects";
+import type { SubjectWithEnrolment } from "@/lib/subjects";
+import { Plus, Edit, Trash2, Library, UserMinus } from "lucide-react";
+
+const EMPTY_FORM = { code: '', name: '', department: '' };
+
+const SubjectManagement = () => {
+  const [subjects, setSubjects] = useState<SubjectWithEnrolment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingSubject, setEditingSubject] = useState<SubjectWithEnrolment | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const { toast } = useToast();
+
+  const loadSubjects = useCallback(async () => {
+    try {
+      setSubjects(await fetchSubjects());
+    } catch (error) {
+      console.error('Error fetching subjects:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch subjects",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadSubjects();
+  }, [loadSubjects]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await saveSubject({
+        code: formData.code.trim().toUpperCase(),
+        name: formData.name.trim(),
+        department: formData.department.trim() || null
+      }, editingSubject?.id);
+
+      toast({ title: "Success", description: `Subject ${editingSubject ? 'updated' : 'created'} successfully` });
+      setDialogOpen(false);
+      setEditingSubject(null);
+      setFormData(EMPTY_FORM);
+      loadSubjects();
+    } catch (error) {
+      console.error('Error saving subject:', error);
+      toast({
+        title: "Error",
+        description: (error as { code?: string }).code === '23505'
+          ? `Subject code "${formData.code}" already exists`
+          : "Failed to save subject",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleEdit = (subject: SubjectWithEnrolment) => {
+    setEditingSubject(subject);
+    setFormData({ code: subject.code, name: subject.name, department: subject.department || '' });
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (subject: SubjectWithEnrolment) => {
+    if (!confirm(`Delete ${subject.code}? Its ${subject.enrolled} enrolments are removed and its exams go back to seating whole years.`)) return;
+
+    try {
+      await deleteSubject(subject.id);
+      toast({ title: "Success", description: "Subject deleted successfully" });
+      loadSubjects();
+    } catch (error) {
+      console.error('Error deleting subject:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete subject",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleClearEnrolment = async (subject: SubjectWithEnrolment) => {
+    if (!confirm(`Remove all ${subject.enrolled} students enrolled in ${subject.code}?`)) return;
+
+    try {
+      await clearEnrolment(subject.id);
+      toast({ title: "Success", description: `Enrolment for ${subject.code} cleared` });
+      loadSubjects();
+    } catch (error) {
+      console.error('Error clearing enrolment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to clear enrolment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return <div className="flex justify-center p-8">Loading subjects...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Subjects & Enrolment</h2>
+          <p className="text-muted-foreground">Manage the subject catalogue and which students sit each paper</p>
+        </div>
+        <Dialog
+          open={dialogOpen}
+          onOpenChange={(open) => {
+            setDialogOpen(open);
+            if (!open) {
+              setEditingSubject(null);
+              setFormData(EMPTY_FORM);
+            }
+          }}
+        >
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Subject
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                {editingSubject ? 'Edit Subject' : 'Add New Subject'}
+              </DialogTitle>
+              <DialogDescription>
+                Exams linked to a subject seat only its enrolled students
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="code">Subject Code</Label>
+                  <Input
+                    id="code"
+                    value={formData.code}
+                    onChange={(e) => setFormData({...formData, code: e.target.value})}
+                    placeholder="CS301"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="department">Department</Label>
+                  <Input
+                    id="department"
+                    value={formData.department}
+                    onChange={(e) => setFormData({...formData, department: e.target.value})}
+                    placeholder="Computer Science"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="name">Subject Name</Label>
+                <Input
+                  id="name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({...formData, name: e.target.value})}
+                  placeholder="Computer Networks"
+                  required
+                />
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit">
+                  {editingSubject ? 'Update' : 'Create'} Subject
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Library className="h-5 w-5" />
+            Subject Catalogue
+          </CardTitle>
+          <CardDescription>
+            Total: {subjects.length} subjects,
+            Enrolments: {subjects.reduce((sum, s) => sum + s.enrolled, 0)}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Department</TableHead>
+                <TableHead>Enrolled</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {subjects.map((subject) => (
+                <TableRow key={subject.id}>
+                  <TableCell className="font-medium">{subject.code}</TableCell>
+                  <TableCell>{subject.name}</TableCell>
+                  <TableCell>{subject.department}</TableCell>
+                  <TableCell>
+                    <Badge variant={subject.enrolled > 0 ? "secondary" : "outline"}>
+                      {subject.enrolled} students
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleEdit(subject)}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        title="Clear enrolment"
+                        disabled={subject.enrolled === 0}
+                        onClick={() => handleClearEnrolment(subject)}
+                      >
+                        <UserMinus className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(subject)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {subjects.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No subjects yet. Add one or upload an enrolment file with subject names.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <EnrolmentUpload onImported={loadSubjects} />
+    </div>
+  );
+};
+
+export default SubjectManagement;
@@ -66,8 +66,10 @@ export type Database = {
           benches_per_row: number
           building: string | null
           created_at: string
+          floor: number | null
           id: string
           is_active: boolean
+          layout: Json
           room_number: string
           students_per_bench: number
           total_benches: number
@@ -78,8 +80,10 @@ export type Database = {
           benches_per_row?: number
           building?: string | null
           created_at?: string
+          floor?: number | null
           id?: string
           is_active?: boolean
+          layout?: Json
           room_number: string
           students_per_bench?: number
           total_benches?: number
@@ -90,8 +94,10 @@ export type Database = {
           benches_per_row?: number
           building?: string | null
           created_at?: string
+          floor?: number | null
           id?: string
           is_active?: boolean
+          layout?: Json
           room_number?: string
           students_per_bench?: number
           total_benches?: number
@@ -142,8 +148,120 @@ export type Database = {
         }
         Relationships: []
       }
+      exam_candidates: {
+        Row: {
+          created_at: string
+          exam_id: string
+          id: string
+          kind: string
+          student_id: string
+        }
+        Insert: {
+          created_at?: string
+          exam_id: string
+          id?: string
+          kind?: string
+          student_id: string
+        }
+        Update: {
+          created_at?: string
+          exam_id?: string
+          id?: string
+          kind?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_candidates_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "exam_candidates_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exam_capacity_overrides: {
+        Row: {
+          checkerboard: boolean
+          classroom_id: string | null
+          created_at: string
+          exam_id: string
+          id: string
+          seats_per_bench: number | null
+          updated_at: string
+        }
+        Insert: {
+          checkerboard?: boolean
+          classroom_id?: string | null
+          created_at?: string
+          exam_id: string
+          id?: string
+          seats_per_bench?: number | null
+          updated_at?: string
+        }
+        Update: {
+          checkerboard?: boolean
+          classroom_id?: string | null
+          created_at?: string
+          exam_id?: string
+          id?: string
+          seats_per_bench?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_capacity_overrides_classroom_id_fkey"
+            columns: ["classroom_id"]
+            isOneToOne: false
+            referencedRelation: "classrooms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "exam_capacity_overrides_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exam_capacity_profiles: {
+        Row: {
+          checkerboard: boolean
+          created_at: string
+          exam_type: string
+          id: string
+          seats_per_bench: number | null
+          updated_at: string
+        }
+        Insert: {
+          checkerboard?: boolean
+          created_at?: string
+          exam_type: string
+          id?: string
+          seats_per_bench?: number | null
+          updated_at?: string
+        }
+        Update: {
+          checkerboard?: boolean
+          created_at?: string
+          exam_type?: string
+          id?: string
+          seats_per_bench?: number | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       exams: {
         Row: {
+          allocation_status: string
           created_at: string
           duration_hours: number | null
           end_time: string
@@ -153,10 +271,12 @@ export type Database = {
           start_time: string
           status: string
           subject: string
+          subject_id: string | null
           updated_at: string
           years: string[]
         }
         Insert: {
+          allocation_status?: string
           created_at?: string
           duration_hours?: number | null
           end_time: string
@@ -166,10 +286,12 @@ export type Database = {
           start_time: string
           status?: string
           subject: string
+          subject_id?: string | null
           updated_at?: string
           years: string[]
         }
         Update: {
+          allocation_status?: string
           created_at?: string
           duration_hours?: number | null
           end_time?: string
@@ -179,10 +301,19 @@ export type Database = {
           start_time?: string
           status?: string
           subject?: string
+          subject_id?: string | null
           updated_at?: string
           years?: string[]
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "exams_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       faculty: {
         Row: {
@@ -480,6 +611,7 @@ export type Database = {
           created_at: string
           exam_id: string
           id: string
+          is_locked: boolean
           seat_position: number
           student_id: string
         }
@@ -489,6 +621,7 @@ export type Database = {
           created_at?: string
           exam_id: string
           id?: string
+          is_locked?: boolean
           seat_position: number
           student_id: string
         }
@@ -498,6 +631,7 @@ export type Database = {
           created_at?: string
           exam_id?: string
           id?: string
+          is_locked?: boolean
           seat_position?: number
           student_id?: string
         }
@@ -555,6 +689,197 @@ export type Database = {
         }
         Relationships: []
       }
+      seating_overrides: {
+        Row: {
+          created_at: string
+          exam_id: string
+          id: string
+          performed_by: string | null
+          reason: string
+          seats_after: number
+          seats_before: number
+        }
+        Insert: {
+          created_at?: string
+          exam_id: string
+          id?: string
+          performed_by?: string | null
+          reason: string
+          seats_after: number
+          seats_before: number
+        }
+        Update: {
+          created_at?: string
+          exam_id?: string
+          id?: string
+          performed_by?: string | null
+          reason?: string
+          seats_after?: number
+          seats_before?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "seating_overrides_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      seating_plans: {
+        Row: {
+          assignments: Json | null
+          combination_id: string | null
+          created_at: string
+          created_by: string | null
+          edited_from: string | null
+          exam_ids: string[]
+          fingerprint: string
+          id: string
+          parameters: Json
+          restored_from: string | null
+          seed: number
+          strategy: string
+          version: number
+        }
+        Insert: {
+          assignments?: Json | null
+          combination_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          edited_from?: string | null
+          exam_ids: string[]
+          fingerprint: string
+          id?: string
+          parameters: Json
+          restored_from?: string | null
+          seed: number
+          strategy: string
+          version?: number
+        }
+        Update: {
+          assignments?: Json | null
+          combination_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          edited_from?: string | null
+          exam_ids?: string[]
+          fingerprint?: string
+          id?: string
+          parameters?: Json
+          restored_from?: string | null
+          seed?: number
+          strategy?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "seating_plans_combination_id_fkey"
+            columns: ["combination_id"]
+            isOneToOne: false
+            referencedRelation: "seating_combinations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "seating_plans_edited_from_fkey"
+            columns: ["edited_from"]
+            isOneToOne: false
+            referencedRelation: "seating_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "seating_plans_restored_from_fkey"
+            columns: ["restored_from"]
+            isOneToOne: false
+            referencedRelation: "seating_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_accommodations: {
+        Row: {
+          created_at: string
+          extra_time_minutes: number
+          front_bench: boolean
+          ground_floor: boolean
+          id: string
+          notes: string | null
+          scribe: boolean
+          separate_room: boolean
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          extra_time_minutes?: number
+          front_bench?: boolean
+          ground_floor?: boolean
+          id?: string
+          notes?: string | null
+          scribe?: boolean
+          separate_room?: boolean
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          extra_time_minutes?: number
+          front_bench?: boolean
+          ground_floor?: boolean
+          id?: string
+          notes?: string | null
+          scribe?: boolean
+          separate_room?: boolean
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_accommodations_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: true
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_subjects: {
+        Row: {
+          created_at: string
+          id: string
+          student_id: string
+          subject_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          student_id: string
+          subject_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          student_id?: string
+          subject_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_subjects_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_subjects_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       students: {
         Row: {
           created_at: string
@@ -594,6 +919,72 @@ export type Database = {
         }
         Relationships: []
       }
+      subjects: {
+        Row: {
+          code: string
+          created_at: string
+          department: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          department?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          department?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      system_settings: {
+        Row: {
+          allow_same_year_adjacent: boolean
+          auto_email_credentials: boolean
+          backup_frequency: string
+          check_diagonal_adjacent: boolean
+          created_at: string
+          default_exam_duration: number
+          default_students_per_bench: number
+          id: string
+          series_window_days: number
+          updated_at: string
+        }
+        Insert: {
+          allow_same_year_adjacent?: boolean
+          auto_email_credentials?: boolean
+          backup_frequency?: string
+          check_diagonal_adjacent?: boolean
+          created_at?: string
+          default_exam_duration?: number
+          default_students_per_bench?: number
+          id?: string
+          series_window_days?: number
+          updated_at?: string
+        }
+        Update: {
+          allow_same_year_adjacent?: boolean
+          auto_email_credentials?: boolean
+          backup_frequency?: string
+          check_diagonal_adjacent?: boolean
+          created_at?: string
+          default_exam_duration?: number
+          default_students_per_bench?: number
+          id?: string
+          series_window_days?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       tax_information: {
         Row: {
           address: string | null
@@ -741,6 +1132,23 @@ export type Database = {
         Args: { user_name: string }
         Returns: string
       }
+      override_frozen_seating: {
+        Args: {
+          p_allocations: Json
+          p_exam_ids: string[]
+          p_performed_by: string
+          p_reason: string
+        }
+        Returns: number
+      }
+      replace_seating_allocations: {
+        Args: { p_allocations: Json; p_exam_ids: string[] }
+        Returns: number
+      }
+      rollback_seating_plan: {
+        Args: { p_performed_by: string; p_plan_id: string; p_reason?: string }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
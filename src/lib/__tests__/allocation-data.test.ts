@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { makeClassroom, makeStudents } from '../allocation/__tests__/fixtures';
+import { fetchExamStudents, fetchProposedClashes, fetchSeatingHistory, UNSAVED_EXAM_ID } from '../allocation-data';
+import { fetchExamCandidates } from '../exam-candidates';
+import { LOOKUP_BATCH, PAGE_SIZE } from '../queries';
+
+const db = vi.hoisted(() => ({ tables: {} as Record<string, object[]> }));
+
+vi.mock('@/integrations/supabase/client', async () => {
+  const { createFakeSupabase } = await import('./fake-supabase');
+  return { supabase: createFakeSupabase(db.tables) };
+});
+// Postgres rejects an `exam_id` filter that is not a uuid
+vi.mock('@/lib/exam-candidates', () => ({
+  fetchExamCandidates: vi.fn(async (examIds: string[]) => {
+    const invalid = examIds.find(id => !/^[0-9a-f-]{36}$/.test(id));
+    if (invalid) throw new Error(`invalid input syntax for type uuid: "${invalid}"`);
+    return [];
+  })
+}));
+
+const saved = {
+  id: '6f1c2b9e-0d4a-4c57-9e3b-2a8d7f1e5c40',
+  subject: 'Data Structures',
+  exam_date: '2099-11-10',
+  start_time: '09:00',
+  end_time: '12:00',
+  years: ['II Year'],
+  status: 'scheduled'
+};
+
+beforeEach(() => {
+  vi.mocked(fetchExamCandidates).mockClear();
+  db.tables.students = [...makeStudents(2), ...makeStudents(3, 'III Year')];
+});
+
+describe('fetchProposedClashes', () => {
+  it('finds the clashes of an exam being created without looking up its candidates', async () => {
+    const created = { ...saved, id: UNSAVED_EXAM_ID, subject: 'Algorithms', start_time: '11:00', end_time: '14:00' };
+    const clashes = await fetchProposedClashes(created, [saved]);
+
+    expect(clashes.map(c => c.student.id)).toEqual(['IIA001', 'IIA002']);
+    expect(fetchExamCandidates).toHaveBeenCalledWith([saved.id]);
+    expect(fetchExamCandidates).not.toHaveBeenCalledWith([UNSAVED_EXAM_ID]);
+  });
+
+  it('ignores the saved copy of an exam being edited, and cancelled exams', async () => {
+    const cancelled = { ...saved, id: '0b7e4d21-9c3f-4a86-b5e2-7d1f0a6c3e98', status: 'cancelled' };
+    const clashes = await fetchProposedClashes({ ...saved, start_time: '10:00' }, [saved, cancelled]);
+
+    expect(clashes).toEqual([]);
+    expect(fetchExamCandidates).not.toHaveBeenCalled();
+  });
+
+  it('looks only at the years each exam is for', async () => {
+    const created = { ...saved, id: UNSAVED_EXAM_ID, years: ['III Year'] };
+
+    expect(await fetchProposedClashes(created, [saved])).toEqual([]);
+  });
+});
+
+describe('fetchExamStudents', () => {
+  it('reads every enrolled student past the row cap', async () => {
+    const enrolled = makeStudents(PAGE_SIZE + 5).map(student => ({ ...student, student_subjects: { subject_id: 'subject-1' } }));
+    db.tables.students = [...enrolled, ...makeStudents(3, 'II Year', 'B')];
+
+    const students = await fetchExamStudents({ ...saved, subject_id: 'subject-1' });
+
+    expect(students).toHaveLength(PAGE_SIZE + 5);
+    expect(students[0]).not.toHaveProperty('student_subjects');
+  });
+
+  it('reads every student of the exam\'s years past the row cap', async () => {
+    db.tables.students = [...makeStudents(PAGE_SIZE + 5), ...makeStudents(3, 'III Year')];
+
+    expect(await fetchExamStudents(saved)).toHaveLength(PAGE_SIZE + 5);
+  });
+});
+
+describe('fetchSeatingHistory', () => {
+  const cait = { ...saved, exam_type: 'CAIT-1' };
+  const paper = (id: string, exam_date: string, start_time = '09:00', exam_type = 'CAIT-1') =>
+    ({ id, exam_type, exam_date, start_time, status: 'scheduled' });
+  const seat = (exam_id: string, student_id: string, classroom_id: string, seat_position = 1) => ({
+    id: `${exam_id}-${student_id}`,
+    exam_id,
+    student_id,
+    classroom_id,
+    bench_number: 1,
+    seat_position,
+    classrooms: { ...makeClassroom(classroom_id, 10), floor: 0, layout: null }
+  });
+  const history = () => fetchSeatingHistory([cait], ['IIA001', 'IIA002'], 120);
+
+  beforeEach(() => {
+    db.tables.exams = [];
+    db.tables.seating_allocations = [];
+  });
+
+  it('counts only papers of the series held within the window', async () => {
+    db.tables.exams = [
+      paper('last-term', '2099-03-10'),
+      paper('this-term', '2099-09-15'),
+      paper('other-series', '2099-09-16', '09:00', 'CAIT-2')
+    ];
+    db.tables.seating_allocations = [
+      seat('last-term', 'IIA001', 'old'),
+      seat('this-term', 'IIA001', 'r1'),
+      seat('other-series', 'IIA001', 'r2')
+    ];
+
+    expect(await history()).toEqual({ pairs: [], rooms: { IIA001: ['r1'] } });
+  });
+
+  it('pairs neighbours from papers that shared a time slot', async () => {
+    db.tables.exams = [paper('morning-a', '2099-09-15'), paper('morning-b', '2099-09-15'), paper('afternoon', '2099-09-15', '14:00')];
+    db.tables.seating_allocations = [
+      seat('morning-a', 'IIA001', 'r1'),
+      seat('morning-b', 'IIA002', 'r1', 2),
+      seat('afternoon', 'IIA001', 'r2', 2)
+    ];
+
+    expect((await history()).pairs).toEqual(['IIA001|IIA002']);
+  });
+
+  it('reads the seating of more papers than one lookup holds', async () => {
+    const papers = Array.from({ length: LOOKUP_BATCH + 5 }, (_, i) => paper(`p${i}`, '2099-09-15'));
+    db.tables.exams = papers;
+    db.tables.seating_allocations = papers.map(p => seat(p.id, 'IIA001', `room-${p.id}`));
+
+    expect((await history()).rooms.IIA001).toHaveLength(papers.length);
+  });
+
+  it('is null when no exam is part of a series', async () => {
+    expect(await fetchSeatingHistory([saved], ['IIA001'], 120)).toBeNull();
+  });
+});
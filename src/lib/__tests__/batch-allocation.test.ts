@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { makeClassroom, makeStudents, rule } from '../allocation/__tests__/fixtures';
+import { replaceSeatingAllocations } from '../allocation-data';
+import { setAllocationStatus } from '../allocation-status';
+import { examsInScope, groupSessions, runBatchAllocation } from '../batch-allocation';
+import type { BatchExam, BatchOptions } from '../batch-allocation';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+vi.mock('@/lib/allocation-data', () => ({
+  fetchExamStudents: async () => makeStudents(4),
+  fetchExtraTimeSeats: async () => [],
+  fetchOccupiedSeats: async () => [],
+  fetchSeatingAllocations: async () => [],
+  fetchSeatingHistory: async () => null,
+  replaceSeatingAllocations: vi.fn()
+}));
+vi.mock('@/lib/allocation-status', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../allocation-status')>(),
+  setAllocationStatus: vi.fn()
+}));
+vi.mock('@/lib/capacity-profiles', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../capacity-profiles')>(),
+  fetchCapacityOverrides: async () => []
+}));
+vi.mock('@/lib/seating-plans', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../seating-plans')>(),
+  recordSeatingPlan: vi.fn()
+}));
+vi.mock('@/lib/system-settings', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../system-settings')>();
+  return { ...actual, fetchSystemSettings: async () => actual.DEFAULT_SYSTEM_SETTINGS };
+});
+
+const published: BatchExam = {
+  id: 'exam-1',
+  subject: 'Data Structures',
+  exam_date: '2099-11-10',
+  start_time: '09:00',
+  end_time: '12:00',
+  years: ['II Year'],
+  status: 'scheduled',
+  allocation_status: 'published'
+};
+
+const options: BatchOptions = {
+  rule: rule('alternate'),
+  combinationId: 'combination-1',
+  classrooms: [makeClassroom('room-1', 6)],
+  profiles: [],
+  fill: { policy: 'in-order' },
+  avoidRepeats: false,
+  skipSeated: false,
+  publish: false,
+  performedBy: 'admin'
+};
+
+beforeEach(() => {
+  vi.mocked(replaceSeatingAllocations).mockReset();
+  vi.mocked(setAllocationStatus).mockReset();
+});
+
+describe('runBatchAllocation', () => {
+  it('returns published exams to draft before replacing their seating', async () => {
+    const [result] = await runBatchAllocation([published], options, () => {});
+
+    expect(result.outcome).toBe('allocated');
+    expect(result.message).toContain('returned to draft');
+    expect(setAllocationStatus).toHaveBeenCalledWith([published.id], 'draft');
+    expect(vi.mocked(setAllocationStatus).mock.invocationCallOrder[0])
+      .toBeLessThan(vi.mocked(replaceSeatingAllocations).mock.invocationCallOrder[0]);
+  });
+
+  it('publishes them again when the seating could not be replaced', async () => {
+    vi.mocked(replaceSeatingAllocations).mockRejectedValue(new Error('seat already taken'));
+    const [result] = await runBatchAllocation([published], options, () => {});
+
+    expect(result.outcome).toBe('failed');
+    expect(vi.mocked(setAllocationStatus).mock.calls).toEqual([[[published.id], 'draft'], [[published.id], 'published']]);
+  });
+
+  it('leaves published exams published when publishing', async () => {
+    await runBatchAllocation([published], { ...options, publish: true }, () => {});
+
+    expect(setAllocationStatus).not.toHaveBeenCalled();
+  });
+});
+
+describe('examsInScope', () => {
+  const exams: BatchExam[] = [
+    { ...published, id: 'late', start_time: '14:00', end_time: '17:00', exam_type: 'CAIT-1' },
+    { ...published, id: 'early', exam_type: 'CAIT-1' },
+    { ...published, id: 'cancelled', status: 'cancelled', exam_type: 'CAIT-1' },
+    { ...published, id: 'next-day', exam_date: '2099-11-11', exam_type: 'End Semester' }
+  ];
+
+  it('picks scheduled exams in the date range, soonest first', () => {
+    const scoped = examsInScope(exams, { kind: 'dates', from: '2099-11-10', to: '2099-11-10' });
+
+    expect(scoped.map(e => e.id)).toEqual(['early', 'late']);
+  });
+
+  it('picks every scheduled paper of one series', () => {
+    expect(examsInScope(exams, { kind: 'series', examType: 'End Semester' }).map(e => e.id)).toEqual(['next-day']);
+  });
+});
+
+describe('groupSessions', () => {
+  it('groups exams sharing a time slot, in the order given', () => {
+    const exams: BatchExam[] = [
+      { ...published, id: 'a' },
+      { ...published, id: 'b', start_time: '11:00', end_time: '13:00' },
+      { ...published, id: 'c', start_time: '14:00', end_time: '17:00' },
+      { ...published, id: 'd', exam_date: '2099-11-11' }
+    ];
+
+    expect(groupSessions(exams).map(session => session.map(e => e.id))).toEqual([['a', 'b'], ['c'], ['d']]);
+  });
+});
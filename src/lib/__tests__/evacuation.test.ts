@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { makeClassroom, makeStudents } from '../allocation/__tests__/fixtures';
+import { replaceSeatingAllocations } from '../allocation-data';
+import { applyRoomEvacuation, fetchRoomBookings, fetchSeatsLostByEdit, planRoomEvacuation } from '../evacuation';
+import { PAGE_SIZE } from '../queries';
+import type { Row } from './fake-supabase';
+
+const db = vi.hoisted(() => ({ tables: {} as Record<string, object[]> }));
+
+vi.mock('@/integrations/supabase/client', async () => {
+  const { createFakeSupabase } = await import('./fake-supabase');
+  return { supabase: createFakeSupabase(db.tables) };
+});
+vi.mock('@/lib/accommodations', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../accommodations')>(),
+  fetchAccommodations: async () => new Map()
+}));
+vi.mock('@/lib/allocation-data', () => ({
+  fetchOccupiedSeats: async () => [],
+  fetchExtraTimeSeats: async () => [],
+  replaceSeatingAllocations: vi.fn()
+}));
+vi.mock('@/lib/capacity-profiles', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../capacity-profiles')>(),
+  fetchCapacityProfiles: async () => [],
+  fetchCapacityOverrides: async () => []
+}));
+vi.mock('@/lib/seating-plans', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../seating-plans')>(),
+  fetchLatestSeatingPlan: async () => null,
+  recordSeatingPlan: vi.fn()
+}));
+vi.mock('@/lib/system-settings', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../system-settings')>();
+  return { ...actual, fetchSystemSettings: async () => actual.DEFAULT_SYSTEM_SETTINGS };
+});
+
+const exam = {
+  id: 'exam-1',
+  subject: 'Data Structures',
+  exam_type: null,
+  subject_id: null,
+  exam_date: '2099-11-10',
+  start_time: '09:00',
+  end_time: '12:00',
+  years: ['II Year'],
+  status: 'scheduled',
+  allocation_status: 'draft'
+};
+
+const rooms = [
+  makeClassroom('big', 600, { benches_per_row: 10 }),
+  makeClassroom('small', 3),
+  makeClassroom('spare', 10)
+].map(room => ({ ...room, floor: 0, layout: null, is_active: true }));
+
+// The whole of `big` plus a full `small`: more seats than one response holds
+const seated = [
+  ...makeStudents(1200).map((student, i) => ({ student, classroom_id: 'big', bench_number: Math.floor(i / 2) + 1, seat_position: (i % 2) + 1 })),
+  ...makeStudents(6, 'III Year').map((student, i) => ({ student, classroom_id: 'small', bench_number: Math.floor(i / 2) + 1, seat_position: (i % 2) + 1 }))
+];
+
+beforeEach(() => {
+  vi.mocked(replaceSeatingAllocations).mockClear();
+  db.tables.classrooms = rooms;
+  db.tables.seating_allocations = seated.map(({ student, ...seat }, i): Row => ({
+    id: String(i).padStart(5, '0'),
+    exam_id: exam.id,
+    student_id: student.id,
+    is_locked: false,
+    ...seat,
+    students: student,
+    exams: exam
+  }));
+});
+
+describe('room evacuation', () => {
+  it('reads every booking of a room past the row cap', async () => {
+    const [booking] = await fetchRoomBookings('big');
+
+    expect(booking.students).toHaveLength(1200);
+    expect(booking.students.length).toBeGreaterThan(PAGE_SIZE);
+  });
+
+  it('keeps the seats of an exam with more seats than one response holds', async () => {
+    const room = rooms.find(r => r.id === 'small');
+    const evacuation = await planRoomEvacuation(room, await fetchRoomBookings(room.id));
+    await applyRoomEvacuation(evacuation, 'admin', null);
+
+    const [examIds, assignments] = vi.mocked(replaceSeatingAllocations).mock.calls[0];
+    expect(examIds).toEqual([exam.id]);
+    expect(assignments).toHaveLength(seated.length);
+    expect(assignments.filter(a => a.classroom_id === 'big')).toHaveLength(1200);
+    expect(assignments.filter(a => a.classroom_id === 'spare')).toHaveLength(6);
+  });
+});
+
+describe('fetchSeatsLostByEdit', () => {
+  const small = rooms.find(r => r.id === 'small');
+  const seatsOf = (lost: Awaited<ReturnType<typeof fetchSeatsLostByEdit>>) =>
+    lost.map(seat => [seat.bench_number, seat.seat_position]);
+
+  it('finds the seats on benches a smaller room no longer has', async () => {
+    const lost = await fetchSeatsLostByEdit({ ...small, total_benches: 2 });
+
+    expect(seatsOf(lost)).toEqual([[3, 1], [3, 2]]);
+    expect(lost[0].subject).toBe(exam.subject);
+  });
+
+  it('finds the seats on disabled benches and past a narrower bench', async () => {
+    const lost = await fetchSeatsLostByEdit({ ...small, students_per_bench: 1, layout: { disabled: [1] } });
+
+    expect(seatsOf(lost)).toEqual([[1, 1], [1, 2], [2, 2], [3, 2]]);
+  });
+
+  it('finds nothing when every seat survives, or the exams are over', async () => {
+    expect(await fetchSeatsLostByEdit({ ...small, total_benches: 5 })).toEqual([]);
+
+    db.tables.seating_allocations.forEach(seat => (seat as Row).exams = { ...exam, exam_date: '2000-01-01' });
+    expect(await fetchSeatsLostByEdit({ ...small, total_benches: 1 })).toEqual([]);
+  });
+});
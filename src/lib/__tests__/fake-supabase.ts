@@ -0,0 +1,103 @@
+import { PAGE_SIZE } from '../queries';
+
+export type Row = Record<string, unknown>;
+
+// Reads `exams.exam_date` from a row with the embedded `exams` object
+const valueAt = (row: Row, column: string) =>
+  column.split('.').reduce<unknown>((value, key) => (value as Row | null | undefined)?.[key], row);
+
+// Top-level names of a select list: `a, b!inner(c, d)` gives `a` and `b`
+const selectedColumns = (columns: string) => {
+  const names: string[] = [];
+  let depth = 0;
+  let name = '';
+
+  for (const char of `${columns},`) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (depth > 0 || char === ')' || char === '(') continue;
+
+    if (char === ',') {
+      names.push(name.trim().split('!')[0]);
+      name = '';
+    } else {
+      name += char;
+    }
+  }
+
+  return names.filter(Boolean);
+};
+
+/**
+ * A stand-in for the Supabase client over in-memory tables, enough for read
+ * queries (filters, `order`, `range` and `limit`) and upserts that skip
+ * duplicates. Rows carry embedded relations as nested objects already;
+ * `select` keeps the columns and relations it names, returning relations as
+ * they are. Like PostgREST, a response never holds more than `PAGE_SIZE` rows.
+ */
+export function createFakeSupabase(tables: Record<string, object[]>) {
+  const from = (table: string) => {
+    let rows = (tables[table] ?? []) as Row[];
+    let window: [number, number] | null = null;
+    let columns = ['*'];
+
+    const respond = () => {
+      const [start, end] = window ?? [0, rows.length - 1];
+      const data = rows
+        .slice(start, Math.min(end + 1, start + PAGE_SIZE))
+        .map(row => columns.includes('*') ? row : Object.fromEntries(columns.map(column => [column, row[column]])));
+      return { data, error: null };
+    };
+
+    const query = {
+      // Only `ignoreDuplicates` upserts; the rows inserted are what comes back
+      upsert: (values: Row[], { onConflict }: { onConflict: string; ignoreDuplicates: true }) => {
+        const keyOf = (row: Row) => onConflict.split(',').map(column => row[column]).join('|');
+        const stored = (tables[table] ??= []) as Row[];
+        const existing = new Set(stored.map(keyOf));
+        rows = values
+          .filter(row => !existing.has(keyOf(row)) && existing.add(keyOf(row)))
+          .map(row => {
+            const inserted = { id: `${table}-${stored.length + 1}`, ...row };
+            stored.push(inserted);
+            return inserted;
+          });
+        return query;
+      },
+      select: (list = '*') => {
+        columns = selectedColumns(list);
+        return query;
+      },
+      eq: (column: string, value: unknown) => filter(row => valueAt(row, column) === value),
+      neq: (column: string, value: unknown) => filter(row => valueAt(row, column) !== value),
+      gte: (column: string, value: string) => filter(row => String(valueAt(row, column)) >= value),
+      lte: (column: string, value: string) => filter(row => String(valueAt(row, column)) <= value),
+      in: (column: string, values: unknown[]) => filter(row => values.includes(valueAt(row, column))),
+      order: (column: string, { ascending = true } = {}) => {
+        rows = [...rows].sort((a, b) =>
+          String(valueAt(a, column)).localeCompare(String(valueAt(b, column))) * (ascending ? 1 : -1)
+        );
+        return query;
+      },
+      range: (start: number, end: number) => {
+        window = [start, end];
+        return query;
+      },
+      limit: (count: number) => {
+        window = [0, count - 1];
+        return query;
+      },
+      maybeSingle: async () => ({ data: respond().data[0] ?? null, error: null }),
+      then: <T>(resolve: (result: ReturnType<typeof respond>) => T) => Promise.resolve(respond()).then(resolve)
+    };
+
+    function filter(keep: (row: Row) => boolean) {
+      rows = rows.filter(keep);
+      return query;
+    }
+
+    return query;
+  };
+
+  return { from };
+}
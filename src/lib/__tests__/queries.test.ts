@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest';
+import { batches, fetchAllPages, LOOKUP_BATCH, PAGE_SIZE } from '../queries';
+
+// A table of `count` numbered rows, served a range at a time
+const table = (count: number) => vi.fn(async (from: number, to: number) => ({
+  data: Array.from({ length: Math.max(0, Math.min(to + 1, count) - from) }, (_, i) => from + i),
+  error: null
+}));
+
+describe('fetchAllPages', () => {
+  it('reads past the row cap', async () => {
+    const page = table(PAGE_SIZE * 2 + 5);
+    const rows = await fetchAllPages(page);
+
+    expect(rows).toHaveLength(PAGE_SIZE * 2 + 5);
+    expect(rows[PAGE_SIZE]).toBe(PAGE_SIZE);
+    expect(page).toHaveBeenCalledTimes(3);
+  });
+
+  it('asks once more when the last page is exactly full', async () => {
+    const page = table(PAGE_SIZE);
+
+    expect(await fetchAllPages(page)).toHaveLength(PAGE_SIZE);
+    expect(page).toHaveBeenLastCalledWith(PAGE_SIZE, PAGE_SIZE * 2 - 1);
+  });
+
+  it('throws the error of a failed page', async () => {
+    const error = new Error('permission denied');
+    await expect(fetchAllPages(async () => ({ data: null, error }))).rejects.toBe(error);
+  });
+});
+
+describe('batches', () => {
+  it('splits items into lookup-sized batches', () => {
+    const items = Array.from({ length: LOOKUP_BATCH + 1 }, (_, i) => i);
+
+    expect(batches(items).map(b => b.length)).toEqual([LOOKUP_BATCH, 1]);
+    expect(batches(items).flat()).toEqual(items);
+  });
+
+  it('gives no batch for no items', () => {
+    expect(batches([])).toEqual([]);
+  });
+});
@@ -0,0 +1,40 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { makeStudents } from '../allocation/__tests__/fixtures';
+import { importEnrolments } from '../subjects';
+
+const db = vi.hoisted(() => ({ tables: {} as Record<string, object[]> }));
+
+vi.mock('@/integrations/supabase/client', async () => {
+  const { createFakeSupabase } = await import('./fake-supabase');
+  return { supabase: createFakeSupabase(db.tables) };
+});
+
+const students = makeStudents(3);
+
+beforeEach(() => {
+  db.tables.students = students;
+  db.tables.subjects = [{ id: 'subject-1', code: 'CS201', name: 'Data Structures' }];
+  db.tables.student_subjects = [{ id: 'enrolment-1', student_id: students[0].id, subject_id: 'subject-1' }];
+});
+
+describe('importEnrolments', () => {
+  it('counts only enrolments that did not exist yet', async () => {
+    const result = await importEnrolments(students.map(s => ({ roll_number: s.roll_number, subject_code: 'CS201' })));
+
+    expect(result).toEqual({ enrolled: 2, existing: 1, createdSubjects: 0, errors: [] });
+    expect(db.tables.student_subjects).toHaveLength(3);
+  });
+
+  it('counts a pair listed twice in the file once', async () => {
+    const row = { roll_number: students[1].roll_number, subject_code: 'CS201' };
+
+    expect(await importEnrolments([row, row])).toMatchObject({ enrolled: 1, existing: 0 });
+  });
+
+  it('reports rows for unknown students', async () => {
+    const result = await importEnrolments([{ roll_number: 'X999', subject_code: 'CS201' }]);
+
+    expect(result).toMatchObject({ enrolled: 0, existing: 0 });
+    expect(result.errors).toEqual(['Row 2: No student with roll number "X999"']);
+  });
+});
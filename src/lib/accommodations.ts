@@ -0,0 +1,75 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { Accommodation } from "@/lib/allocation";
+
+export type StudentAccommodation = Accommodation & Pick<Tables<'student_accommodations'>, 'student_id' | 'notes'>;
+
+export const NO_ACCOMMODATION: Accommodation = {
+  ground_floor: false,
+  front_bench: false,
+  separate_room: false,
+  scribe: false,
+  extra_time_minutes: 0
+};
+
+const ACCOMMODATION_COLUMNS = 'student_id, ground_floor, front_bench, separate_room, scribe, extra_time_minutes, notes';
+
+// Only the fields the seating engine reads, so plan parameters stay small
+export function toAccommodation(row: Accommodation): Accommodation {
+  return {
+    ground_floor: row.ground_floor,
+    front_bench: row.front_bench,
+    separate_room: row.separate_room,
+    scribe: row.scribe,
+    extra_time_minutes: row.extra_time_minutes
+  };
+}
+
+// Student id -> accommodation; the table only holds students who need one
+export async function fetchAccommodations(): Promise<Map<string, StudentAccommodation>> {
+  const { data, error } = await supabase
+    .from('student_accommodations')
+    .select(ACCOMMODATION_COLUMNS);
+
+  if (error) throw error;
+  return new Map((data || []).map(row => [row.student_id, row]));
+}
+
+export async function fetchStudentAccommodation(studentId: string): Promise<StudentAccommodation | null> {
+  const { data, error } = await supabase
+    .from('student_accommodations')
+    .select(ACCOMMODATION_COLUMNS)
+    .eq('student_id', studentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Saves a student's accommodation. Clearing every need removes the row, so
+ * the table only ever lists students who need something.
+ */
+export async function saveAccommodation(studentId: string, accommodation: Accommodation, notes: string | null) {
+  const needed = accommodation.ground_floor || accommodation.front_bench || accommodation.separate_room
+    || accommodation.scribe || accommodation.extra_time_minutes > 0;
+
+  if (!needed) {
+    const { error } = await supabase
+      .from('student_accommodations')
+      .delete()
+      .eq('student_id', studentId);
+
+    if (error) throw error;
+    return;
+  }
+
+  const { error } = await supabase
+    .from('student_accommodations')
+    .upsert(
+      { student_id: studentId, ...toAccommodation(accommodation), notes },
+      { onConflict: 'student_id' }
+    );
+
+  if (error) throw error;
+}
@@ -0,0 +1,288 @@
+import { supabase } from "@/integrations/supabase/client";
+import { adjustedEndTime, buildSeatingHistory, clashesFor, examsOverlap, findStudentClashes } from "@/lib/allocation";
+import type {
+  AllocationClassroom,
+  AllocationExam,
+  AllocationStudent,
+  ExamCandidates,
+  SeatAssignment,
+  SeatingHistory,
+  SeatRef,
+  StudentClash
+} from "@/lib/allocation";
+import { fetchAccommodations, NO_ACCOMMODATION, toAccommodation } from "@/lib/accommodations";
+import { fetchExamCandidates } from "@/lib/exam-candidates";
+import { batches, fetchAllPages } from "@/lib/queries";
+
+// Stands in for the id of an exam that is being created
+export const UNSAVED_EXAM_ID = 'new';
+
+// Those enrolled in the exam's subject, or everyone in one of its years
+async function fetchRegularStudents(exam: AllocationExam): Promise<AllocationStudent[]> {
+  if (exam.subject_id) {
+    const enrolled = await fetchAllPages((from, to) => supabase
+      .from('students')
+      .select('*, student_subjects!inner(subject_id)')
+      .eq('student_subjects.subject_id', exam.subject_id)
+      .order('year, section, roll_number')
+      .range(from, to));
+
+    return enrolled.map(({ student_subjects: _enrolment, ...student }) => student);
+  }
+
+  return fetchAllPages((from, to) => supabase
+    .from('students')
+    .select('*')
+    .in('year', exam.years)
+    .order('year, section, roll_number')
+    .range(from, to));
+}
+
+/**
+ * Students eligible to sit an exam: its regular students plus any arrear or
+ * supplementary candidates added to it individually, who carry their
+ * `candidate_kind`. Students with seating needs carry their `accommodation`.
+ */
+export async function fetchExamStudents(exam: AllocationExam): Promise<AllocationStudent[]> {
+  const [regular, candidates, accommodations] = await Promise.all([
+    fetchRegularStudents(exam),
+    // An exam being created has no candidates yet, and its stand-in id is no uuid
+    exam.id === UNSAVED_EXAM_ID ? [] : fetchExamCandidates([exam.id]),
+    fetchAccommodations()
+  ]);
+  const candidateIds = new Set(candidates.map(c => c.student.id));
+
+  return [...regular.filter(s => !candidateIds.has(s.id)), ...candidates.map(c => c.student)].map(student => {
+    const accommodation = accommodations.get(student.id);
+    return accommodation ? { ...student, accommodation: toAccommodation(accommodation) } : student;
+  });
+}
+
+/**
+ * Clashes `exam` would cause with the rest of `timetable` once saved. An exam
+ * being created goes in with `UNSAVED_EXAM_ID` as its id.
+ */
+export async function fetchProposedClashes(
+  exam: AllocationExam,
+  timetable: (AllocationExam & { status?: string })[]
+): Promise<StudentClash[]> {
+  const others = timetable.filter(e => e.id !== exam.id && e.status !== 'cancelled' && examsOverlap(exam, e));
+  if (others.length === 0) return [];
+
+  const examStudents = await Promise.all(
+    [exam, ...others].map(async (e) => ({ exam: e, students: await fetchExamStudents(e) }))
+  );
+  return clashesFor(exam.id, findStudentClashes(examStudents));
+}
+
+/**
+ * Students due in two overlapping exams among `exams`. Only exams that overlap
+ * another one have their students fetched, so a clash-free timetable costs no
+ * student queries.
+ */
+export async function fetchStudentClashes(exams: AllocationExam[]): Promise<StudentClash[]> {
+  const overlapping = exams.filter(exam => exams.some(other => other.id !== exam.id && examsOverlap(exam, other)));
+  if (overlapping.length === 0) return [];
+
+  const examStudents = await Promise.all(
+    overlapping.map(async (exam) => ({ exam, students: await fetchExamStudents(exam) }))
+  );
+  return findStudentClashes(examStudents);
+}
+
+// Every seat of a room, whatever its layout, for blocking the whole room
+function wholeRoom(classroomId: string, room: { total_benches: number; students_per_bench: number }): SeatRef[] {
+  return Array.from({ length: room.total_benches * room.students_per_bench }, (_, i) => ({
+    classroom_id: classroomId,
+    bench_number: Math.floor(i / room.students_per_bench) + 1,
+    seat_position: (i % room.students_per_bench) + 1
+  }));
+}
+
+type SlotExam = Pick<AllocationExam, 'id' | 'exam_date' | 'start_time' | 'end_time'>;
+
+// The exam's slot as it stands for a student with `extraMinutes` of extra time
+const stretched = <T extends SlotExam>(exam: T, extraMinutes: number): T => ({
+  ...exam,
+  end_time: adjustedEndTime(exam.end_time, { ...NO_ACCOMMODATION, extra_time_minutes: extraMinutes })
+});
+
+// Exams on the days of `exams` apart from them, leaving out cancelled ones
+async function fetchSameDayExams(exams: AllocationExam[]): Promise<SlotExam[]> {
+  const ownIds = new Set(exams.map(e => e.id));
+
+  const { data, error } = await supabase
+    .from('exams')
+    .select('id, exam_date, start_time, end_time')
+    .in('exam_date', [...new Set(exams.map(e => e.exam_date))])
+    .neq('status', 'cancelled');
+
+  if (error) throw error;
+  return (data || []).filter(other => !ownIds.has(other.id));
+}
+
+// Seats of `examIds`, each with its room's size and the seated student's needs
+function fetchHeldSeats(examIds: string[]) {
+  return fetchAllPages((from, to) => supabase
+    .from('seating_allocations')
+    .select(`
+      exam_id, classroom_id, bench_number, seat_position,
+      classrooms!inner(total_benches, students_per_bench),
+      students!inner(student_accommodations(separate_room, scribe, extra_time_minutes))
+    `)
+    .in('exam_id', examIds)
+    .order('id')
+    .range(from, to));
+}
+
+type HeldSeat = Awaited<ReturnType<typeof fetchHeldSeats>>[number];
+
+// The seats, plus the whole room of every student among them who sits alone
+function takenSeats(seats: HeldSeat[]): SeatRef[] {
+  const ownRooms = new Map(
+    seats
+      .filter(({ students: { student_accommodations: a } }) => a?.separate_room || a?.scribe)
+      .map(seat => [seat.classroom_id, seat.classrooms])
+  );
+
+  return [
+    ...seats.map(({ classroom_id, bench_number, seat_position }) => ({ classroom_id, bench_number, seat_position })),
+    ...[...ownRooms].flatMap(([classroomId, room]) => wholeRoom(classroomId, room))
+  ];
+}
+
+/**
+ * Seats taken by exams whose time slot overlaps any of `exams`. The exams
+ * themselves are left out, since their own seating is about to be replaced.
+ * Students with extra time hold their seats until they finish, so an earlier
+ * exam can still take a seat after its end time. A room holding a student
+ * who sits alone is taken whole.
+ */
+export async function fetchOccupiedSeats(exams: AllocationExam[]): Promise<SeatRef[]> {
+  const [sameDay, accommodations] = await Promise.all([fetchSameDayExams(exams), fetchAccommodations()]);
+  const longest = Math.max(0, ...[...accommodations.values()].map(a => a.extra_time_minutes));
+
+  const overlaps = (other: SlotExam, extraMinutes: number) =>
+    exams.some(exam => examsOverlap(exam, stretched(other, extraMinutes)));
+  const reaching = sameDay.filter(other => overlaps(other, longest));
+  if (reaching.length === 0) return [];
+
+  const examById = new Map(reaching.map(e => [e.id, e]));
+  const seats = (await fetchHeldSeats(reaching.map(e => e.id))).filter(seat =>
+    overlaps(examById.get(seat.exam_id), seat.students.student_accommodations?.extra_time_minutes ?? 0)
+  );
+
+  return takenSeats(seats);
+}
+
+/**
+ * Seats taken by exams that start after `exams` end but before their
+ * students with extra time finish. Only those students need to keep off
+ * them (see `extraTimeOccupied`); everyone else has left by then.
+ */
+export async function fetchExtraTimeSeats(exams: ExamCandidates[]): Promise<SeatRef[]> {
+  const extended = exams
+    .map(({ exam, students }) => stretched(exam, Math.max(0, ...students.map(s => s.accommodation?.extra_time_minutes ?? 0))))
+    .filter((exam, i) => exam.end_time !== exams[i].exam.end_time);
+  if (extended.length === 0) return [];
+
+  const later = (await fetchSameDayExams(exams.map(({ exam }) => exam))).filter(other =>
+    extended.some(exam => examsOverlap(exam, other)) && !exams.some(({ exam }) => examsOverlap(exam, other))
+  );
+  if (later.length === 0) return [];
+
+  return takenSeats(await fetchHeldSeats(later.map(e => e.id)));
+}
+
+/**
+ * Who sat beside whom in earlier papers of the same series (`exam_type`) as
+ * `exams`, kept to `studentIds`. Types such as CAIT-1 recur every term, so
+ * only papers held in the `windowDays` before the first of `exams` count.
+ * Null when none of the exams is part of a series. Papers sharing a time slot
+ * count as one sitting, since their students share benches.
+ */
+export async function fetchSeatingHistory(
+  exams: AllocationExam[],
+  studentIds: string[],
+  windowDays: number
+): Promise<SeatingHistory | null> {
+  const types = [...new Set(exams.map(e => e.exam_type).filter(Boolean))];
+  if (types.length === 0) return null;
+
+  const ownIds = new Set(exams.map(e => e.id));
+  const firstStart = exams.map(e => `${e.exam_date}T${e.start_time}`).sort()[0];
+  const windowStart = new Date(`${firstStart.split('T')[0]}T00:00:00Z`);
+  windowStart.setUTCDate(windowStart.getUTCDate() - windowDays);
+
+  const series = await fetchAllPages((from, to) => supabase
+    .from('exams')
+    .select('id, exam_date, start_time')
+    .in('exam_type', types)
+    .gte('exam_date', windowStart.toISOString().split('T')[0])
+    .lte('exam_date', firstStart.split('T')[0])
+    .neq('status', 'cancelled')
+    .order('id')
+    .range(from, to));
+
+  const sittingOf = new Map(
+    series
+      .filter(e => !ownIds.has(e.id) && `${e.exam_date}T${e.start_time}` < firstStart)
+      .map(e => [e.id, `${e.exam_date}T${e.start_time}`])
+  );
+
+  const sittings = new Map<string, SeatAssignment[]>();
+  const classrooms = new Map<string, AllocationClassroom>();
+
+  for (const batch of batches([...sittingOf.keys()])) {
+    const rows = await fetchAllPages((from, to) => supabase
+      .from('seating_allocations')
+      .select(`
+        exam_id, classroom_id, student_id, bench_number, seat_position,
+        classrooms!inner(id, room_number, building, floor, total_benches, benches_per_row, students_per_bench, layout)
+      `)
+      .in('exam_id', batch)
+      .order('id')
+      .range(from, to));
+
+    for (const { classrooms: room, ...assignment } of rows) {
+      const sitting = sittingOf.get(assignment.exam_id);
+      if (!sittings.has(sitting)) sittings.set(sitting, []);
+      sittings.get(sitting).push(assignment);
+      classrooms.set(room.id, room);
+    }
+  }
+
+  return buildSeatingHistory([...sittings.values()], [...classrooms.values()], new Set(studentIds));
+}
+
+/**
+ * Swaps the seating of `examIds` for `assignments` atomically. On any error
+ * the existing seating is left exactly as it was.
+ */
+export async function replaceSeatingAllocations(examIds: string[], assignments: SeatAssignment[]) {
+  const { data, error } = await supabase.rpc('replace_seating_allocations', {
+    p_exam_ids: examIds,
+    p_allocations: assignments.map(a => ({ ...a }))
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+// Adds seats to an existing plan; rows already in place are left alone
+export async function insertSeatingAllocations(assignments: SeatAssignment[]) {
+  const { error } = await supabase
+    .from('seating_allocations')
+    .insert(assignments);
+
+  if (error) throw error;
+}
+
+export async function fetchSeatingAllocations(examIds: string[]): Promise<SeatAssignment[]> {
+  return fetchAllPages((from, to) => supabase
+    .from('seating_allocations')
+    .select('exam_id, classroom_id, student_id, bench_number, seat_position, is_locked')
+    .in('exam_id', examIds)
+    .order('id')
+    .range(from, to));
+}
@@ -0,0 +1,92 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { AllocationExam, SeatAssignment } from "@/lib/allocation";
+
+export type AllocationStatus = 'draft' | 'published' | 'frozen';
+
+export type SeatingOverride = Tables<'seating_overrides'>;
+
+export const ALLOCATION_STATUS_LABELS: Record<AllocationStatus, string> = {
+  draft: 'Draft',
+  published: 'Published',
+  frozen: 'Frozen'
+};
+
+// Statuses whose seating students can see on their dashboard
+export const STUDENT_VISIBLE_STATUSES: AllocationStatus[] = ['published', 'frozen'];
+
+type ExamWithStatus = Pick<AllocationExam, 'exam_date' | 'start_time'> & { allocation_status?: string };
+
+export function hasExamStarted(exam: Pick<AllocationExam, 'exam_date' | 'start_time'>, now = new Date()) {
+  return new Date(`${exam.exam_date}T${exam.start_time}`) <= now;
+}
+
+// Published seating counts as frozen once the exam has started, saved or not
+export function effectiveAllocationStatus(exam: ExamWithStatus, now = new Date()): AllocationStatus {
+  const status = (exam.allocation_status ?? 'draft') as AllocationStatus;
+  return status === 'published' && hasExamStarted(exam, now) ? 'frozen' : status;
+}
+
+export async function setAllocationStatus(examIds: string[], status: AllocationStatus) {
+  const { error } = await supabase
+    .from('exams')
+    .update({ allocation_status: status })
+    .in('id', examIds);
+
+  if (error) throw error;
+}
+
+/**
+ * Stores 'frozen' for published exams that have started, so the stored
+ * status shows what the database already enforces from the start time on.
+ * Returns the ids it froze.
+ */
+export async function freezeStartedExams(exams: (ExamWithStatus & { id: string })[]) {
+  const started = exams
+    .filter(e => e.allocation_status === 'published' && effectiveAllocationStatus(e) === 'frozen')
+    .map(e => e.id);
+
+  if (started.length > 0) await setAllocationStatus(started, 'frozen');
+  return started;
+}
+
+// Replaces frozen seating, recording the reason and who made the change
+export async function overrideFrozenSeating(
+  examIds: string[],
+  assignments: SeatAssignment[],
+  reason: string,
+  performedBy: string
+) {
+  const { data, error } = await supabase.rpc('override_frozen_seating', {
+    p_exam_ids: examIds,
+    p_allocations: assignments.map(a => ({ ...a })),
+    p_reason: reason,
+    p_performed_by: performedBy
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function fetchSeatingOverrides(examId: string): Promise<SeatingOverride[]> {
+  const { data, error } = await supabase
+    .from('seating_overrides')
+    .select('*')
+    .eq('exam_id', examId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Asks for the reason behind a change to frozen seating; null when the user
+ * cancels or gives none.
+ */
+export function promptOverrideReason(subjects: string[]) {
+  const reason = prompt(
+    `${subjects.join(', ')} ${subjects.length === 1 ? 'is' : 'are'} frozen because the exam has started. ` +
+    'Enter the reason for this change; it will be logged.'
+  );
+  return reason?.trim() || null;
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { adjustedEndTime, seatAccommodations } from '../accommodations';
+import type { Accommodation } from '../accommodations';
+import { freeSeats } from '../engine';
+import { makeClassroom, makeStudents } from './fixtures';
+
+const needs = (accommodation: Partial<Accommodation>): Accommodation => ({
+  ground_floor: false,
+  front_bench: false,
+  separate_room: false,
+  scribe: false,
+  extra_time_minutes: 0,
+  ...accommodation
+});
+
+const classrooms = [
+  makeClassroom('upstairs', 6, { floor: 1 }),
+  makeClassroom('ground', 6, { floor: 0 }),
+  makeClassroom('office', 1, { floor: 1 })
+];
+
+describe('seatAccommodations', () => {
+  const others = makeStudents(4);
+
+  it('seats everyone else after the students with needs, on the seats left', () => {
+    const [student] = makeStudents(1, 'III Year', 'A', { accommodation: needs({ front_bench: true }) });
+    const result = seatAccommodations([...others, student], classrooms, freeSeats(classrooms), new Set());
+
+    expect(result.placed.map(p => p.student)).toEqual([student]);
+    expect(result.rest).toEqual(others);
+    expect(result.seats).not.toContain(result.placed[0].seat);
+    expect(result.placed[0].seat.row).toBe(0);
+  });
+
+  it('gives a student who sits alone the smallest free room, and takes it out of the seats', () => {
+    const [student] = makeStudents(1, 'III Year', 'A', { accommodation: needs({ separate_room: true }) });
+    const result = seatAccommodations([student, ...others], classrooms, freeSeats(classrooms), new Set());
+
+    expect(result.placed[0].seat.classroom_id).toBe('office');
+    expect(result.ownRooms).toEqual(new Set(['office']));
+    expect(result.seats.some(seat => seat.classroom_id === 'office')).toBe(false);
+  });
+
+  it('never gives a room already in use to a student with a scribe', () => {
+    const [student] = makeStudents(1, 'III Year', 'A', { accommodation: needs({ scribe: true }) });
+    const result = seatAccommodations([student], classrooms, freeSeats(classrooms), new Set(['office']));
+
+    expect(result.placed[0].seat.classroom_id).toBe('upstairs');
+  });
+
+  it('keeps ground-floor students on the ground floor', () => {
+    const students = makeStudents(2, 'III Year', 'A', { accommodation: needs({ ground_floor: true }) });
+    const result = seatAccommodations([...others, ...students], classrooms, freeSeats(classrooms), new Set());
+
+    expect(result.placed.map(p => p.seat.classroom_id)).toEqual(['ground', 'ground']);
+  });
+
+  it('picks a ground-floor room over a smaller one upstairs for a student who sits alone', () => {
+    const [student] = makeStudents(1, 'III Year', 'A', { accommodation: needs({ ground_floor: true, separate_room: true }) });
+    const result = seatAccommodations([student], classrooms, freeSeats(classrooms), new Set());
+
+    expect(result.placed[0].seat.classroom_id).toBe('ground');
+  });
+
+  it('reports needs no seat meets and still seats those students with everyone else', () => {
+    const [student] = makeStudents(1, 'III Year', 'A', { accommodation: needs({ separate_room: true }) });
+    const busy = new Set(classrooms.map(c => c.id));
+    const result = seatAccommodations([student, ...others], classrooms, freeSeats(classrooms), busy);
+
+    expect(result.unmet).toEqual([student]);
+    expect(result.placed).toEqual([]);
+    expect(result.rest).toEqual([...others, student]);
+  });
+
+  it('keeps students with extra time off seats a later exam takes', () => {
+    const [student] = makeStudents(1, 'III Year', 'A', { accommodation: needs({ extra_time_minutes: 30 }) });
+    const free = freeSeats(classrooms);
+    const late = free.filter(seat => seat.classroom_id === 'upstairs');
+    const result = seatAccommodations([student, ...others], classrooms, free, new Set(), late);
+
+    expect(result.placed.map(p => p.student)).toEqual([student]);
+    expect(result.placed[0].seat.classroom_id).toBe('ground');
+    expect(result.rest).toEqual(others);
+  });
+
+  it('leaves students with extra time to everyone else when no later exam takes a seat', () => {
+    const [student] = makeStudents(1, 'III Year', 'A', { accommodation: needs({ extra_time_minutes: 30 }) });
+    const result = seatAccommodations([student, ...others], classrooms, freeSeats(classrooms), new Set());
+
+    expect(result.placed).toEqual([]);
+    expect(result.rest).toEqual([student, ...others]);
+  });
+
+  it('never gives a student with extra time a room of their own that a later exam uses', () => {
+    const [student] = makeStudents(1, 'III Year', 'A', { accommodation: needs({ separate_room: true, extra_time_minutes: 30 }) });
+    const late = freeSeats(classrooms).filter(seat => seat.classroom_id === 'office');
+    const result = seatAccommodations([student], classrooms, freeSeats(classrooms), new Set(), late);
+
+    expect(result.placed[0].seat.classroom_id).not.toBe('office');
+    expect(result.ownRooms.has('office')).toBe(false);
+  });
+});
+
+describe('adjustedEndTime', () => {
+  it('adds the extra time to the end of the exam', () => {
+    expect(adjustedEndTime('12:00', needs({ extra_time_minutes: 30 }))).toBe('12:30');
+    expect(adjustedEndTime('11:45', needs({ extra_time_minutes: 20 }))).toBe('12:05');
+  });
+
+  it('keeps the end time without extra time', () => {
+    expect(adjustedEndTime('12:00', null)).toBe('12:00');
+    expect(adjustedEndTime('12:00', needs({}))).toBe('12:00');
+  });
+});
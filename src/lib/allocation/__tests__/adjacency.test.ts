@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { findAdjacencyViolations, placeWithAdjacency } from '../adjacency';
+import type { AdjacencyOptions } from '../adjacency';
+import { buildSeatGrid } from '../grid';
+import { asCandidates, makeClassroom, makeStudents } from './fixtures';
+
+const toAssignments = (placed: { seat: { classroom_id: string; bench_number: number; seat_position: number }; student: { id: string; exam_id: string } }[]) =>
+  placed.map(({ seat, student }) => ({
+    exam_id: student.exam_id,
+    classroom_id: seat.classroom_id,
+    student_id: student.id,
+    bench_number: seat.bench_number,
+    seat_position: seat.seat_position
+  }));
+
+describe('placeWithAdjacency', () => {
+  const classroom = makeClassroom('r1', 9);
+  const seats = buildSeatGrid(classroom);
+
+  it('keeps same year/section students apart when there are enough groups', () => {
+    const students = [
+      ...makeStudents(4, 'II Year', 'A'),
+      ...makeStudents(4, 'II Year', 'B'),
+      ...makeStudents(4, 'III Year', 'A')
+    ];
+    const options: AdjacencyOptions = { groupBy: 'year-section', diagonal: false };
+    const row = makeClassroom('row', 6, { benches_per_row: 6 });
+    const placed = placeWithAdjacency(asCandidates(students), buildSeatGrid(row), options);
+
+    expect(placed).toHaveLength(12);
+    expect(findAdjacencyViolations(toAssignments(placed), students, [row], options)).toEqual([]);
+  });
+
+  it('groups by year alone when asked', () => {
+    const students = [...makeStudents(2, 'II Year', 'A'), ...makeStudents(2, 'II Year', 'B'), ...makeStudents(4, 'III Year', 'A')];
+    const options: AdjacencyOptions = { groupBy: 'year', diagonal: false };
+    const placed = placeWithAdjacency(asCandidates(students), buildSeatGrid(makeClassroom('r2', 4, { benches_per_row: 4 })), options);
+
+    // One row of eight seats: the years alternate along it, sections aside
+    const years = placed.map(p => p.student.year);
+    expect(years).toHaveLength(8);
+    years.slice(1).forEach((year, i) => expect(year).not.toBe(years[i]));
+  });
+
+  it('relaxes the rule rather than leave students unseated', () => {
+    const students = makeStudents(6, 'II Year', 'A');
+    const options: AdjacencyOptions = { groupBy: 'year-section', diagonal: true };
+    const placed = placeWithAdjacency(asCandidates(students), seats, options);
+
+    expect(placed).toHaveLength(6);
+    expect(findAdjacencyViolations(toAssignments(placed), students, [classroom], options).length).toBeGreaterThan(0);
+  });
+
+  it('counts preseated students as neighbours', () => {
+    const [fixedSeat, ...rest] = seats;
+    const fixedStudent = asCandidates(makeStudents(1, 'II Year', 'A', { id: 'fixed', roll_number: 'F1' }))[0];
+    const students = [...makeStudents(1, 'II Year', 'A'), ...makeStudents(1, 'II Year', 'B')];
+    const placed = placeWithAdjacency(asCandidates(students), rest, { groupBy: 'year-section', diagonal: false }, [
+      { seat: fixedSeat, student: fixedStudent }
+    ]);
+
+    // The seat beside the fixed section A student goes to section B
+    expect(placed[0].student.section).toBe('B');
+  });
+
+  it('prefers a bench-mate sitting a different paper', () => {
+    const students = [
+      ...asCandidates(makeStudents(3, 'II Year', 'A')),
+      ...asCandidates(makeStudents(3, 'III Year', 'A'), 'exam-2')
+    ];
+    const placed = placeWithAdjacency(students, buildSeatGrid(makeClassroom('r3', 3, { benches_per_row: 1 })), {
+      groupBy: 'year', diagonal: false
+    });
+
+    for (let i = 0; i < placed.length; i += 2) {
+      expect(placed[i].student.exam_id).not.toBe(placed[i + 1].student.exam_id);
+    }
+  });
+});
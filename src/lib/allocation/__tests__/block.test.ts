@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { buildSeatGrid } from '../grid';
+import { placeInBlocks } from '../block';
+import { makeClassroom, makeStudents } from './fixtures';
+
+describe('placeInBlocks', () => {
+  const seats = buildSeatGrid(makeClassroom('r1', 6));
+
+  it('seats bench-mates from different blocks', () => {
+    const students = [...makeStudents(6, 'II Year', 'A'), ...makeStudents(6, 'II Year', 'B')];
+    const placed = placeInBlocks(students, seats);
+
+    expect(placed).toHaveLength(12);
+    for (let bench = 1; bench <= 6; bench++) {
+      const mates = placed.filter(p => p.seat.bench_number === bench).map(p => p.student.section);
+      expect(new Set(mates).size).toBe(2);
+    }
+  });
+
+  it('keeps each year/section down one seat position', () => {
+    const students = [...makeStudents(6, 'II Year', 'A'), ...makeStudents(6, 'II Year', 'B')];
+    const placed = placeInBlocks(students, seats);
+
+    for (const section of ['A', 'B']) {
+      const positions = placed.filter(p => p.student.section === section).map(p => p.seat.seat_position);
+      expect(new Set(positions).size).toBe(1);
+    }
+  });
+
+  it('draws from the longest remaining block once a stream runs dry', () => {
+    const students = [...makeStudents(9, 'II Year', 'A'), ...makeStudents(3, 'II Year', 'B')];
+    const placed = placeInBlocks(students, seats);
+
+    expect(placed).toHaveLength(12);
+    expect(new Set(placed.map(p => p.student.id)).size).toBe(12);
+  });
+
+  it('stops when every student is seated', () => {
+    expect(placeInBlocks(makeStudents(5), seats)).toHaveLength(5);
+  });
+});
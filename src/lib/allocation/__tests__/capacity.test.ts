@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { examSeats, spreadPositions, strictestProfile } from '../capacity';
+import { makeClassroom } from './fixtures';
+
+const cells = (seats: { row: number; column: number }[]) => seats.map(s => `${s.row}:${s.column}`);
+
+describe('examSeats', () => {
+  it('uses every seat without a profile', () => {
+    expect(examSeats(makeClassroom('r1', 6))).toHaveLength(12);
+  });
+
+  it('thins each bench to the seats per bench, as far apart as possible', () => {
+    const classroom = makeClassroom('r1', 6, { students_per_bench: 3, capacity: { seats_per_bench: 2, checkerboard: false } });
+    const seats = examSeats(classroom);
+
+    expect(seats).toHaveLength(12);
+    expect(new Set(seats.map(s => s.seat_position))).toEqual(new Set([1, 3]));
+  });
+
+  it('leaves every other seat empty on a checkerboard, alternating row to row', () => {
+    const classroom = makeClassroom('r1', 6, { capacity: { seats_per_bench: null, checkerboard: true } });
+
+    // Two rows of three two-seat benches: columns 0-5
+    expect(cells(examSeats(classroom))).toEqual(['0:0', '0:2', '0:4', '1:1', '1:3', '1:5']);
+  });
+
+  it('checkers the seats left after thinning', () => {
+    const classroom = makeClassroom('r1', 6, { capacity: { seats_per_bench: 1, checkerboard: true } });
+
+    // One seat per bench leaves columns 0, 2 and 4; the checkerboard alternates over those
+    expect(cells(examSeats(classroom))).toEqual(['0:0', '0:4', '1:2']);
+  });
+});
+
+describe('spreadPositions', () => {
+  it('spreads the taken seats across the bench', () => {
+    expect(spreadPositions(2, 1)).toEqual([1]);
+    expect(spreadPositions(3, 2)).toEqual([1, 3]);
+    expect(spreadPositions(3, 5)).toEqual([1, 2, 3]);
+  });
+});
+
+describe('strictestProfile', () => {
+  it('takes the tightest seats per bench and any checkerboard', () => {
+    expect(strictestProfile([
+      { seats_per_bench: null, checkerboard: false },
+      { seats_per_bench: 1, checkerboard: false },
+      { seats_per_bench: 2, checkerboard: true }
+    ])).toEqual({ seats_per_bench: 1, checkerboard: true });
+  });
+});
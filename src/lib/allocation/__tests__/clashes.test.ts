@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { clashesFor, countClashesByExam, findStudentClashes } from '../clashes';
+import { exam, makeStudents } from './fixtures';
+
+const overlapping = { ...exam, id: 'exam-2', subject: 'Networks', start_time: '11:00', end_time: '14:00' };
+const afternoon = { ...exam, id: 'exam-3', subject: 'Compilers', start_time: '12:00', end_time: '15:00' };
+const nextDay = { ...exam, id: 'exam-4', subject: 'Databases', exam_date: '2025-11-11' };
+
+describe('findStudentClashes', () => {
+  const shared = makeStudents(2, 'II Year', 'A');
+  const others = makeStudents(2, 'II Year', 'B');
+
+  it('finds students due in two overlapping exams, once per pair', () => {
+    const clashes = findStudentClashes([
+      { exam, students: [...shared, ...others] },
+      { exam: overlapping, students: shared }
+    ]);
+
+    expect(clashes).toEqual(shared.map(student => ({ student, first: exam, second: overlapping })));
+  });
+
+  it('ignores exams that only touch or fall on another day', () => {
+    const clashes = findStudentClashes([
+      { exam, students: shared },
+      { exam: afternoon, students: shared },
+      { exam: nextDay, students: shared }
+    ]);
+
+    expect(clashes).toEqual([]);
+  });
+
+  it('counts clashing students per exam and picks out one exam\'s clashes', () => {
+    const clashes = findStudentClashes([
+      { exam, students: shared },
+      { exam: overlapping, students: [...shared, ...others] },
+      { exam: afternoon, students: others }
+    ]);
+
+    expect(countClashesByExam(clashes)).toEqual(new Map([[exam.id, 2], [overlapping.id, 4], [afternoon.id, 2]]));
+    expect(clashesFor(afternoon.id, clashes).map(c => c.student.id)).toEqual(others.map(s => s.id));
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { diffPlans, hasChanges, isSameSeat } from '../diff';
+import type { SeatAssignment } from '../types';
+import { exam } from './fixtures';
+
+const at = (student_id: string, classroom_id: string, bench_number: number, seat_position: number, exam_id = exam.id): SeatAssignment =>
+  ({ exam_id, student_id, classroom_id, bench_number, seat_position });
+
+describe('diffPlans', () => {
+  const current = [at('a', 'r1', 1, 1), at('b', 'r1', 1, 2), at('c', 'r1', 2, 1)];
+
+  it('sorts students into added, removed, moved and unchanged', () => {
+    const next = [at('a', 'r1', 1, 1), at('b', 'r2', 1, 1), at('d', 'r1', 2, 1)];
+    const diff = diffPlans(current, next);
+
+    expect(diff.added).toEqual([at('d', 'r1', 2, 1)]);
+    expect(diff.removed).toEqual([at('c', 'r1', 2, 1)]);
+    expect(diff.moved).toEqual([{ before: at('b', 'r1', 1, 2), after: at('b', 'r2', 1, 1) }]);
+    expect(diff.unchanged).toBe(1);
+  });
+
+  it('compares seats, not the order the plans list them in', () => {
+    const diff = diffPlans(current, [...current].reverse());
+
+    expect(diff.unchanged).toBe(current.length);
+    expect(hasChanges(diff)).toBe(false);
+  });
+
+  it('tells apart the same student in two exams', () => {
+    const diff = diffPlans(current, [...current, at('a', 'r2', 1, 1, 'exam-2')]);
+
+    expect(diff.added).toEqual([at('a', 'r2', 1, 1, 'exam-2')]);
+    expect(diff.moved).toEqual([]);
+    expect(hasChanges(diff)).toBe(true);
+  });
+
+  it('treats every seat of a first plan as added', () => {
+    const diff = diffPlans([], current);
+
+    expect(diff.added).toEqual(current);
+    expect(diff.unchanged).toBe(0);
+  });
+});
+
+describe('isSameSeat', () => {
+  it('ignores who sits there', () => {
+    expect(isSameSeat(at('a', 'r1', 1, 1), at('b', 'r1', 1, 1))).toBe(true);
+    expect(isSameSeat(at('a', 'r1', 1, 1), at('a', 'r1', 1, 2))).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { firstFreeSeat, moveStudent, validatePlan } from '../editing';
+import type { SeatAssignment } from '../types';
+import { exam, makeClassroom } from './fixtures';
+
+const classrooms = [makeClassroom('r1', 2), makeClassroom('r2', 2)];
+
+const at = (student_id: string, classroom_id: string, bench_number: number, seat_position: number, is_locked = false): SeatAssignment =>
+  ({ exam_id: exam.id, student_id, classroom_id, bench_number, seat_position, is_locked });
+
+describe('moveStudent', () => {
+  const plan = [at('a', 'r1', 1, 1), at('b', 'r1', 1, 2), at('c', 'r2', 1, 1, true)];
+
+  it('moves a student to an empty seat in another room', () => {
+    const moved = moveStudent(plan, plan[0], { classroom_id: 'r2', bench_number: 2, seat_position: 1 });
+    expect(moved[0]).toEqual(at('a', 'r2', 2, 1));
+    expect(validatePlan(moved, classrooms)).toEqual([]);
+  });
+
+  it('swaps with the student in the seat', () => {
+    const moved = moveStudent(plan, plan[0], plan[1]);
+    expect(moved.slice(0, 2)).toEqual([at('a', 'r1', 1, 2), at('b', 'r1', 1, 1)]);
+  });
+
+  it('never moves a locked seat', () => {
+    expect(moveStudent(plan, plan[0], plan[2])).toBe(plan);
+    expect(moveStudent(plan, plan[2], plan[0])).toBe(plan);
+  });
+});
+
+describe('firstFreeSeat', () => {
+  it('returns the front-most seat nobody holds', () => {
+    const plan = [at('a', 'r2', 1, 1)];
+    const occupied = [{ classroom_id: 'r2', bench_number: 1, seat_position: 2 }];
+
+    expect(firstFreeSeat(plan, classrooms[1], occupied)).toEqual({ classroom_id: 'r2', bench_number: 2, seat_position: 1 });
+  });
+
+  it('returns null when the room is full', () => {
+    const plan = [at('a', 'r1', 1, 1), at('b', 'r1', 1, 2), at('c', 'r1', 2, 1), at('d', 'r1', 2, 2)];
+    expect(firstFreeSeat(plan, classrooms[0])).toBeNull();
+  });
+});
+
+describe('validatePlan', () => {
+  const kinds = (plan: SeatAssignment[], occupied = []) => validatePlan(plan, classrooms, occupied).map(i => i.kind);
+
+  it('accepts a plan the database would take', () => {
+    expect(kinds([at('a', 'r1', 1, 1), at('b', 'r1', 1, 2), at('c', 'r2', 2, 2)])).toEqual([]);
+  });
+
+  it('reports a seat given to two students', () => {
+    expect(kinds([at('a', 'r1', 1, 1), at('b', 'r1', 1, 1)])).toEqual(['seat-double-booked']);
+  });
+
+  it('reports a student holding two seats', () => {
+    const issues = validatePlan([at('a', 'r1', 1, 1), at('a', 'r2', 1, 1)], classrooms);
+
+    expect(issues).toEqual([{ kind: 'student-seated-twice', seat: at('a', 'r2', 1, 1), student_id: 'a' }]);
+  });
+
+  it('reports seats outside the room, on a disabled bench or in an unknown room', () => {
+    const rooms = [makeClassroom('r1', 2, { layout: { disabled: [2] } })];
+    const plan = [at('a', 'r1', 3, 1), at('b', 'r1', 1, 3), at('c', 'r1', 2, 1), at('d', 'gone', 1, 1)];
+
+    expect(validatePlan(plan, rooms).map(i => [i.student_id, i.kind])).toEqual([
+      ['a', 'seat-out-of-range'],
+      ['b', 'seat-out-of-range'],
+      ['c', 'seat-out-of-range'],
+      ['d', 'seat-out-of-range']
+    ]);
+  });
+
+  it('reports seats another exam of the slot holds', () => {
+    const occupied = [{ classroom_id: 'r1', bench_number: 1, seat_position: 2 }];
+
+    expect(kinds([at('a', 'r1', 1, 1), at('b', 'r1', 1, 2)], occupied)).toEqual(['seat-held-by-other-exam']);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { applySeatingRule, summarizeExclusions } from '../eligibility';
+import { makeStudents, rule } from './fixtures';
+
+describe('applySeatingRule', () => {
+  const second = makeStudents(2, 'II Year', 'A');
+  const third = makeStudents(2, 'III Year', 'B');
+
+  it('places no restriction with empty lists', () => {
+    const { eligible, excluded } = applySeatingRule([...second, ...third], rule('alternate'));
+
+    expect(eligible).toEqual([...second, ...third]);
+    expect(excluded).toEqual([]);
+  });
+
+  it('excludes years and sections the combination leaves out, with the reason', () => {
+    const { eligible, excluded } = applySeatingRule(
+      [...second, ...third, ...makeStudents(1, 'II Year', 'C')],
+      rule('alternate', { allowed_years: ['II Year'], allowed_sections: ['A'] })
+    );
+
+    expect(eligible).toEqual(second);
+    expect(excluded.map(e => [e.student.id, e.reason])).toEqual([
+      ['IIIB001', 'year-not-allowed'],
+      ['IIIB002', 'year-not-allowed'],
+      ['IIC001', 'section-not-allowed']
+    ]);
+    expect(summarizeExclusions(excluded)).toEqual({ 'year-not-allowed': 2, 'section-not-allowed': 1 });
+  });
+
+  it('always allows arrear and supplementary candidates', () => {
+    const arrear = makeStudents(1, 'IV Year', 'D', { candidate_kind: 'arrear' });
+    const supplementary = makeStudents(1, 'III Year', 'B', { candidate_kind: 'supplementary' });
+    const { eligible, excluded } = applySeatingRule(
+      [...second, ...arrear, ...supplementary],
+      rule('alternate', { allowed_years: ['II Year'], allowed_sections: ['A'] })
+    );
+
+    expect(eligible).toEqual([...second, ...arrear, ...supplementary]);
+    expect(excluded).toEqual([]);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { diffPlans } from '../diff';
+import { allocateSeats, allocateSession, freeSeats } from '../engine';
+import { seatKey } from '../grid';
+import type { SeatRef } from '../grid';
+import type { SeatAssignment } from '../types';
+import { exam, makeClassroom, makeStudents, rule } from './fixtures';
+
+const seatsOf = (seats: SeatRef[]) => seats.map(seatKey);
+
+describe('allocateSeats', () => {
+  const classrooms = [makeClassroom('r1', 6), makeClassroom('r2', 6)];
+  const students = [...makeStudents(8, 'II Year', 'A'), ...makeStudents(8, 'II Year', 'B')];
+
+  it.each(['alternate', 'block', 'random'])('seats every student once with the %s strategy', (strategy) => {
+    const { assignments, diagnostics } = allocateSeats({ exam, students, classrooms, rule: rule(strategy), seed: 1 });
+
+    expect(diagnostics.strategy).toBe(strategy);
+    expect(diagnostics.allocatedCount).toBe(16);
+    expect(diagnostics.shortfall).toBe(0);
+    expect(diagnostics.unplaced).toEqual([]);
+    expect(new Set(assignments.map(a => a.student_id)).size).toBe(16);
+    expect(new Set(seatsOf(assignments)).size).toBe(16);
+  });
+
+  it('puts students of different sections side by side with the alternate strategy', () => {
+    const { assignments } = allocateSeats({ exam, students, classrooms, rule: rule('alternate'), seed: 1 });
+    const sectionOf = new Map(students.map(s => [s.id, s.section]));
+    const benches = new Map<string, string[]>();
+
+    for (const a of assignments) {
+      const key = `${a.classroom_id}:${a.bench_number}`;
+      benches.set(key, [...(benches.get(key) ?? []), sectionOf.get(a.student_id)]);
+    }
+
+    for (const sections of benches.values()) {
+      expect(new Set(sections).size).toBe(sections.length);
+    }
+  });
+
+  it('gives the same plan for the same seed', () => {
+    const first = allocateSeats({ exam, students, classrooms, rule: rule('random'), seed: 12345 });
+    const second = allocateSeats({ exam, students, classrooms, rule: rule('random'), seed: 12345 });
+    expect(second.assignments).toEqual(first.assignments);
+    expect(second.diagnostics.seed).toBe(12345);
+  });
+
+  it('reports the shortfall and the unplaced students when the rooms are too small', () => {
+    const { assignments, diagnostics } = allocateSeats({
+      exam,
+      students,
+      classrooms: [makeClassroom('r1', 6)],
+      rule: rule('alternate'),
+      seed: 1
+    });
+
+    expect(diagnostics.totalCapacity).toBe(12);
+    expect(diagnostics.shortfall).toBe(4);
+    expect(assignments).toHaveLength(12);
+    expect(diagnostics.unplaced).toHaveLength(4);
+
+    const seated = new Set(assignments.map(a => a.student_id));
+    expect(diagnostics.unplaced.every(s => !seated.has(s.id))).toBe(true);
+  });
+
+  it('excludes students the combination does not allow', () => {
+    const { assignments, diagnostics } = allocateSeats({
+      exam,
+      students,
+      classrooms,
+      rule: rule('alternate', { allowed_sections: ['A'] }),
+      seed: 1
+    });
+
+    expect(assignments).toHaveLength(8);
+    expect(diagnostics.excluded).toHaveLength(8);
+    expect(diagnostics.excluded.every(e => e.reason === 'section-not-allowed')).toBe(true);
+  });
+
+  it('skips occupied seats and keeps fixed assignments', () => {
+    const occupied = freeSeats([makeClassroom('r1', 6)]).slice(0, 4);
+    const fixed: SeatAssignment[] = [{
+      exam_id: exam.id, classroom_id: 'r2', student_id: students[0].id, bench_number: 6, seat_position: 2, is_locked: true
+    }];
+
+    const { assignments } = allocateSeats({
+      exam, students, classrooms, rule: rule('alternate'), occupied, fixed, seed: 1
+    });
+
+    expect(assignments).toContainEqual(fixed[0]);
+    expect(assignments.filter(a => a.student_id === students[0].id)).toHaveLength(1);
+
+    const taken = new Set(seatsOf(occupied));
+    expect(seatsOf(assignments).some(key => taken.has(key))).toBe(false);
+  });
+});
+
+describe('allocateSession', () => {
+  it('shares the rooms between exams without double-booking a seat', () => {
+    const other = { ...exam, id: 'exam-2', subject: 'Networks', years: ['III Year'] };
+    const { assignments, diagnostics } = allocateSession({
+      exams: [
+        { exam, students: makeStudents(5, 'II Year', 'A') },
+        { exam: other, students: makeStudents(5, 'III Year', 'A') }
+      ],
+      classrooms: [makeClassroom('r1', 6)],
+      rule: rule('alternate'),
+      seed: 1
+    });
+
+    expect(new Set(seatsOf(assignments)).size).toBe(10);
+    expect(diagnostics.perExam).toEqual({
+      [exam.id]: { total: 5, allocated: 5 },
+      [other.id]: { total: 5, allocated: 5 }
+    });
+  });
+});
+
+// Seating only unplaced students: every current seat is kept as it is
+describe('incremental allocation', () => {
+  const classrooms = [makeClassroom('r1', 6), makeClassroom('r2', 6)];
+  const registered = makeStudents(10, 'II Year', 'A');
+  const late = makeStudents(3, 'II Year', 'B');
+  const current = allocateSeats({ exam, students: registered, classrooms, rule: rule('alternate'), seed: 1 }).assignments;
+
+  it('seats late students around the published seats without moving anyone', () => {
+    const plan = allocateSeats({ exam, students: [...registered, ...late], classrooms, rule: rule('alternate'), fixed: current, seed: 2 });
+    const diff = diffPlans(current, plan.assignments);
+
+    expect(diff.added.map(a => a.student_id).sort()).toEqual(late.map(s => s.id));
+    expect(diff.moved).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.unchanged).toBe(registered.length);
+    expect(new Set(seatsOf(plan.assignments)).size).toBe(registered.length + late.length);
+  });
+
+  it('adds nothing when everyone already has a seat', () => {
+    const plan = allocateSeats({ exam, students: registered, classrooms, rule: rule('alternate'), fixed: current, seed: 2 });
+
+    expect(diffPlans(current, plan.assignments).added).toEqual([]);
+  });
+
+  it('reports late students who no longer fit as unplaced', () => {
+    const full = [makeClassroom('r1', 5)];
+    const seated = allocateSeats({ exam, students: registered, classrooms: full, rule: rule('alternate'), seed: 1 }).assignments;
+    const plan = allocateSeats({ exam, students: [...registered, ...late], classrooms: full, rule: rule('alternate'), fixed: seated, seed: 2 });
+
+    expect(plan.assignments).toEqual(seated);
+    expect(plan.diagnostics.unplaced.map(s => s.id)).toEqual(expect.arrayContaining(late.map(s => s.id)));
+  });
+});
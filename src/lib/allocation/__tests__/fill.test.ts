@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { freeSeats } from '../engine';
+import { applyFillPolicy } from '../fill';
+import { makeClassroom } from './fixtures';
+
+// Rooms of 4, 12 and 8 seats
+const classrooms = [
+  makeClassroom('small', 2, { building: 'Main', floor: 1 }),
+  makeClassroom('large', 6, { building: 'Annex', floor: 0 }),
+  makeClassroom('medium', 4, { building: 'Main', floor: 0 })
+];
+const seats = freeSeats(classrooms);
+const rooms = (list: { classroom_id: string }[]) => [...new Set(list.map(s => s.classroom_id))];
+const perRoom = (list: { classroom_id: string }[]) =>
+  Object.fromEntries(rooms(list).map(id => [id, list.filter(s => s.classroom_id === id).length]));
+
+describe('applyFillPolicy', () => {
+  it('keeps the room order for in-order', () => {
+    expect(applyFillPolicy(classrooms, seats, 10)).toEqual(seats);
+  });
+
+  it('uses the fewest rooms that cover the students, in room order', () => {
+    expect(rooms(applyFillPolicy(classrooms, seats, 10, { policy: 'fewest-rooms' }))).toEqual(['large']);
+    expect(rooms(applyFillPolicy(classrooms, seats, 14, { policy: 'fewest-rooms' }))).toEqual(['small', 'large']);
+  });
+
+  it('keeps rooms that already hold students under fewest-rooms', () => {
+    const filled = applyFillPolicy(classrooms, seats, 10, { policy: 'fewest-rooms' }, new Set(['medium']));
+    expect(rooms(filled)).toEqual(['small', 'medium']);
+  });
+
+  it('puts the preferred building and floor first', () => {
+    const filled = applyFillPolicy(classrooms, seats, 10, { policy: 'preferred', building: 'Main', floor: 0 });
+    expect(rooms(filled)).toEqual(['medium', 'small', 'large']);
+  });
+
+  it('shares the students evenly across rooms when balanced', () => {
+    const filled = applyFillPolicy(classrooms, seats, 15, { policy: 'balanced' });
+    expect(perRoom(filled)).toEqual({ small: 4, large: 6, medium: 5 });
+  });
+});
@@ -0,0 +1,42 @@
+import type { AllocationClassroom, AllocationExam, AllocationStudent, Candidate, SeatingRule } from '../types';
+
+export const exam: AllocationExam = {
+  id: 'exam-1',
+  subject: 'Data Structures',
+  exam_date: '2025-11-10',
+  start_time: '09:00',
+  end_time: '12:00',
+  years: ['II Year']
+};
+
+export const rule = (mix_strategy: string, overrides: Partial<SeatingRule> = {}): SeatingRule => ({
+  allowed_years: [],
+  allowed_sections: [],
+  mix_strategy,
+  ...overrides
+});
+
+// `count` students of one year/section, with roll numbers that sort in order
+export function makeStudents(count: number, year = 'II Year', section = 'A', overrides: Partial<AllocationStudent> = {}) {
+  return Array.from({ length: count }, (_, i): AllocationStudent => {
+    const roll = `${year.split(' ')[0]}${section}${String(i + 1).padStart(3, '0')}`;
+    return { id: roll, roll_number: roll, name: `Student ${roll}`, year, section, department: 'CSE', ...overrides };
+  });
+}
+
+export function asCandidates(students: AllocationStudent[], examId = exam.id): Candidate[] {
+  return students.map(student => ({ ...student, exam_id: examId }));
+}
+
+export function makeClassroom(id: string, totalBenches: number, overrides: Partial<AllocationClassroom> = {}): AllocationClassroom {
+  return {
+    id,
+    room_number: id.toUpperCase(),
+    building: null,
+    floor: 0,
+    total_benches: totalBenches,
+    benches_per_row: Math.min(3, totalBenches),
+    students_per_bench: 2,
+    ...overrides
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { buildSeatingHistory, countRepeats, avoidRepeats, pairKey } from '../history';
+import { buildSeatGrid } from '../grid';
+import type { SeatAssignment } from '../types';
+import { asCandidates, exam, makeClassroom, makeStudents } from './fixtures';
+
+const classrooms = [makeClassroom('r1', 2, { benches_per_row: 1 }), makeClassroom('r2', 2, { benches_per_row: 1 })];
+// Four students of one exam and section, so any two of them may swap
+const students = asCandidates(makeStudents(4));
+const [a, b, c, d] = students;
+
+const seat = (student: { id: string }, classroom_id: string, bench_number: number, seat_position: number): SeatAssignment =>
+  ({ exam_id: exam.id, classroom_id, student_id: student.id, bench_number, seat_position });
+
+// An earlier paper: a beside b and c beside d, all in r1
+const earlier = [seat(a, 'r1', 1, 1), seat(b, 'r1', 1, 2), seat(c, 'r1', 2, 1), seat(d, 'r1', 2, 2)];
+const ids = new Set(students.map(s => s.id));
+
+describe('buildSeatingHistory', () => {
+  it('records side-by-side pairs and rooms of the given students', () => {
+    const history = buildSeatingHistory([earlier], classrooms, ids);
+
+    expect(history.pairs).toEqual([pairKey(a.id, b.id), pairKey(c.id, d.id)].sort());
+    expect(history.rooms[a.id]).toEqual(['r1']);
+  });
+
+  it('leaves out students not in the set', () => {
+    const history = buildSeatingHistory([earlier], classrooms, new Set([a.id, c.id]));
+
+    expect(history.pairs).toEqual([]);
+    expect(Object.keys(history.rooms).sort()).toEqual([a.id, c.id].sort());
+  });
+});
+
+describe('avoidRepeats', () => {
+  const history = buildSeatingHistory([earlier], classrooms, ids);
+  const grid = buildSeatGrid(classrooms[0]);
+
+  it('swaps students away from an earlier bench-mate', () => {
+    const placed = [a, b, c, d].map((student, i) => ({ seat: grid[i], student }));
+    const result = avoidRepeats(placed, [], history);
+    const assignments = result.map(p => seat(p.student, p.seat.classroom_id, p.seat.bench_number, p.seat.seat_position));
+
+    expect(countRepeats(assignments, classrooms, history).pairs).toBe(0);
+    expect(result.map(p => p.seat)).toEqual(grid);
+  });
+
+  it('moves students out of a room they already sat in when another is free', () => {
+    const inR2 = buildSeatGrid(classrooms[1]);
+    const newcomer = asCandidates(makeStudents(1, 'II Year', 'A', { id: 'new', roll_number: 'N1' }))[0];
+    const placed = [{ seat: grid[0], student: a }, { seat: inR2[0], student: newcomer }];
+    const result = avoidRepeats(placed, [], history);
+
+    expect(result.find(p => p.student.id === a.id).seat.classroom_id).toBe('r2');
+  });
+
+  it('never swaps students of different groups', () => {
+    const other = asCandidates(makeStudents(2, 'II Year', 'B'));
+    const placed = [
+      { seat: grid[0], student: a },
+      { seat: grid[1], student: b },
+      { seat: grid[2], student: other[0] },
+      { seat: grid[3], student: other[1] }
+    ];
+
+    expect(avoidRepeats(placed, [], history)).toEqual(placed);
+  });
+
+  it('leaves a plan without repeats as it is', () => {
+    const placed = [a, c, b, d].map((student, i) => ({ seat: grid[i], student }));
+    expect(avoidRepeats(placed, [], history)).toEqual(placed);
+  });
+});
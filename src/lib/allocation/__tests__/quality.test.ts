@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { allocateSeats } from '../engine';
+import { buildQualityReport } from '../quality';
+import { exam, makeClassroom, makeStudents, rule } from './fixtures';
+
+// One row of three benches, so neighbours only sit side by side
+const classrooms = [makeClassroom('r1', 3), makeClassroom('r2', 3)];
+const occupied = [{ classroom_id: 'r1', bench_number: 1, seat_position: 1 }];
+
+describe('buildQualityReport', () => {
+  it('reports how full the rooms used are, after seats other exams hold', () => {
+    const students = makeStudents(4);
+    const plan = allocateSeats({ exam, students, classrooms, rule: rule('alternate'), occupied, seed: 1 });
+    const report = buildQualityReport(plan, { classrooms, students, occupied });
+
+    expect(report.rooms).toHaveLength(1);
+    expect(report.rooms[0]).toMatchObject({
+      classroom_id: 'r1',
+      available: 5,
+      seated: 4,
+      empty: 1,
+      fillPercent: 80,
+      years: { 'II Year': 4 },
+      sections: { 'II Year-A': 4 },
+      departments: { CSE: 4 }
+    });
+    expect(report).toMatchObject({ available: 5, emptySeats: 1, fillPercent: 80, allocatedCount: 4 });
+  });
+
+  it('counts same-group neighbours, whatever the adjacency rule', () => {
+    const students = makeStudents(4);
+    const plan = allocateSeats({ exam, students, classrooms, rule: rule('alternate'), occupied, seed: 1 });
+    const report = buildQualityReport(plan, { classrooms, students, occupied });
+
+    expect(report.groupBy).toBe('year-section');
+    expect(report.sameGroupPairs).toEqual({ side: 3, front: 0, diagonal: 0 });
+    expect(report.rooms[0].sameGroupPairs).toBe(3);
+  });
+
+  it('lists the students left out, with the reason', () => {
+    const students = [...makeStudents(13), ...makeStudents(2, 'III Year')];
+    const plan = allocateSeats({
+      exam, students, classrooms, rule: rule('alternate', { allowed_years: ['II Year'] }), seed: 1
+    });
+    const report = buildQualityReport(plan, { classrooms, students, occupied: [] });
+
+    expect(report.excluded.map(e => [e.student.id, e.reason])).toEqual([
+      ['IIIA001', 'year-not-allowed'],
+      ['IIIA002', 'year-not-allowed']
+    ]);
+    expect(report.unplaced).toHaveLength(1);
+    expect(report.unplaced[0].reason).toBe('1 more seats needed than are free in the selected rooms');
+    expect(report.fillPercent).toBe(100);
+  });
+});
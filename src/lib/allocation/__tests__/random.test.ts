@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom } from '../random';
+
+const draw = (random: () => number, count: number) => Array.from({ length: count }, () => random());
+
+describe('createRandom', () => {
+  it('gives the same sequence for the same seed', () => {
+    expect(draw(createRandom(42), 20)).toEqual(draw(createRandom(42), 20));
+  });
+
+  it('gives a different sequence for a different seed', () => {
+    expect(draw(createRandom(42), 20)).not.toEqual(draw(createRandom(43), 20));
+  });
+
+  it('returns floats in [0, 1)', () => {
+    for (const value of draw(createRandom(7), 1000)) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it('treats seeds as unsigned 32-bit integers', () => {
+    expect(draw(createRandom(2 ** 32 + 5), 5)).toEqual(draw(createRandom(5), 5));
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom } from '../random';
+import { orderStudents } from '../strategies';
+import { makeStudents } from './fixtures';
+
+const students = [...makeStudents(3, 'II Year', 'B'), ...makeStudents(3, 'II Year', 'A')];
+const rolls = (list: { roll_number: string }[]) => list.map(s => s.roll_number);
+
+describe('orderStudents', () => {
+  it('alternates year/section groups for the alternate strategy', () => {
+    const ordered = orderStudents(students, 'alternate', createRandom(1));
+    expect(ordered.map(s => s.section)).toEqual(['A', 'B', 'A', 'B', 'A', 'B']);
+    expect(rolls(ordered)).toEqual(['IIA001', 'IIB001', 'IIA002', 'IIB002', 'IIA003', 'IIB003']);
+  });
+
+  it('keeps each year/section together for the block strategy', () => {
+    const ordered = orderStudents(students, 'block', createRandom(1));
+    expect(rolls(ordered)).toEqual(['IIA001', 'IIA002', 'IIA003', 'IIB001', 'IIB002', 'IIB003']);
+  });
+
+  it('shuffles the same way for the same seed', () => {
+    const first = orderStudents(students, 'random', createRandom(99));
+    const second = orderStudents([...students].reverse(), 'random', createRandom(99));
+    expect(rolls(first)).toEqual(rolls(second));
+    expect([...rolls(first)].sort()).toEqual([...rolls(students)].sort());
+  });
+
+  it('does not change the list it is given', () => {
+    const before = rolls(students);
+    orderStudents(students, 'random', createRandom(3));
+    expect(rolls(students)).toEqual(before);
+  });
+});
@@ -0,0 +1,129 @@
+import { buildSeatGrid, seatKey } from './grid';
+import type { Seat, SeatRef } from './grid';
+import type { AllocationClassroom, AllocationStudent } from './types';
+
+// Mirrors the needs recorded in a row of `student_accommodations`
+export interface Accommodation {
+  ground_floor: boolean;
+  front_bench: boolean;
+  separate_room: boolean;
+  // A scribe reads and writes for the student, so they get a room of their own too
+  scribe: boolean;
+  extra_time_minutes: number;
+}
+
+export const GROUND_FLOOR = 0;
+
+// Short labels for badges, sheets and charts
+export function describeAccommodation(accommodation: Accommodation) {
+  return [
+    accommodation.separate_room && !accommodation.scribe && 'Separate room',
+    accommodation.scribe && 'Scribe',
+    accommodation.ground_floor && 'Ground floor',
+    accommodation.front_bench && 'Front bench',
+    accommodation.extra_time_minutes > 0 && `+${accommodation.extra_time_minutes} min`
+  ].filter((label): label is string => Boolean(label));
+}
+
+export function needsOwnRoom(student: AllocationStudent) {
+  return Boolean(student.accommodation?.separate_room || student.accommodation?.scribe);
+}
+
+export function hasExtraTime(student: AllocationStudent) {
+  return (student.accommodation?.extra_time_minutes ?? 0) > 0;
+}
+
+function needsParticularSeat(student: AllocationStudent) {
+  const accommodation = student.accommodation;
+  return Boolean(accommodation && (needsOwnRoom(student) || accommodation.ground_floor || accommodation.front_bench));
+}
+
+// Most constrained first: own room, then ground floor, then front bench
+const constraintWeight = (student: AllocationStudent) =>
+  (needsOwnRoom(student) ? 4 : 0) + (student.accommodation?.ground_floor ? 2 : 0) + (student.accommodation?.front_bench ? 1 : 0);
+
+// The exam's end time pushed back by the student's extra time
+export function adjustedEndTime(endTime: string, accommodation?: Accommodation | null) {
+  const extra = accommodation?.extra_time_minutes ?? 0;
+  if (extra <= 0) return endTime;
+
+  const [hours, minutes] = endTime.split(':').map(Number);
+  const end = hours * 60 + minutes + extra;
+  return `${String(Math.floor(end / 60) % 24).padStart(2, '0')}:${String(end % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Seats students who need a particular seat before everyone else. Those who
+ * need a room of their own get the smallest room nobody else is using (on the
+ * ground floor when they need that too); the rest take the first free seat
+ * that suits them. Students with extra time keep off `lateSeats`, which a
+ * later exam takes before they finish, and out of rooms holding any of them
+ * when sitting alone. `seats` is what is left for everyone else, without the
+ * rooms given away. Students no seat suits come back in `unmet`, and at the
+ * end of `rest` so they are still seated somewhere.
+ */
+export function seatAccommodations<T extends AllocationStudent>(
+  students: T[],
+  classrooms: AllocationClassroom[],
+  free: Seat[],
+  busyRooms: Set<string>,
+  lateSeats: SeatRef[] = []
+) {
+  const frontRow = new Map(classrooms.map(c => [c.id, Math.min(...buildSeatGrid(c).map(seat => seat.row))]));
+  const roomById = new Map(classrooms.map(c => [c.id, c]));
+  const placed: { seat: Seat; student: T }[] = [];
+  const unmet: T[] = [];
+  const ownRooms = new Set<string>();
+  const late = new Set(lateSeats.map(seatKey));
+  const lateRooms = new Set(lateSeats.map(seat => seat.classroom_id));
+  let seats = free;
+
+  const particular = (student: T) => needsParticularSeat(student) || (late.size > 0 && hasExtraTime(student));
+  const suits = (seat: Seat, student: T) =>
+    (!student.accommodation?.ground_floor || roomById.get(seat.classroom_id)?.floor === GROUND_FLOOR)
+    && (!student.accommodation?.front_bench || seat.row === frontRow.get(seat.classroom_id))
+    && (!hasExtraTime(student) || !late.has(seatKey(seat)));
+
+  const constrained = students.filter(particular).sort((a, b) => constraintWeight(b) - constraintWeight(a));
+
+  for (const student of constrained) {
+    if (needsOwnRoom(student)) {
+      const room = classrooms
+        .filter(c => !busyRooms.has(c.id) && !ownRooms.has(c.id) && !placed.some(p => p.seat.classroom_id === c.id))
+        .filter(c => !student.accommodation?.ground_floor || c.floor === GROUND_FLOOR)
+        .filter(c => !hasExtraTime(student) || !lateRooms.has(c.id))
+        .map(c => ({ id: c.id, seats: seats.filter(seat => seat.classroom_id === c.id) }))
+        .filter(r => r.seats.length > 0)
+        .sort((a, b) => a.seats.length - b.seats.length)[0];
+
+      if (!room) {
+        unmet.push(student);
+        continue;
+      }
+
+      placed.push({ student, seat: room.seats.find(seat => suits(seat, student)) ?? room.seats[0] });
+      ownRooms.add(room.id);
+      seats = seats.filter(seat => seat.classroom_id !== room.id);
+      continue;
+    }
+
+    const seat = seats.find(s => suits(s, student));
+    if (!seat) {
+      unmet.push(student);
+      continue;
+    }
+
+    placed.push({ student, seat });
+    seats = seats.filter(s => s !== seat);
+  }
+
+  const placedStudents = new Set(placed.map(p => p.student));
+
+  return {
+    placed,
+    rest: [...students.filter(s => !particular(s)), ...unmet].filter(s => !placedStudents.has(s)),
+    seats,
+    unmet,
+    ownRooms
+  };
+}
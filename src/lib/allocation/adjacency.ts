@@ -0,0 +1,170 @@
+import { cellKey, locateSeat, neighbourCells } from './grid';
+import type { NeighbourDirection, Seat } from './grid';
+import type { AllocationClassroom, AllocationStudent, Candidate, SeatAssignment } from './types';
+
+export type AdjacencyGroupBy = 'year' | 'year-section';
+
+export interface AdjacencyOptions {
+  // 'year' keeps same-year students apart; 'year-section' only same year *and* section
+  groupBy: AdjacencyGroupBy;
+  diagonal: boolean;
+}
+
+export interface AdjacencyViolation {
+  classroom_id: string;
+  bench_number: number;
+  seat_position: number;
+  student_id: string;
+  neighbour_id: string;
+  direction: NeighbourDirection;
+}
+
+// Side-by-side is the worst case for copying, diagonal the mildest
+export const DIRECTION_PENALTY: Record<NeighbourDirection, number> = {
+  side: 4,
+  front: 2,
+  diagonal: 1
+};
+
+// A rule violation always outweighs any amount of soft preference
+const VIOLATION_WEIGHT = 100;
+
+export function adjacencyGroupKey(student: AllocationStudent, groupBy: AdjacencyGroupBy) {
+  return groupBy === 'year' ? student.year : `${student.year}-${student.section}`;
+}
+
+export function isDirectionChecked(direction: NeighbourDirection, options: AdjacencyOptions) {
+  return direction !== 'diagonal' || options.diagonal;
+}
+
+/**
+ * Two seated candidates clash when they sit the same exam and share a group.
+ * Candidates of different exams never clash: their papers differ.
+ */
+export function isAdjacencyConflict(a: Candidate, b: Candidate, options: AdjacencyOptions) {
+  return a.exam_id === b.exam_id
+    && adjacencyGroupKey(a, options.groupBy) === adjacencyGroupKey(b, options.groupBy);
+}
+
+/**
+ * Lists every pair of clashing neighbours in a plan. Each pair is reported
+ * once, against the seat that comes later in fill order.
+ */
+export function findAdjacencyViolations(
+  assignments: SeatAssignment[],
+  students: AllocationStudent[],
+  classrooms: AllocationClassroom[],
+  options: AdjacencyOptions
+): AdjacencyViolation[] {
+  const studentById = new Map(students.map(s => [s.id, s]));
+  const classroomById = new Map(classrooms.map(c => [c.id, c]));
+  const occupied = new Map<string, { seat: Seat; candidate: Candidate }>();
+
+  for (const assignment of assignments) {
+    const classroom = classroomById.get(assignment.classroom_id);
+    const student = studentById.get(assignment.student_id);
+    if (!classroom || !student) continue;
+
+    const seat = locateSeat(classroom, assignment.bench_number, assignment.seat_position);
+    occupied.set(cellKey(seat.classroom_id, seat.row, seat.column), {
+      seat,
+      candidate: { ...student, exam_id: assignment.exam_id }
+    });
+  }
+
+  const violations: AdjacencyViolation[] = [];
+
+  for (const { seat, candidate } of occupied.values()) {
+    for (const cell of neighbourCells(seat)) {
+      const isEarlier = cell.row < seat.row || (cell.row === seat.row && cell.column < seat.column);
+      if (!isEarlier || !isDirectionChecked(cell.direction, options)) continue;
+
+      const neighbour = occupied.get(cellKey(seat.classroom_id, cell.row, cell.column));
+      if (!neighbour || !isAdjacencyConflict(candidate, neighbour.candidate, options)) continue;
+
+      violations.push({
+        classroom_id: seat.classroom_id,
+        bench_number: seat.bench_number,
+        seat_position: seat.seat_position,
+        student_id: candidate.id,
+        neighbour_id: neighbour.candidate.id,
+        direction: cell.direction
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Greedy constraint placement. For each seat, in fill order, takes the next
+ * candidate from whichever group clashes least with the neighbours already
+ * seated, preferring the largest remaining group on a tie so no single group
+ * is left over at the end. With several exams in the room, a bench-mate
+ * sitting a different paper is preferred even when no rule forces it.
+ * `preseated` candidates do not move but count as neighbours.
+ */
+export function placeWithAdjacency<T extends Candidate>(
+  candidates: T[],
+  seats: Seat[],
+  options: AdjacencyOptions,
+  preseated: { seat: Seat; student: Candidate }[] = []
+): { seat: Seat; student: T }[] {
+  const queueKey = (candidate: T) => `${candidate.exam_id}:${adjacencyGroupKey(candidate, options.groupBy)}`;
+  const queues: T[][] = [];
+  const queueByKey = new Map<string, T[]>();
+
+  for (const candidate of candidates) {
+    const key = queueKey(candidate);
+    if (!queueByKey.has(key)) {
+      queueByKey.set(key, []);
+      queues.push(queueByKey.get(key));
+    }
+    queueByKey.get(key).push(candidate);
+  }
+
+  const mixedExams = new Set([...candidates, ...preseated.map(p => p.student)].map(c => c.exam_id)).size > 1;
+  const cursors = queues.map(() => 0);
+  const seated = new Map<string, Candidate>(
+    preseated.map(({ seat, student }) => [cellKey(seat.classroom_id, seat.row, seat.column), student])
+  );
+  const placed: { seat: Seat; student: T }[] = [];
+
+  for (const seat of seats) {
+    let best = -1;
+    let bestPenalty = Infinity;
+    let bestRemaining = -1;
+
+    queues.forEach((queue, index) => {
+      const remaining = queue.length - cursors[index];
+      if (remaining === 0) return;
+
+      const candidate = queue[cursors[index]];
+      const penalty = neighbourCells(seat).reduce((sum, cell) => {
+        const neighbour = seated.get(cellKey(seat.classroom_id, cell.row, cell.column));
+        if (!neighbour) return sum;
+        if (isDirectionChecked(cell.direction, options) && isAdjacencyConflict(candidate, neighbour, options)) {
+          return sum + DIRECTION_PENALTY[cell.direction] * VIOLATION_WEIGHT;
+        }
+        if (mixedExams && cell.direction === 'side' && neighbour.exam_id === candidate.exam_id) {
+          return sum + 1;
+        }
+        return sum;
+      }, 0);
+
+      if (penalty < bestPenalty || (penalty === bestPenalty && remaining > bestRemaining)) {
+        best = index;
+        bestPenalty = penalty;
+        bestRemaining = remaining;
+      }
+    });
+
+    if (best === -1) break;
+
+    const student = queues[best][cursors[best]++];
+    seated.set(cellKey(seat.classroom_id, seat.row, seat.column), student);
+    placed.push({ seat, student });
+  }
+
+  return placed;
+}
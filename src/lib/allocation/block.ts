@@ -0,0 +1,54 @@
+import type { Seat } from './grid';
+import { compareStudents, groupStudents } from './strategies';
+import type { AllocationStudent } from './types';
+
+/**
+ * Splits year/section groups into one stream per seat position, keeping every
+ * group whole and the streams as even as possible (largest group first onto
+ * the shortest stream).
+ */
+export function buildBlockStreams<T extends AllocationStudent>(students: T[], streamCount: number) {
+  const groups = Object.values(groupStudents([...students].sort(compareStudents)))
+    .sort((a, b) => b.length - a.length);
+  const streams: T[][][] = Array.from({ length: Math.max(1, streamCount) }, () => []);
+  const sizes = streams.map(() => 0);
+
+  for (const group of groups) {
+    const shortest = sizes.indexOf(Math.min(...sizes));
+    streams[shortest].push(group);
+    sizes[shortest] += group.length;
+  }
+
+  // Lay blocks out in year/section order, reversed on every other stream so
+  // bench-mates tend to come from different years as well as sections
+  return streams.map((stream, index) => {
+    const ordered = stream.sort((a, b) => compareStudents(a[0], b[0]));
+    return (index % 2 === 1 ? ordered.reverse() : ordered).flat();
+  });
+}
+
+/**
+ * Block seating: each year/section sits as one contiguous block down a seat
+ * position, and bench-mates come from a different block. When a stream runs
+ * dry, the seat takes the next student from the longest remaining stream.
+ */
+export function placeInBlocks<T extends AllocationStudent>(students: T[], seats: Seat[]) {
+  const streamCount = Math.max(2, ...seats.map(s => s.seat_position));
+  const streams = buildBlockStreams(students, streamCount);
+  const cursors = streams.map(() => 0);
+  const placed: { seat: Seat; student: T }[] = [];
+
+  for (const seat of seats) {
+    let stream = (seat.seat_position - 1) % streams.length;
+
+    if (cursors[stream] >= streams[stream].length) {
+      const remaining = streams.map((s, index) => s.length - cursors[index]);
+      stream = remaining.indexOf(Math.max(...remaining));
+      if (remaining[stream] === 0) break;
+    }
+
+    placed.push({ seat, student: streams[stream][cursors[stream]++] });
+  }
+
+  return placed;
+}
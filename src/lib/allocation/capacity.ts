@@ -0,0 +1,58 @@
+import { buildSeatGrid } from './grid';
+import type { Seat } from './grid';
+import type { AllocationClassroom } from './types';
+
+// How densely a room is seated for an exam, as opposed to for teaching
+export interface CapacityProfile {
+  // Students per bench; null seats every position of the bench
+  seats_per_bench: number | null;
+  // Leave every other seat empty, alternating row to row
+  checkerboard: boolean;
+}
+
+export const FULL_CAPACITY: CapacityProfile = { seats_per_bench: null, checkerboard: false };
+
+export function describeProfile(profile: CapacityProfile) {
+  const seats = profile.seats_per_bench === null ? 'Every seat' : `${profile.seats_per_bench} per bench`;
+  return profile.checkerboard ? `${seats}, checkerboard` : seats;
+}
+
+/**
+ * Seat positions to use when only `count` of a bench's `benchSize` seats are
+ * taken, spread as far apart as possible: 1 of 2 -> [1], 2 of 3 -> [1, 3].
+ */
+export function spreadPositions(benchSize: number, count: number) {
+  const taken = Math.max(1, Math.min(count, benchSize));
+  if (taken === 1) return [1];
+  return Array.from({ length: taken }, (_, i) => Math.round((i * (benchSize - 1)) / (taken - 1)) + 1);
+}
+
+// The tightest of several profiles, e.g. for exams sharing a room
+export function strictestProfile(profiles: CapacityProfile[]): CapacityProfile {
+  const limits = profiles.map(p => p.seats_per_bench).filter((n): n is number => n !== null);
+  return {
+    seats_per_bench: limits.length > 0 ? Math.min(...limits) : null,
+    checkerboard: profiles.some(p => p.checkerboard)
+  };
+}
+
+// Seats of the room that the classroom's capacity profile lets students sit in
+export function examSeats(classroom: AllocationClassroom): Seat[] {
+  const profile = classroom.capacity ?? FULL_CAPACITY;
+  const positions = new Set(
+    spreadPositions(classroom.students_per_bench, profile.seats_per_bench ?? classroom.students_per_bench)
+  );
+
+  const seats = buildSeatGrid(classroom).filter(seat => positions.has(seat.seat_position));
+  if (!profile.checkerboard) return seats;
+
+  // Alternate over the seats left in each row, so thinned benches still checker
+  const rank = new Map<Seat, number>();
+  const rows = new Map<number, Seat[]>();
+  for (const seat of seats) rows.set(seat.row, [...(rows.get(seat.row) ?? []), seat]);
+  for (const row of rows.values()) {
+    [...row].sort((a, b) => a.column - b.column).forEach((seat, index) => rank.set(seat, index));
+  }
+
+  return seats.filter(seat => (seat.row + rank.get(seat)) % 2 === 0);
+}
@@ -0,0 +1,46 @@
+import { examsOverlap } from './session';
+import type { AllocationExam, AllocationStudent, ExamCandidates } from './types';
+
+// One student due in two exams whose time slots overlap
+export interface StudentClash {
+  student: AllocationStudent;
+  first: AllocationExam;
+  second: AllocationExam;
+}
+
+/**
+ * Every pair of overlapping exams that share a student, once per student and
+ * pair. `first` is the exam listed earlier in `exams`.
+ */
+export function findStudentClashes(exams: ExamCandidates[]): StudentClash[] {
+  const clashes: StudentClash[] = [];
+
+  for (let i = 0; i < exams.length; i++) {
+    for (let j = i + 1; j < exams.length; j++) {
+      const first = exams[i];
+      const second = exams[j];
+      if (!examsOverlap(first.exam, second.exam)) continue;
+
+      const secondIds = new Set(second.students.map(s => s.id));
+      for (const student of first.students) {
+        if (secondIds.has(student.id)) clashes.push({ student, first: first.exam, second: second.exam });
+      }
+    }
+  }
+
+  return clashes;
+}
+
+// Exams that take part in at least one clash, with how many students clash
+export function countClashesByExam(clashes: StudentClash[]) {
+  const counts = new Map<string, number>();
+  for (const { first, second } of clashes) {
+    counts.set(first.id, (counts.get(first.id) ?? 0) + 1);
+    counts.set(second.id, (counts.get(second.id) ?? 0) + 1);
+  }
+  return counts;
+}
+
+export function clashesFor(examId: string, clashes: StudentClash[]) {
+  return clashes.filter(c => c.first.id === examId || c.second.id === examId);
+}
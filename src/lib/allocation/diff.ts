@@ -0,0 +1,56 @@
+import type { SeatAssignment } from './types';
+
+export interface SeatMove {
+  before: SeatAssignment;
+  after: SeatAssignment;
+}
+
+export interface PlanDiff {
+  added: SeatAssignment[];
+  removed: SeatAssignment[];
+  moved: SeatMove[];
+  unchanged: number;
+}
+
+const studentKey = (a: SeatAssignment) => `${a.exam_id}:${a.student_id}`;
+
+export function isSameSeat(a: SeatAssignment, b: SeatAssignment) {
+  return a.classroom_id === b.classroom_id
+    && a.bench_number === b.bench_number
+    && a.seat_position === b.seat_position;
+}
+
+// Compares two plans student by student
+export function diffPlans(current: SeatAssignment[], next: SeatAssignment[]): PlanDiff {
+  const currentByStudent = new Map(current.map(a => [studentKey(a), a]));
+  const nextKeys = new Set(next.map(studentKey));
+  const diff: PlanDiff = { added: [], removed: [], moved: [], unchanged: 0 };
+
+  for (const after of next) {
+    const before = currentByStudent.get(studentKey(after));
+    if (!before) diff.added.push(after);
+    else if (!isSameSeat(before, after)) diff.moved.push({ before, after });
+    else diff.unchanged++;
+  }
+
+  diff.removed = current.filter(a => !nextKeys.has(studentKey(a)));
+  return diff;
+}
+
+export function hasChanges(diff: PlanDiff) {
+  return diff.added.length + diff.removed.length + diff.moved.length > 0;
+}
+
+// One line per seat in a fixed order, however the plan was built or fetched
+export function serializePlan(assignments: SeatAssignment[]) {
+  return assignments
+    .map(a => [a.exam_id, a.classroom_id, a.bench_number, a.seat_position, a.student_id].join(','))
+    .sort()
+    .join('\n');
+}
+
+// SHA-256 of `serializePlan`; equal fingerprints mean seat-for-seat identical plans
+export async function fingerprintPlan(assignments: SeatAssignment[]) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(serializePlan(assignments)));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
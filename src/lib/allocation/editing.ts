@@ -0,0 +1,102 @@
+import { examSeats } from './capacity';
+import { seatKey } from './grid';
+import type { SeatRef } from './grid';
+import { isBenchUsable, resolveLayout } from './layout';
+import type { AllocationClassroom, SeatAssignment } from './types';
+
+export type PlanIssueKind = 'seat-double-booked' | 'student-seated-twice' | 'seat-out-of-range' | 'seat-held-by-other-exam';
+
+export interface PlanIssue {
+  kind: PlanIssueKind;
+  seat: SeatRef;
+  student_id: string;
+}
+
+export const PLAN_ISSUE_LABELS: Record<PlanIssueKind, string> = {
+  'seat-double-booked': 'Two students share this seat',
+  'student-seated-twice': 'Student holds more than one seat',
+  'seat-out-of-range': 'Seat does not exist or is unusable in this room',
+  'seat-held-by-other-exam': 'Seat is taken by another exam in this slot'
+};
+
+/**
+ * Checks a plan against the `seating_allocations` unique constraints and the
+ * rooms' dimensions. Any issue here would make the database reject the plan.
+ */
+export function validatePlan(
+  assignments: SeatAssignment[],
+  classrooms: AllocationClassroom[],
+  occupied: SeatRef[] = []
+): PlanIssue[] {
+  const classroomById = new Map(classrooms.map(c => [c.id, c]));
+  const taken = new Set(occupied.map(seatKey));
+  const seenSeats = new Set<string>();
+  const seenStudents = new Set<string>();
+  const issues: PlanIssue[] = [];
+
+  for (const assignment of assignments) {
+    const issue = (kind: PlanIssueKind) => issues.push({ kind, seat: assignment, student_id: assignment.student_id });
+    const classroom = classroomById.get(assignment.classroom_id);
+    const key = seatKey(assignment);
+    const studentKey = `${assignment.exam_id}:${assignment.student_id}`;
+
+    if (
+      !classroom
+      || !isBenchUsable(resolveLayout(classroom), assignment.bench_number)
+      || assignment.seat_position < 1 || assignment.seat_position > classroom.students_per_bench
+    ) {
+      issue('seat-out-of-range');
+    }
+    if (seenSeats.has(key)) issue('seat-double-booked');
+    if (seenStudents.has(studentKey)) issue('student-seated-twice');
+    if (taken.has(key)) issue('seat-held-by-other-exam');
+
+    seenSeats.add(key);
+    seenStudents.add(studentKey);
+  }
+
+  return issues;
+}
+
+export function findAssignmentAt(assignments: SeatAssignment[], seat: SeatRef) {
+  const key = seatKey(seat);
+  return assignments.find(a => seatKey(a) === key);
+}
+
+/**
+ * Moves the student at `from` to `to`, swapping with whoever sits there.
+ * Locked seats never move; the plan comes back unchanged instead.
+ */
+export function moveStudent(assignments: SeatAssignment[], from: SeatRef, to: SeatRef): SeatAssignment[] {
+  const source = findAssignmentAt(assignments, from);
+  const target = findAssignmentAt(assignments, to);
+  if (!source || source === target || source.is_locked || target?.is_locked) return assignments;
+
+  const place = (seat: SeatRef) => ({
+    classroom_id: seat.classroom_id,
+    bench_number: seat.bench_number,
+    seat_position: seat.seat_position
+  });
+
+  return assignments.map(a => {
+    if (a === source) return { ...a, ...place(to) };
+    if (a === target) return { ...a, ...place(from) };
+    return a;
+  });
+}
+
+// The first seat of the room, front row first, that nobody holds
+export function firstFreeSeat(
+  assignments: SeatAssignment[],
+  classroom: AllocationClassroom,
+  occupied: SeatRef[] = []
+): SeatRef | null {
+  const taken = new Set([...assignments, ...occupied].map(seatKey));
+  const seat = examSeats(classroom).find(s => !taken.has(seatKey(s)));
+  return seat ? { classroom_id: seat.classroom_id, bench_number: seat.bench_number, seat_position: seat.seat_position } : null;
+}
+
+export function toggleSeatLock(assignments: SeatAssignment[], seat: SeatRef): SeatAssignment[] {
+  const key = seatKey(seat);
+  return assignments.map(a => (seatKey(a) === key ? { ...a, is_locked: !a.is_locked } : a));
+}
@@ -0,0 +1,60 @@
+import type { AllocationStudent, CandidateKind, SeatingRule } from './types';
+
+export type ExclusionReason = 'year-not-allowed' | 'section-not-allowed';
+
+export interface ExcludedStudent {
+  student: AllocationStudent;
+  reason: ExclusionReason;
+  detail: string;
+}
+
+export const EXCLUSION_REASON_LABELS: Record<ExclusionReason, string> = {
+  'year-not-allowed': 'Year not in combination',
+  'section-not-allowed': 'Section not in combination'
+};
+
+export const CANDIDATE_KINDS: CandidateKind[] = ['arrear', 'supplementary'];
+
+export const CANDIDATE_KIND_LABELS: Record<CandidateKind, string> = {
+  arrear: 'Arrear',
+  supplementary: 'Supplementary'
+};
+
+/**
+ * Splits students into those the combination allows and those it does not.
+ * An empty `allowed_years` or `allowed_sections` list places no restriction.
+ * Individually added candidates (arrear, supplementary) are always allowed.
+ */
+export function applySeatingRule<T extends AllocationStudent>(students: T[], rule: SeatingRule) {
+  const eligible: T[] = [];
+  const excluded: ExcludedStudent[] = [];
+
+  for (const student of students) {
+    if (student.candidate_kind) {
+      eligible.push(student);
+    } else if (rule.allowed_years.length > 0 && !rule.allowed_years.includes(student.year)) {
+      excluded.push({
+        student,
+        reason: 'year-not-allowed',
+        detail: `${student.year} is not one of ${rule.allowed_years.join(', ')}`
+      });
+    } else if (rule.allowed_sections.length > 0 && !rule.allowed_sections.includes(student.section)) {
+      excluded.push({
+        student,
+        reason: 'section-not-allowed',
+        detail: `Section ${student.section} is not one of ${rule.allowed_sections.join(', ')}`
+      });
+    } else {
+      eligible.push(student);
+    }
+  }
+
+  return { eligible, excluded };
+}
+
+export function summarizeExclusions(excluded: ExcludedStudent[]) {
+  return excluded.reduce((acc, { reason }) => {
+    acc[reason] = (acc[reason] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<ExclusionReason, number>>);
+}
@@ -0,0 +1,177 @@
+import { needsOwnRoom, seatAccommodations } from './accommodations';
+import { findAdjacencyViolations, placeWithAdjacency } from './adjacency';
+import { placeInBlocks } from './block';
+import { applySeatingRule } from './eligibility';
+import type { ExcludedStudent } from './eligibility';
+import { examSeats } from './capacity';
+import { applyFillPolicy } from './fill';
+import { locateSeat, seatKey } from './grid';
+import { avoidRepeats, countRepeats } from './history';
+import type { Seat, SeatRef } from './grid';
+import { createRandom, generateSeed } from './random';
+import { normalizeStrategy, orderStudents } from './strategies';
+import type {
+  AllocationClassroom,
+  AllocationInput,
+  AllocationPlan,
+  AllocationStudent,
+  Candidate,
+  ExamAllocationCount,
+  MixStrategy,
+  SeatAssignment,
+  SessionAllocationInput
+} from './types';
+
+// Seats available for an exam: usable benches, thinned by the capacity profile
+export function classroomCapacity(classroom: AllocationClassroom) {
+  return examSeats(classroom).length;
+}
+
+export function totalCapacity(classrooms: AllocationClassroom[]) {
+  return classrooms.reduce((sum, room) => sum + classroomCapacity(room), 0);
+}
+
+// Seats of the classrooms that are not in `occupied`, in fill order
+export function freeSeats(classrooms: AllocationClassroom[], occupied: SeatRef[] = []) {
+  const taken = new Set(occupied.map(seatKey));
+  return classrooms.flatMap(examSeats).filter(seat => !taken.has(seatKey(seat)));
+}
+
+function placeInOrder<T extends AllocationStudent>(students: T[], seats: Seat[]) {
+  return seats.slice(0, students.length).map((seat, index) => ({ seat, student: students[index] }));
+}
+
+function placeStudents(
+  candidates: Candidate[],
+  seats: Seat[],
+  strategy: MixStrategy,
+  adjacency: AllocationInput['adjacency'],
+  preseated: { seat: Seat; student: Candidate }[]
+) {
+  if (strategy === 'block') return placeInBlocks(candidates, seats);
+  if (adjacency) return placeWithAdjacency(candidates, seats, adjacency, preseated);
+  return placeInOrder(candidates, seats);
+}
+
+const candidateKey = (c: { exam_id: string; id?: string; student_id?: string }) =>
+  `${c.exam_id}:${c.id ?? c.student_id}`;
+
+/**
+ * Builds a complete seat plan for every exam of a session at once, so exams
+ * sharing a time slot share the rooms without double-booking a seat. Pure:
+ * the caller fetches the inputs and decides what to do with the result
+ * (persist, preview, ...). Students outside the combination's years/sections
+ * are excluded, seats in `occupied` are skipped (and those in
+ * `extraTimeOccupied` for students with extra time), `fixed` assignments are
+ * kept as they are, and classrooms are filled front row first, in the order
+ * given unless `fill` picks or balances the rooms. Students with seating
+ * accommodations are seated first, some in rooms of their own (see
+ * `seatAccommodations`). With a `history`, students are swapped away from
+ * neighbours and rooms they had earlier in the series. Every random step draws
+ * from `seed`, so the same inputs and seed always give the same plan.
+ */
+export function allocateSession({
+  exams,
+  classrooms,
+  rule,
+  occupied = [],
+  extraTimeOccupied = [],
+  fixed = [],
+  adjacency,
+  fill,
+  history,
+  seed = generateSeed()
+}: SessionAllocationInput): AllocationPlan {
+  const strategy = normalizeStrategy(rule.mix_strategy);
+  const candidates: Candidate[] = [];
+  const excluded: ExcludedStudent[] = [];
+
+  const fixedKeys = new Set(fixed.map(candidateKey));
+
+  for (const { exam, students } of exams) {
+    const filtered = applySeatingRule(students, rule);
+    candidates.push(...filtered.eligible.map(student => ({ ...student, exam_id: exam.id })));
+    excluded.push(...filtered.excluded.filter(e => !fixedKeys.has(`${exam.id}:${e.student.id}`)));
+  }
+
+  // Fixed students keep their seats and act as neighbours for everyone else
+  const classroomById = new Map(classrooms.map(c => [c.id, c]));
+  const studentByKey = new Map<string, Candidate>(
+    exams.flatMap(({ exam, students }) => students.map(s => [`${exam.id}:${s.id}`, { ...s, exam_id: exam.id }]))
+  );
+  const preseated = fixed
+    .filter(a => classroomById.has(a.classroom_id) && studentByKey.has(candidateKey(a)))
+    .map(a => ({
+      seat: locateSeat(classroomById.get(a.classroom_id), a.bench_number, a.seat_position),
+      student: studentByKey.get(candidateKey(a))
+    }));
+
+  const ordered = orderStudents(candidates.filter(c => !fixedKeys.has(candidateKey(c))), strategy, createRandom(seed));
+  // Rooms of fixed students who sit alone stay theirs alone
+  const ownRooms = new Set(preseated.filter(p => needsOwnRoom(p.student)).map(p => p.seat.classroom_id));
+  const free = freeSeats(classrooms, [...occupied, ...fixed]).filter(seat => !ownRooms.has(seat.classroom_id));
+  const accommodated = seatAccommodations(
+    ordered,
+    classrooms,
+    free,
+    new Set([...occupied, ...fixed].map(seat => seat.classroom_id)),
+    extraTimeOccupied
+  );
+  const open = new Set([
+    ...fixed.map(a => a.classroom_id),
+    ...accommodated.placed.map(p => p.seat.classroom_id).filter(id => !accommodated.ownRooms.has(id))
+  ]);
+  const seats = applyFillPolicy(classrooms, accommodated.seats, accommodated.rest.length, fill, open);
+  const neighbours = [...preseated, ...accommodated.placed];
+  const general = placeStudents(accommodated.rest, seats, strategy, adjacency, neighbours);
+  const placed = [...accommodated.placed, ...(history ? avoidRepeats(general, neighbours, history) : general)];
+
+  const assignments: SeatAssignment[] = [
+    ...fixed,
+    ...placed.map(({ seat, student }) => ({
+      exam_id: student.exam_id,
+      classroom_id: seat.classroom_id,
+      student_id: student.id,
+      bench_number: seat.bench_number,
+      seat_position: seat.seat_position
+    }))
+  ];
+
+  const totalStudents = new Set([...candidates.map(candidateKey), ...fixedKeys]).size;
+  const placedKeys = new Set(assignments.map(candidateKey));
+  const capacity = accommodated.seats.length + accommodated.placed.length + fixed.length;
+  const perExam: Record<string, ExamAllocationCount> = {};
+
+  for (const { exam } of exams) {
+    perExam[exam.id] = {
+      total: candidates.filter(c => c.exam_id === exam.id).length,
+      allocated: assignments.filter(a => a.exam_id === exam.id).length
+    };
+  }
+
+  return {
+    assignments,
+    diagnostics: {
+      strategy,
+      seed,
+      totalStudents,
+      allocatedCount: assignments.length,
+      totalCapacity: capacity,
+      shortfall: Math.max(0, totalStudents - capacity),
+      roomsUsed: new Set(assignments.map(a => a.classroom_id)).size,
+      unplaced: ordered.filter(c => !placedKeys.has(candidateKey(c))),
+      excluded,
+      violations: adjacency
+        ? findAdjacencyViolations(assignments, [...studentByKey.values()], classrooms, adjacency)
+        : [],
+      unmetAccommodations: accommodated.unmet,
+      repeats: history ? countRepeats(assignments, classrooms, history) : null,
+      perExam
+    }
+  };
+}
+
+// Single-exam convenience over `allocateSession`
+export function allocateSeats({ exam, students, ...options }: AllocationInput): AllocationPlan {
+  return allocateSession({ ...options, exams: [{ exam, students }] });
+}
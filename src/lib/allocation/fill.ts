@@ -0,0 +1,109 @@
+import type { Seat } from './grid';
+import type { AllocationClassroom } from './types';
+
+export type FillPolicy = 'in-order' | 'fewest-rooms' | 'preferred' | 'balanced';
+
+export interface FillOptions {
+  policy: FillPolicy;
+  // Rooms in this building / on this floor go first under 'preferred'
+  building?: string | null;
+  floor?: number | null;
+}
+
+export const FILL_POLICY_LABELS: Record<FillPolicy, string> = {
+  'in-order': 'Room order',
+  'fewest-rooms': 'Fewest rooms',
+  preferred: 'Preferred building / floor',
+  balanced: 'Balanced across rooms'
+};
+
+interface RoomSeats {
+  classroom: AllocationClassroom;
+  seats: Seat[];
+}
+
+function groupByRoom(classrooms: AllocationClassroom[], seats: Seat[]): RoomSeats[] {
+  return classrooms.map(classroom => ({
+    classroom,
+    seats: seats.filter(seat => seat.classroom_id === classroom.id)
+  }));
+}
+
+export function isPreferredRoom(classroom: AllocationClassroom, { building, floor }: FillOptions) {
+  if (!building && (floor === null || floor === undefined)) return false;
+  return (!building || classroom.building === building)
+    && (floor === null || floor === undefined || classroom.floor === floor);
+}
+
+/**
+ * The fewest rooms whose free seats cover `needed`: the largest rooms first,
+ * then the last one swapped for the smallest room that still covers what is
+ * left. Rooms in `open` (already hosting students) are always kept.
+ */
+function fewestRooms(rooms: RoomSeats[], needed: number, open: Set<string>) {
+  const chosen = rooms.filter(r => open.has(r.classroom.id));
+  let remaining = needed - chosen.reduce((sum, r) => sum + r.seats.length, 0);
+  const spare = rooms
+    .filter(r => !open.has(r.classroom.id) && r.seats.length > 0)
+    .sort((a, b) => b.seats.length - a.seats.length);
+
+  while (remaining > 0 && spare.length > 0) {
+    const fits = spare.filter(r => r.seats.length >= remaining);
+    const room = fits.length > 0 ? fits[fits.length - 1] : spare[0];
+    spare.splice(spare.indexOf(room), 1);
+    chosen.push(room);
+    remaining -= room.seats.length;
+  }
+
+  // Fill in the caller's room order, not by size
+  return rooms.filter(r => chosen.includes(r));
+}
+
+// Equal shares per room, capped by each room's free seats
+function balancedShares(rooms: RoomSeats[], needed: number) {
+  const shares = new Map(rooms.map(r => [r, 0]));
+  let remaining = needed;
+  let open = rooms.filter(r => r.seats.length > 0);
+
+  while (remaining > 0 && open.length > 0) {
+    const share = Math.max(1, Math.floor(remaining / open.length));
+    for (const room of open) {
+      const add = Math.min(share, room.seats.length - shares.get(room), remaining);
+      shares.set(room, shares.get(room) + add);
+      remaining -= add;
+    }
+    open = open.filter(r => shares.get(r) < r.seats.length);
+  }
+
+  return shares;
+}
+
+/**
+ * Orders and trims the free seats so that filling them front to back follows
+ * the fill policy. `needed` is how many students still need a seat; rooms in
+ * `open` already hold some of the exam's students.
+ */
+export function applyFillPolicy(
+  classrooms: AllocationClassroom[],
+  seats: Seat[],
+  needed: number,
+  options: FillOptions = { policy: 'in-order' },
+  open: Set<string> = new Set()
+): Seat[] {
+  const rooms = groupByRoom(classrooms, seats);
+
+  switch (options.policy) {
+    case 'fewest-rooms':
+      return fewestRooms(rooms, needed, open).flatMap(r => r.seats);
+    case 'preferred': {
+      const preferred = rooms.filter(r => isPreferredRoom(r.classroom, options));
+      return [...preferred, ...rooms.filter(r => !preferred.includes(r))].flatMap(r => r.seats);
+    }
+    case 'balanced': {
+      const shares = balancedShares(rooms, needed);
+      return rooms.flatMap(r => r.seats.slice(0, shares.get(r)));
+    }
+    default:
+      return seats;
+  }
+}
@@ -0,0 +1,86 @@
+import { aislesBefore, resolveLayout, usableBenches } from './layout';
+import type { RoomLayout } from './layout';
+import type { AllocationClassroom } from './types';
+
+export interface SeatRef {
+  classroom_id: string;
+  bench_number: number;
+  seat_position: number;
+}
+
+export interface Seat extends SeatRef {
+  // Row 0 is the front of the room
+  row: number;
+  // Seat column across the whole row, counting every seat of every bench and
+  // one extra column per aisle, so seats either side of an aisle never touch
+  column: number;
+}
+
+export type NeighbourDirection = 'side' | 'front' | 'diagonal';
+
+export interface NeighbourCell {
+  row: number;
+  column: number;
+  direction: NeighbourDirection;
+}
+
+const NAMED_SEATS: Record<number, string[]> = {
+  2: ['Left', 'Right'],
+  3: ['Left', 'Middle', 'Right']
+};
+
+// Two- and three-seat benches read as Left/Middle/Right, anything else by number
+export function seatLabel(seatPosition: number, seatsPerBench = 2) {
+  return NAMED_SEATS[seatsPerBench]?.[seatPosition - 1] ?? `Seat ${seatPosition}`;
+}
+
+export function seatKey(seat: SeatRef) {
+  return `${seat.classroom_id}:${seat.bench_number}:${seat.seat_position}`;
+}
+
+export function cellKey(classroomId: string, row: number, column: number) {
+  return `${classroomId}:${row}:${column}`;
+}
+
+function seatInLayout(
+  classroom: AllocationClassroom,
+  layout: RoomLayout,
+  benchNumber: number,
+  seatPosition: number
+): Seat {
+  const benchColumn = (benchNumber - 1) % layout.columns;
+
+  return {
+    classroom_id: classroom.id,
+    bench_number: benchNumber,
+    seat_position: seatPosition,
+    row: Math.floor((benchNumber - 1) / layout.columns),
+    column: benchColumn * classroom.students_per_bench + aislesBefore(layout, benchColumn) + (seatPosition - 1)
+  };
+}
+
+export function locateSeat(classroom: AllocationClassroom, benchNumber: number, seatPosition: number): Seat {
+  return seatInLayout(classroom, resolveLayout(classroom), benchNumber, seatPosition);
+}
+
+// Every usable seat of the room, front row first, left to right
+export function buildSeatGrid(classroom: AllocationClassroom): Seat[] {
+  const layout = resolveLayout(classroom);
+  return usableBenches(layout).flatMap(bench =>
+    Array.from({ length: classroom.students_per_bench }, (_, i) => seatInLayout(classroom, layout, bench, i + 1))
+  );
+}
+
+export function neighbourCells(seat: Seat): NeighbourCell[] {
+  const { row, column } = seat;
+  return [
+    { row, column: column - 1, direction: 'side' },
+    { row, column: column + 1, direction: 'side' },
+    { row: row - 1, column, direction: 'front' },
+    { row: row + 1, column, direction: 'front' },
+    { row: row - 1, column: column - 1, direction: 'diagonal' },
+    { row: row - 1, column: column + 1, direction: 'diagonal' },
+    { row: row + 1, column: column - 1, direction: 'diagonal' },
+    { row: row + 1, column: column + 1, direction: 'diagonal' }
+  ];
+}
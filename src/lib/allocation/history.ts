@@ -0,0 +1,159 @@
+import { cellKey, locateSeat } from './grid';
+import type { Seat } from './grid';
+import { groupKey } from './strategies';
+import type { AllocationClassroom, Candidate, SeatAssignment } from './types';
+
+/**
+ * Who sat beside whom, and in which rooms, in earlier papers of an exam
+ * series. Plain arrays and records, so it is stored with the plan inputs.
+ */
+export interface SeatingHistory {
+  // Side-by-side neighbours, as `pairKey` values
+  pairs: string[];
+  // Rooms each student sat in, by student id
+  rooms: Record<string, string[]>;
+}
+
+export interface SeatingRepeats {
+  // Side-by-side neighbours who already sat together earlier in the series
+  pairs: number;
+  // Students seated in a room they already sat in earlier in the series
+  rooms: number;
+}
+
+// A repeated bench-mate matters more than a repeated room
+const PAIR_WEIGHT = 4;
+
+export function pairKey(a: string, b: string) {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+// Students sitting side by side in one sitting; seats across an aisle never touch
+function sidePairs(assignments: SeatAssignment[], classrooms: AllocationClassroom[]) {
+  const classroomById = new Map(classrooms.map(c => [c.id, c]));
+  const seated = new Map<string, string>();
+  const seats: { seat: Seat; studentId: string }[] = [];
+
+  for (const assignment of assignments) {
+    const classroom = classroomById.get(assignment.classroom_id);
+    if (!classroom) continue;
+
+    const seat = locateSeat(classroom, assignment.bench_number, assignment.seat_position);
+    seated.set(cellKey(seat.classroom_id, seat.row, seat.column), assignment.student_id);
+    seats.push({ seat, studentId: assignment.student_id });
+  }
+
+  return seats.flatMap(({ seat, studentId }) => {
+    const right = seated.get(cellKey(seat.classroom_id, seat.row, seat.column + 1));
+    return right ? [pairKey(studentId, right)] : [];
+  });
+}
+
+/**
+ * Builds the history from earlier sittings of a series, each the seating of
+ * one time slot. Only pairs and rooms of `studentIds` are kept, since nobody
+ * else can repeat them.
+ */
+export function buildSeatingHistory(
+  sittings: SeatAssignment[][],
+  classrooms: AllocationClassroom[],
+  studentIds: Set<string>
+): SeatingHistory {
+  const pairs = new Set<string>();
+  const rooms: Record<string, string[]> = {};
+
+  for (const sitting of sittings) {
+    for (const pair of sidePairs(sitting, classrooms)) {
+      const [a, b] = pair.split('|');
+      if (studentIds.has(a) && studentIds.has(b)) pairs.add(pair);
+    }
+
+    for (const { student_id, classroom_id } of sitting) {
+      if (!studentIds.has(student_id)) continue;
+      if (!rooms[student_id]) rooms[student_id] = [];
+      if (!rooms[student_id].includes(classroom_id)) rooms[student_id].push(classroom_id);
+    }
+  }
+
+  return { pairs: [...pairs].sort(), rooms };
+}
+
+export function countRepeats(
+  assignments: SeatAssignment[],
+  classrooms: AllocationClassroom[],
+  history: SeatingHistory
+): SeatingRepeats {
+  const earlierPairs = new Set(history.pairs);
+
+  return {
+    pairs: sidePairs(assignments, classrooms).filter(pair => earlierPairs.has(pair)).length,
+    rooms: assignments.filter(a => history.rooms[a.student_id]?.includes(a.classroom_id)).length
+  };
+}
+
+/**
+ * Swaps placed students wherever that seats fewer of them beside someone they
+ * sat beside earlier in the series, or in a room they already sat in. Only
+ * students of the same exam and year/section swap, so the adjacency rule and
+ * blocks are unaffected. `preseated` students do not move but count as
+ * neighbours.
+ */
+export function avoidRepeats<T extends Candidate>(
+  placed: { seat: Seat; student: T }[],
+  preseated: { seat: Seat; student: Candidate }[],
+  history: SeatingHistory
+): { seat: Seat; student: T }[] {
+  const earlierPairs = new Set(history.pairs);
+  const earlierRooms = new Map(Object.entries(history.rooms).map(([id, rooms]) => [id, new Set(rooms)]));
+  const result = placed.map(p => ({ ...p }));
+  const seated = new Map<string, string>(
+    [...preseated, ...result].map(({ seat, student }) => [cellKey(seat.classroom_id, seat.row, seat.column), student.id])
+  );
+
+  const cost = (studentId: string, seat: Seat) =>
+    [seat.column - 1, seat.column + 1]
+      .map(column => seated.get(cellKey(seat.classroom_id, seat.row, column)))
+      .filter(id => id && id !== studentId && earlierPairs.has(pairKey(studentId, id)))
+      .length * PAIR_WEIGHT
+    + (earlierRooms.get(studentId)?.has(seat.classroom_id) ? 1 : 0);
+
+  const swap = (i: number, j: number) => {
+    const a = result[i].student;
+    result[i].student = result[j].student;
+    result[j].student = a;
+    seated.set(cellKey(result[i].seat.classroom_id, result[i].seat.row, result[i].seat.column), result[i].student.id);
+    seated.set(cellKey(result[j].seat.classroom_id, result[j].seat.row, result[j].seat.column), result[j].student.id);
+  };
+
+  const groups = new Map<string, number[]>();
+  result.forEach(({ student }, index) => {
+    const key = groupKey(student);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key).push(index);
+  });
+
+  for (let i = 0; i < result.length; i++) {
+    if (cost(result[i].student.id, result[i].seat) === 0) continue;
+
+    let best = -1;
+    let bestGain = 0;
+
+    for (const j of groups.get(groupKey(result[i].student))) {
+      if (j === i) continue;
+
+      const before = cost(result[i].student.id, result[i].seat) + cost(result[j].student.id, result[j].seat);
+      swap(i, j);
+      const after = cost(result[i].student.id, result[i].seat) + cost(result[j].student.id, result[j].seat);
+      swap(i, j);
+
+      if (before - after > bestGain) {
+        best = j;
+        bestGain = before - after;
+      }
+    }
+
+    if (best !== -1) swap(i, best);
+  }
+
+  return result;
+}
@@ -0,0 +1,18 @@
+export * from './types';
+export * from './random';
+export * from './strategies';
+export * from './layout';
+export * from './grid';
+export * from './capacity';
+export * from './fill';
+export * from './adjacency';
+export * from './eligibility';
+export * from './accommodations';
+export * from './block';
+export * from './session';
+export * from './clashes';
+export * from './diff';
+export * from './history';
+export * from './quality';
+export * from './editing';
+export * from './engine';
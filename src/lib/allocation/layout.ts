@@ -0,0 +1,80 @@
+import type { AllocationClassroom } from './types';
+
+// Edge of the drawn plan the board is on; bench 1 is always in the row nearest it
+export type BoardSide = 'top' | 'bottom';
+
+// Corner of the room the door is in, as seen facing the board
+export type DoorPosition = 'front-left' | 'front-right' | 'back-left' | 'back-right';
+
+// Mirrors `classrooms.layout`
+export interface ClassroomLayout {
+  // Bench numbers that cannot be used: broken, a pillar, the teacher's desk
+  disabled: number[];
+  // An aisle runs after each of these bench columns (1-based)
+  aisles: number[];
+  board: BoardSide;
+  door: DoorPosition | null;
+}
+
+// A classroom's layout with the bench grid it applies to
+export interface RoomLayout extends ClassroomLayout {
+  rows: number;
+  columns: number;
+  // Highest bench number; the slots after it in the last row stay empty
+  benches: number;
+}
+
+export const EMPTY_LAYOUT: ClassroomLayout = { disabled: [], aisles: [], board: 'top', door: null };
+
+export const DOOR_POSITIONS: DoorPosition[] = ['front-left', 'front-right', 'back-left', 'back-right'];
+
+const toNumbers = (value: unknown) =>
+  Array.isArray(value) ? value.filter((n): n is number => Number.isInteger(n)) : [];
+
+// Reads a stored layout, tolerating missing or malformed fields
+export function parseLayout(value: unknown): ClassroomLayout {
+  if (!value || typeof value !== 'object') return { ...EMPTY_LAYOUT };
+  const layout = value as Record<string, unknown>;
+  return {
+    disabled: toNumbers(layout.disabled),
+    aisles: toNumbers(layout.aisles),
+    board: layout.board === 'bottom' ? 'bottom' : 'top',
+    door: DOOR_POSITIONS.find(position => position === layout.door) ?? null
+  };
+}
+
+export function benchesPerRow(classroom: AllocationClassroom) {
+  return Math.max(1, classroom.benches_per_row || classroom.total_benches || 1);
+}
+
+export function resolveLayout(classroom: AllocationClassroom): RoomLayout {
+  const columns = benchesPerRow(classroom);
+  const benches = Math.max(0, classroom.total_benches);
+  const { disabled, aisles, ...orientation } = parseLayout(classroom.layout);
+
+  return {
+    ...orientation,
+    rows: Math.ceil(benches / columns),
+    columns,
+    benches,
+    disabled: disabled.filter(bench => bench >= 1 && bench <= benches),
+    aisles: aisles.filter(column => column >= 1 && column < columns)
+  };
+}
+
+export function isBenchUsable(layout: RoomLayout, benchNumber: number) {
+  return benchNumber >= 1 && benchNumber <= layout.benches && !layout.disabled.includes(benchNumber);
+}
+
+export function usableBenches(layout: RoomLayout) {
+  return Array.from({ length: layout.benches }, (_, i) => i + 1).filter(bench => isBenchUsable(layout, bench));
+}
+
+export function toggleListValue(values: number[], value: number) {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value].sort((a, b) => a - b);
+}
+
+// Aisles to the left of a 0-based bench column
+export function aislesBefore(layout: RoomLayout, benchColumn: number) {
+  return layout.aisles.filter(column => column <= benchColumn).length;
+}
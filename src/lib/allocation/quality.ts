@@ -0,0 +1,128 @@
+import { findAdjacencyViolations } from './adjacency';
+import type { AdjacencyGroupBy, AdjacencyOptions } from './adjacency';
+import { examSeats } from './capacity';
+import type { ExcludedStudent } from './eligibility';
+import { seatKey } from './grid';
+import type { NeighbourDirection, SeatRef } from './grid';
+import type { SeatingRepeats } from './history';
+import type { AllocationClassroom, AllocationPlan, AllocationStudent, Candidate, MixStrategy } from './types';
+
+export interface RoomQuality {
+  classroom_id: string;
+  room_number: string;
+  building: string | null;
+  // Seats of the room free for this plan, after other exams in the slot
+  available: number;
+  seated: number;
+  empty: number;
+  fillPercent: number;
+  // Students seated per year, per year-section and per department
+  years: Record<string, number>;
+  sections: Record<string, number>;
+  departments: Record<string, number>;
+  sameGroupPairs: number;
+}
+
+export interface UnplacedStudent {
+  student: Candidate;
+  reason: string;
+}
+
+export interface PlanQualityReport {
+  strategy: MixStrategy;
+  seed: number;
+  totalStudents: number;
+  allocatedCount: number;
+  // Totals over the rooms used; empty rooms are not counted against the plan
+  available: number;
+  emptySeats: number;
+  fillPercent: number;
+  rooms: RoomQuality[];
+  // Neighbours sitting the same exam in the same group, in every direction,
+  // whether or not the adjacency rule was asked to keep them apart
+  groupBy: AdjacencyGroupBy;
+  sameGroupPairs: Record<NeighbourDirection, number>;
+  excluded: ExcludedStudent[];
+  unplaced: UnplacedStudent[];
+  unmetAccommodations: Candidate[];
+  repeats: SeatingRepeats | null;
+}
+
+export interface QualityInput {
+  classrooms: AllocationClassroom[];
+  students: AllocationStudent[];
+  occupied: SeatRef[];
+  adjacency?: AdjacencyOptions | null;
+}
+
+const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : 0);
+
+function tally(values: string[]) {
+  return values.reduce((acc, value) => {
+    acc[value] = (acc[value] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+}
+
+/**
+ * Summarises how good a plan is: how full the rooms are, who sits with whom,
+ * and who was left out and why. Pure, like the engine, so the same report can
+ * be shown for a draft, a saved plan or a batch run.
+ */
+export function buildQualityReport(plan: AllocationPlan, { classrooms, students, occupied, adjacency }: QualityInput): PlanQualityReport {
+  const { diagnostics, assignments } = plan;
+  const studentById = new Map(students.map(s => [s.id, s]));
+  const taken = new Set(occupied.map(seatKey));
+  const groupBy = adjacency?.groupBy ?? 'year-section';
+  const pairs = findAdjacencyViolations(assignments, students, classrooms, { groupBy, diagonal: true });
+
+  const rooms = classrooms
+    .map(classroom => {
+      const seated = assignments.filter(a => a.classroom_id === classroom.id);
+      const seatedStudents = seated.map(a => studentById.get(a.student_id)).filter(Boolean);
+      const available = examSeats(classroom).filter(seat => !taken.has(seatKey(seat))).length;
+
+      return {
+        classroom_id: classroom.id,
+        room_number: classroom.room_number,
+        building: classroom.building,
+        available,
+        seated: seated.length,
+        empty: Math.max(0, available - seated.length),
+        fillPercent: percent(seated.length, available),
+        years: tally(seatedStudents.map(s => s.year)),
+        sections: tally(seatedStudents.map(s => `${s.year}-${s.section}`)),
+        departments: tally(seatedStudents.map(s => s.department)),
+        sameGroupPairs: pairs.filter(p => p.classroom_id === classroom.id).length
+      };
+    })
+    .filter(room => room.seated > 0);
+
+  const available = rooms.reduce((sum, room) => sum + room.available, 0);
+
+  return {
+    strategy: diagnostics.strategy,
+    seed: diagnostics.seed,
+    totalStudents: diagnostics.totalStudents,
+    allocatedCount: diagnostics.allocatedCount,
+    available,
+    emptySeats: rooms.reduce((sum, room) => sum + room.empty, 0),
+    fillPercent: percent(assignments.length, available),
+    rooms,
+    groupBy,
+    sameGroupPairs: {
+      side: pairs.filter(p => p.direction === 'side').length,
+      front: pairs.filter(p => p.direction === 'front').length,
+      diagonal: pairs.filter(p => p.direction === 'diagonal').length
+    },
+    excluded: diagnostics.excluded,
+    unplaced: diagnostics.unplaced.map(student => ({
+      student,
+      reason: diagnostics.shortfall > 0
+        ? `${diagnostics.shortfall} more seats needed than are free in the selected rooms`
+        : 'No seat left once rooms were given to students sitting alone'
+    })),
+    unmetAccommodations: diagnostics.unmetAccommodations,
+    repeats: diagnostics.repeats
+  };
+}
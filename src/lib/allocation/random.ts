@@ -0,0 +1,21 @@
+// Seeds are unsigned 32-bit integers so they fit a Postgres BIGINT and a URL
+export function generateSeed() {
+  return crypto.getRandomValues(new Uint32Array(1))[0];
+}
+
+/**
+ * Mulberry32: a small, fast PRNG whose whole state is the seed. The same seed
+ * yields the same sequence on every browser and platform, which is what lets
+ * a stored plan be regenerated exactly.
+ */
+export function createRandom(seed: number) {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
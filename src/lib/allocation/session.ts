@@ -0,0 +1,33 @@
+import type { AllocationExam } from './types';
+
+type ExamSlot = Pick<AllocationExam, 'id' | 'exam_date' | 'start_time' | 'end_time'>;
+
+// 'HH:MM' or 'HH:MM:SS' to minutes past midnight
+export function timeToMinutes(time: string) {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+export function examsOverlap(a: ExamSlot, b: ExamSlot) {
+  return a.exam_date === b.exam_date
+    && timeToMinutes(a.start_time) < timeToMinutes(b.end_time)
+    && timeToMinutes(b.start_time) < timeToMinutes(a.end_time);
+}
+
+/**
+ * The exam plus every other exam whose time slot overlaps it, directly or
+ * through a chain of overlaps, ordered by start time.
+ */
+export function findSessionExams<T extends ExamSlot>(exam: T, exams: T[]): T[] {
+  const session = [exam];
+
+  for (let i = 0; i < session.length; i++) {
+    for (const other of exams) {
+      if (!session.some(e => e.id === other.id) && examsOverlap(session[i], other)) {
+        session.push(other);
+      }
+    }
+  }
+
+  return session.sort((a, b) => timeToMinutes(a.start_time) - timeToMinutes(b.start_time));
+}
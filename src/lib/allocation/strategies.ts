@@ -0,0 +1,76 @@
+import type { AllocationStudent, MixStrategy } from './types';
+
+export const MIX_STRATEGIES: MixStrategy[] = ['alternate', 'block', 'random'];
+
+export function normalizeStrategy(strategy: string): MixStrategy {
+  return (MIX_STRATEGIES as string[]).includes(strategy) ? (strategy as MixStrategy) : 'alternate';
+}
+
+// Year/section, qualified by exam when several exams share the rooms
+export function groupKey(student: AllocationStudent & { exam_id?: string }) {
+  const key = `${student.year}-${student.section}`;
+  return student.exam_id ? `${student.exam_id}:${key}` : key;
+}
+
+export function groupStudents<T extends AllocationStudent>(students: T[], keyOf: (student: T) => string = groupKey) {
+  return students.reduce((acc, student) => {
+    const key = keyOf(student);
+    if (!acc[key]) acc[key] = [];
+    acc[key].push(student);
+    return acc;
+  }, {} as Record<string, T[]>);
+}
+
+// Round-robin across year/section groups: A1, B1, C1, A2, B2, C2, ...
+export function alternateByGroup<T extends AllocationStudent>(students: T[]) {
+  const groups = Object.values(groupStudents(students));
+  const result: T[] = [];
+  const maxLength = Math.max(0, ...groups.map(g => g.length));
+
+  for (let i = 0; i < maxLength; i++) {
+    for (const group of groups) {
+      if (group[i]) result.push(group[i]);
+    }
+  }
+
+  return result;
+}
+
+// Fisher-Yates shuffle; `random` must return a float in [0, 1)
+export function shuffle<T>(items: T[], random: () => number) {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// Code-point order, unlike `localeCompare`, is the same in every browser and locale
+function compareText(a: string, b: string) {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export function compareStudents(a: AllocationStudent, b: AllocationStudent) {
+  return compareText(a.year, b.year)
+    || compareText(a.section, b.section)
+    || compareText(a.roll_number, b.roll_number)
+    || compareText(a.id, b.id);
+}
+
+export function orderStudents<T extends AllocationStudent>(
+  students: T[],
+  strategy: MixStrategy,
+  random: () => number
+) {
+  const sorted = [...students].sort(compareStudents);
+
+  switch (strategy) {
+    case 'alternate':
+      return alternateByGroup(sorted);
+    case 'random':
+      return shuffle(sorted, random);
+    default:
+      return sorted;
+  }
+}
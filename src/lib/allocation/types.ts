@@ -0,0 +1,140 @@
+import type { Accommodation } from './accommodations';
+import type { AdjacencyOptions, AdjacencyViolation } from './adjacency';
+import type { CapacityProfile } from './capacity';
+import type { ExcludedStudent } from './eligibility';
+import type { FillOptions } from './fill';
+import type { SeatRef } from './grid';
+import type { SeatingHistory, SeatingRepeats } from './history';
+
+export type MixStrategy = 'alternate' | 'block' | 'random';
+
+export type CandidateKind = 'arrear' | 'supplementary';
+
+export interface AllocationStudent {
+  id: string;
+  roll_number: string;
+  name: string;
+  year: string;
+  section: string;
+  department: string;
+  // Set for students added to the exam individually rather than by year
+  candidate_kind?: CandidateKind | null;
+  // Seating needs such as a ground-floor room or a scribe; none when omitted
+  accommodation?: Accommodation | null;
+}
+
+// A student sitting one particular exam of a session
+export interface Candidate extends AllocationStudent {
+  exam_id: string;
+}
+
+export interface AllocationClassroom {
+  id: string;
+  room_number: string;
+  building: string | null;
+  floor?: number | null;
+  total_benches: number;
+  benches_per_row: number;
+  students_per_bench: number;
+  // Raw `classrooms.layout`; read it through `resolveLayout`
+  layout?: unknown;
+  // Exam seating density; every seat is used when omitted
+  capacity?: CapacityProfile;
+}
+
+export interface AllocationExam {
+  id: string;
+  subject: string;
+  exam_date: string;
+  start_time: string;
+  end_time: string;
+  years: string[];
+  exam_type?: string | null;
+  // Catalogue subject; its enrolled students sit the exam instead of whole years
+  subject_id?: string | null;
+}
+
+// Mirrors a row of `seating_combinations`
+export interface SeatingRule {
+  allowed_years: string[];
+  allowed_sections: string[];
+  mix_strategy: string;
+}
+
+// Mirrors an insertable row of `seating_allocations`
+export interface SeatAssignment {
+  exam_id: string;
+  classroom_id: string;
+  student_id: string;
+  bench_number: number;
+  seat_position: number;
+  // Locked seats survive regeneration
+  is_locked?: boolean;
+}
+
+interface AllocationOptions {
+  classrooms: AllocationClassroom[];
+  rule: SeatingRule;
+  // Seats already taken by other exams in an overlapping time slot
+  occupied?: SeatRef[];
+  // Seats taken by exams that start before students with extra time finish;
+  // only those students keep off them
+  extraTimeOccupied?: SeatRef[];
+  // Assignments kept exactly as they are, e.g. locked seats
+  fixed?: SeatAssignment[];
+  // Omit to fill seats strictly in strategy order
+  adjacency?: AdjacencyOptions;
+  // Which rooms to fill and how full; rooms fill in the order given when omitted
+  fill?: FillOptions;
+  // Earlier papers of the series; repeat neighbours and rooms are avoided when given
+  history?: SeatingHistory;
+  // Drives every random step; a fresh one is generated when omitted
+  seed?: number;
+}
+
+export interface AllocationInput extends AllocationOptions {
+  exam: AllocationExam;
+  students: AllocationStudent[];
+}
+
+export interface ExamCandidates {
+  exam: AllocationExam;
+  students: AllocationStudent[];
+}
+
+// Several exams sharing the same time slot and rooms
+export interface SessionAllocationInput extends AllocationOptions {
+  exams: ExamCandidates[];
+}
+
+export interface ExamAllocationCount {
+  total: number;
+  allocated: number;
+}
+
+export interface AllocationDiagnostics {
+  strategy: MixStrategy;
+  // Re-running with this seed and the same inputs reproduces the plan
+  seed: number;
+  totalStudents: number;
+  allocatedCount: number;
+  // Free seats in the given classrooms, after `occupied` and rooms given to one student
+  totalCapacity: number;
+  shortfall: number;
+  roomsUsed: number;
+  unplaced: Candidate[];
+  // Students the seating combination does not allow, with the reason
+  excluded: ExcludedStudent[];
+  // Seats where the adjacency rule had to be relaxed
+  violations: AdjacencyViolation[];
+  // Students whose accommodation no free seat met; they are seated like everyone else
+  unmetAccommodations: Candidate[];
+  // Neighbours and rooms repeated from earlier papers; null without a history
+  repeats: SeatingRepeats | null;
+  perExam: Record<string, ExamAllocationCount>;
+}
+
+export interface AllocationPlan {
+  assignments: SeatAssignment[];
+  diagnostics: AllocationDiagnostics;
+}
@@ -0,0 +1,245 @@
+import { findSessionExams, findStudentClashes } from "@/lib/allocation";
+import type { AdjacencyOptions, AllocationClassroom, AllocationExam, FillOptions, SeatingRule } from "@/lib/allocation";
+import {
+  fetchExamStudents,
+  fetchExtraTimeSeats,
+  fetchOccupiedSeats,
+  fetchSeatingAllocations,
+  fetchSeatingHistory,
+  replaceSeatingAllocations
+} from "@/lib/allocation-data";
+import { effectiveAllocationStatus, hasExamStarted, setAllocationStatus } from "@/lib/allocation-status";
+import { fetchCapacityOverrides, withCapacityProfiles } from "@/lib/capacity-profiles";
+import type { CapacityOverrideRow, CapacityProfileRow } from "@/lib/capacity-profiles";
+import { buildPlanParameters, recordSeatingPlan, reportPlanQuality, runPlan } from "@/lib/seating-plans";
+import { adjacencyFromSettings, fetchSystemSettings } from "@/lib/system-settings";
+
+// Every exam on the days from `from` to `to`, or every paper of one series
+export type BatchScope =
+  | { kind: 'dates'; from: string; to: string }
+  | { kind: 'series'; examType: string };
+
+export type BatchExam = AllocationExam & { status: string; allocation_status?: string };
+
+export type BatchOutcome = 'allocated' | 'skipped' | 'failed';
+
+export interface BatchExamResult {
+  exam: BatchExam;
+  outcome: BatchOutcome;
+  message: string;
+  seated: number;
+  total: number;
+}
+
+export interface BatchOptions {
+  rule: SeatingRule;
+  combinationId: string;
+  classrooms: AllocationClassroom[];
+  profiles: CapacityProfileRow[];
+  fill: FillOptions;
+  avoidRepeats: boolean;
+  // Leave exams that already have seating as they are
+  skipSeated: boolean;
+  publish: boolean;
+  performedBy: string;
+}
+
+export const BATCH_OUTCOME_LABELS: Record<BatchOutcome, string> = {
+  allocated: 'Allocated',
+  skipped: 'Skipped',
+  failed: 'Failed'
+};
+
+const startOf = (exam: AllocationExam) => `${exam.exam_date}T${exam.start_time}`;
+
+// Scheduled exams in scope, soonest first
+export function examsInScope<T extends BatchExam>(exams: T[], scope: BatchScope): T[] {
+  return exams
+    .filter(exam => exam.status === 'scheduled')
+    .filter(exam => scope.kind === 'series'
+      ? exam.exam_type === scope.examType
+      : exam.exam_date >= scope.from && exam.exam_date <= scope.to)
+    .sort((a, b) => startOf(a).localeCompare(startOf(b)));
+}
+
+// Exams sharing a time slot, as one group each, in the order of `exams`
+export function groupSessions<T extends BatchExam>(exams: T[]): T[][] {
+  const seen = new Set<string>();
+  const sessions: T[][] = [];
+
+  for (const exam of exams) {
+    if (seen.has(exam.id)) continue;
+    const session = findSessionExams(exam, exams);
+    session.forEach(e => seen.add(e.id));
+    sessions.push(session);
+  }
+
+  return sessions;
+}
+
+/**
+ * Allocates one time slot's exams together and saves the result. Never
+ * throws: every exam of the session comes back with an outcome and a reason.
+ */
+async function allocateBatchSession(
+  session: BatchExam[],
+  options: BatchOptions,
+  { adjacency, overrides, seriesWindowDays }: {
+    adjacency: AdjacencyOptions | null;
+    overrides: CapacityOverrideRow[];
+    seriesWindowDays: number;
+  }
+): Promise<BatchExamResult[]> {
+  const results: BatchExamResult[] = [];
+  const result = (exam: BatchExam, outcome: BatchOutcome, message: string, seated = 0, total = 0) =>
+    results.push({ exam, outcome, message, seated, total });
+
+  try {
+    const current = await fetchSeatingAllocations(session.map(e => e.id));
+    const candidates = session.filter(exam => {
+      if (effectiveAllocationStatus(exam) === 'frozen') {
+        result(exam, 'skipped', 'Frozen; its seating only changes through a logged override');
+      } else if (hasExamStarted(exam)) {
+        result(exam, 'skipped', 'Already started');
+      } else if (options.skipSeated && current.some(a => a.exam_id === exam.id)) {
+        result(exam, 'skipped', 'Already has seating');
+      } else {
+        return true;
+      }
+      return false;
+    });
+
+    const examStudents = await Promise.all(
+      candidates.map(async (exam) => ({ exam, students: await fetchExamStudents(exam) }))
+    );
+    const toAllocate = examStudents.filter(({ exam, students }) => {
+      if (students.length === 0) result(exam, 'failed', 'No eligible students');
+      return students.length > 0;
+    });
+
+    if (toAllocate.length === 0) return results;
+
+    const exams = toAllocate.map(({ exam }) => exam);
+    const examIds = exams.map(e => e.id);
+    const [occupied, extraTimeOccupied, history] = await Promise.all([
+      fetchOccupiedSeats(exams),
+      fetchExtraTimeSeats(toAllocate),
+      options.avoidRepeats
+        ? fetchSeatingHistory(exams, toAllocate.flatMap(({ students }) => students.map(s => s.id)), seriesWindowDays)
+        : null
+    ]);
+
+    const parameters = buildPlanParameters({
+      exams: toAllocate,
+      classrooms: withCapacityProfiles(options.classrooms, exams, options.profiles, overrides),
+      rule: options.rule,
+      occupied,
+      extraTimeOccupied,
+      fixed: current.filter(a => a.is_locked && examIds.includes(a.exam_id)),
+      adjacency,
+      fill: options.fill,
+      history,
+      incremental: false
+    });
+    const plan = runPlan(parameters);
+    const { diagnostics } = plan;
+
+    if (diagnostics.totalStudents === 0) {
+      exams.forEach(exam => result(exam, 'failed', 'Every student is outside the seating combination'));
+      return results;
+    }
+
+    if (diagnostics.shortfall > 0) {
+      exams.forEach(exam => result(
+        exam,
+        'failed',
+        `Need ${diagnostics.totalStudents} seats in this slot but only ${diagnostics.totalCapacity} are free`,
+        0,
+        diagnostics.perExam[exam.id]?.total ?? 0
+      ));
+      return results;
+    }
+
+    // Seating replaced without publishing goes back to draft first, as in
+    // the seat allocation page, so students never see seats nobody reviewed
+    const toUnpublish = options.publish ? [] : exams.filter(e => effectiveAllocationStatus(e) === 'published').map(e => e.id);
+    if (toUnpublish.length > 0) await setAllocationStatus(toUnpublish, 'draft');
+
+    try {
+      await replaceSeatingAllocations(examIds, plan.assignments);
+    } catch (error) {
+      // The old seating is untouched, so students may see it again
+      if (toUnpublish.length > 0) await setAllocationStatus(toUnpublish, 'published');
+      throw error;
+    }
+
+    const toPublish = options.publish ? exams.filter(e => effectiveAllocationStatus(e) === 'draft').map(e => e.id) : [];
+    if (toPublish.length > 0) await setAllocationStatus(toPublish, 'published');
+
+    let recorded = true;
+    try {
+      await recordSeatingPlan(plan, parameters, options.combinationId, options.performedBy);
+    } catch (error) {
+      console.error('Error recording batch seating plan:', error);
+      recorded = false;
+    }
+
+    const quality = reportPlanQuality(plan, parameters);
+    const clashes = findStudentClashes(toAllocate);
+
+    for (const exam of exams) {
+      const counts = diagnostics.perExam[exam.id];
+      const notes = [
+        exams.length > 1 && `seated with ${exams.length - 1} other exam(s)`,
+        toUnpublish.includes(exam.id) && 'returned to draft for review',
+        `${quality.rooms.length} room(s) ${quality.fillPercent}% full`,
+        diagnostics.violations.length > 0 && `neighbour rule relaxed at ${diagnostics.violations.length} seats`,
+        diagnostics.excluded.length > 0 && `${diagnostics.excluded.length} excluded by the combination`,
+        diagnostics.unmetAccommodations.length > 0 && `${diagnostics.unmetAccommodations.length} accommodations not met`,
+        clashes.length > 0 && `${clashes.length} timetable clashes`,
+        !recorded && 'plan version not recorded'
+      ].filter(Boolean);
+
+      result(exam, 'allocated', notes.join(', '), counts?.allocated ?? 0, counts?.total ?? 0);
+    }
+  } catch (error) {
+    console.error('Error allocating batch session:', error);
+    const reported = new Set(results.map(r => r.exam.id));
+    session
+      .filter(exam => !reported.has(exam.id))
+      .forEach(exam => result(exam, 'failed', error instanceof Error ? error.message : 'Allocation failed'));
+  }
+
+  return results;
+}
+
+/**
+ * Allocates every exam of `exams` slot by slot, soonest first, saving each
+ * slot before planning the next, so later slots see the seats and series
+ * history of earlier ones. `onSession` is called after every slot with its
+ * results; a failed slot does not stop the run.
+ */
+export async function runBatchAllocation(
+  exams: BatchExam[],
+  options: BatchOptions,
+  onSession: (results: BatchExamResult[], done: number, total: number) => void
+): Promise<BatchExamResult[]> {
+  const sessions = groupSessions(exams);
+  const [settings, overrides] = await Promise.all([
+    fetchSystemSettings(),
+    fetchCapacityOverrides(exams.map(e => e.id))
+  ]);
+  const all: BatchExamResult[] = [];
+
+  for (const [index, session] of sessions.entries()) {
+    const results = await allocateBatchSession(session, options, {
+      adjacency: adjacencyFromSettings(settings),
+      overrides,
+      seriesWindowDays: settings.series_window_days
+    });
+    all.push(...results);
+    onSession(results, index + 1, sessions.length);
+  }
+
+  return all;
+}
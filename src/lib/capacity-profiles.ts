@@ -0,0 +1,99 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { FULL_CAPACITY, strictestProfile } from "@/lib/allocation";
+import type { AllocationClassroom, AllocationExam, CapacityProfile } from "@/lib/allocation";
+
+export type CapacityProfileRow = Tables<'exam_capacity_profiles'>;
+export type CapacityOverrideRow = Tables<'exam_capacity_overrides'>;
+
+const toProfile = ({ seats_per_bench, checkerboard }: CapacityProfile): CapacityProfile => ({ seats_per_bench, checkerboard });
+
+export async function fetchCapacityProfiles(): Promise<CapacityProfileRow[]> {
+  const { data, error } = await supabase
+    .from('exam_capacity_profiles')
+    .select('*')
+    .order('exam_type');
+
+  if (error) throw error;
+  return data || [];
+}
+
+// A null profile removes the exam type's profile, so its exams use every seat
+export async function saveCapacityProfile(examType: string, profile: CapacityProfile | null) {
+  const { error } = profile
+    ? await supabase
+        .from('exam_capacity_profiles')
+        .upsert({ exam_type: examType, ...toProfile(profile) }, { onConflict: 'exam_type' })
+    : await supabase
+        .from('exam_capacity_profiles')
+        .delete()
+        .eq('exam_type', examType);
+
+  if (error) throw error;
+}
+
+export async function fetchCapacityOverrides(examIds: string[]): Promise<CapacityOverrideRow[]> {
+  const { data, error } = await supabase
+    .from('exam_capacity_overrides')
+    .select('*')
+    .in('exam_id', examIds);
+
+  if (error) throw error;
+  return data || [];
+}
+
+// `classroomId` null overrides every room of the exam; a null profile removes the override
+export async function saveCapacityOverride(examId: string, classroomId: string | null, profile: CapacityProfile | null) {
+  if (profile) {
+    const { error } = await supabase
+      .from('exam_capacity_overrides')
+      .upsert({ exam_id: examId, classroom_id: classroomId, ...toProfile(profile) }, { onConflict: 'exam_id,classroom_id' });
+
+    if (error) throw error;
+    return;
+  }
+
+  let query = supabase
+    .from('exam_capacity_overrides')
+    .delete()
+    .eq('exam_id', examId);
+
+  query = classroomId ? query.eq('classroom_id', classroomId) : query.is('classroom_id', null);
+
+  const { error } = await query;
+  if (error) throw error;
+}
+
+/**
+ * The profile an exam uses in a room: the room override, else the exam-wide
+ * override, else the exam type's profile, else every seat.
+ */
+export function profileForRoom(
+  exam: AllocationExam,
+  classroomId: string,
+  profiles: CapacityProfileRow[],
+  overrides: CapacityOverrideRow[]
+): CapacityProfile {
+  const examOverrides = overrides.filter(o => o.exam_id === exam.id);
+  const match =
+    examOverrides.find(o => o.classroom_id === classroomId)
+    ?? examOverrides.find(o => o.classroom_id === null)
+    ?? profiles.find(p => p.exam_type === exam.exam_type);
+
+  return match ? toProfile(match) : FULL_CAPACITY;
+}
+
+// Exams sharing a room get the strictest of their profiles
+export function withCapacityProfiles<T extends AllocationClassroom>(
+  classrooms: T[],
+  exams: AllocationExam[],
+  profiles: CapacityProfileRow[],
+  overrides: CapacityOverrideRow[]
+): T[] {
+  return classrooms.map(classroom => ({
+    ...classroom,
+    capacity: exams.length > 0
+      ? strictestProfile(exams.map(exam => profileForRoom(exam, classroom.id, profiles, overrides)))
+      : FULL_CAPACITY
+  }));
+}
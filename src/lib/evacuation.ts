@@ -0,0 +1,221 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { fetchAccommodations, toAccommodation } from "@/lib/accommodations";
+import { examsOverlap, validatePlan } from "@/lib/allocation";
+import type {
+  AllocationClassroom,
+  AllocationExam,
+  AllocationPlan,
+  AllocationStudent,
+  FillOptions,
+  SeatAssignment
+} from "@/lib/allocation";
+import { fetchExtraTimeSeats, fetchOccupiedSeats, replaceSeatingAllocations } from "@/lib/allocation-data";
+import { effectiveAllocationStatus, overrideFrozenSeating } from "@/lib/allocation-status";
+import { fetchCapacityOverrides, fetchCapacityProfiles, withCapacityProfiles } from "@/lib/capacity-profiles";
+import { fetchAllPages } from "@/lib/queries";
+import { buildPlanParameters, fetchLatestSeatingPlan, recordSeatingPlan, runPlan } from "@/lib/seating-plans";
+import type { PlanParameters } from "@/lib/seating-plans";
+import { adjacencyFromSettings, fetchSystemSettings } from "@/lib/system-settings";
+
+export type EvacuatedRoom = Pick<Tables<'classrooms'>, 'id' | 'room_number' | 'building' | 'floor'>;
+
+export type BookedExam = AllocationExam & { allocation_status: string };
+
+// An upcoming exam with students seated in the room being taken out of use
+export interface RoomBooking {
+  exam: BookedExam;
+  students: AllocationStudent[];
+}
+
+export interface SeatChange {
+  student: AllocationStudent;
+  before: SeatAssignment;
+  // Null when no free seat was left for the student
+  after: SeatAssignment | null;
+}
+
+export interface ExamEvacuation {
+  exam: BookedExam;
+  parameters: PlanParameters;
+  plan: AllocationPlan;
+  changes: SeatChange[];
+}
+
+export interface RoomEvacuation {
+  room: EvacuatedRoom;
+  exams: ExamEvacuation[];
+  // Students for whom no seat was found; nothing is moved while any remain
+  unplaced: SeatChange[];
+}
+
+const STUDENT_COLUMNS = 'id, roll_number, name, year, section, department';
+
+// Upcoming exams seating students in `classroomId`, soonest first
+export async function fetchRoomBookings(classroomId: string): Promise<RoomBooking[]> {
+  const rows = await fetchAllPages((from, to) => supabase
+    .from('seating_allocations')
+    .select(`
+      exams!inner(id, subject, exam_type, subject_id, exam_date, start_time, end_time, years, status, allocation_status),
+      students!inner(${STUDENT_COLUMNS})
+    `)
+    .eq('classroom_id', classroomId)
+    .gte('exams.exam_date', new Date().toISOString().split('T')[0])
+    .neq('exams.status', 'cancelled')
+    .order('id')
+    .range(from, to));
+
+  const bookings = new Map<string, RoomBooking>();
+  for (const { exams: { status: _status, ...exam }, students } of rows) {
+    const booking = bookings.get(exam.id) ?? { exam, students: [] };
+    booking.students.push(students);
+    bookings.set(exam.id, booking);
+  }
+
+  return [...bookings.values()].sort((a, b) =>
+    `${a.exam.exam_date}T${a.exam.start_time}`.localeCompare(`${b.exam.exam_date}T${b.exam.start_time}`)
+  );
+}
+
+/**
+ * Seats held in the room for upcoming exams that `edited`, the room as it
+ * would be saved, no longer has: benches removed or disabled, or seat
+ * positions past a smaller bench. The database only checks seats when they
+ * are written, so these would be left pointing at nothing.
+ */
+export async function fetchSeatsLostByEdit(edited: AllocationClassroom) {
+  const rows = await fetchAllPages((from, to) => supabase
+    .from('seating_allocations')
+    .select('exam_id, classroom_id, student_id, bench_number, seat_position, exams!inner(subject, exam_date, status)')
+    .eq('classroom_id', edited.id)
+    .gte('exams.exam_date', new Date().toISOString().split('T')[0])
+    .neq('exams.status', 'cancelled')
+    .order('id')
+    .range(from, to));
+
+  const lost = new Set(
+    validatePlan(rows, [edited]).filter(issue => issue.kind === 'seat-out-of-range').map(issue => issue.seat)
+  );
+  return rows
+    .filter(row => lost.has(row))
+    .map(({ exams: { subject }, ...seat }) => ({ ...seat, subject }));
+}
+
+/**
+ * Finds new seats for everyone in `room` across its upcoming exams. Other
+ * seats of each exam stay where they are, and rooms in the same building and
+ * on the same floor are filled first. Exams are planned soonest first, so
+ * students moved for one exam hold their new seats against overlapping ones.
+ */
+export async function planRoomEvacuation(room: EvacuatedRoom, bookings: RoomBooking[]): Promise<RoomEvacuation> {
+  const [roomsResult, profiles, overrides, settings, accommodations] = await Promise.all([
+    supabase
+      .from('classrooms')
+      .select('*')
+      .eq('is_active', true)
+      .neq('id', room.id)
+      .order('room_number'),
+    fetchCapacityProfiles(),
+    fetchCapacityOverrides(bookings.map(b => b.exam.id)),
+    fetchSystemSettings(),
+    fetchAccommodations()
+  ]);
+
+  if (roomsResult.error) throw roomsResult.error;
+
+  const fill: FillOptions = { policy: 'preferred', building: room.building || null, floor: room.floor };
+  const exams: ExamEvacuation[] = [];
+
+  for (const { exam } of bookings) {
+    // Every seat of the exam is written back, so none may be left unread
+    const [rows, occupied, latest] = await Promise.all([
+      fetchAllPages((from, to) => supabase
+        .from('seating_allocations')
+        .select(`exam_id, classroom_id, student_id, bench_number, seat_position, is_locked, students!inner(${STUDENT_COLUMNS})`)
+        .eq('exam_id', exam.id)
+        .order('id')
+        .range(from, to)),
+      fetchOccupiedSeats([exam]),
+      fetchLatestSeatingPlan(exam.id)
+    ]);
+
+    const current = rows.map(({ students: _student, ...assignment }) => assignment);
+    const studentById = new Map(rows.map(row => {
+      const accommodation = accommodations.get(row.student_id);
+      return [row.student_id, accommodation ? { ...row.students, accommodation: toAccommodation(accommodation) } : row.students];
+    }));
+    // New seats already given to students of overlapping exams moved out of the room
+    const movedIn = exams
+      .filter(e => examsOverlap(e.exam, exam))
+      .flatMap(e => e.changes.flatMap(c => c.after ? [c.after] : []));
+    const examStudents = [{ exam, students: [...studentById.values()] }];
+    const extraTimeOccupied = await fetchExtraTimeSeats(examStudents);
+
+    const parameters = buildPlanParameters({
+      exams: examStudents,
+      classrooms: withCapacityProfiles(roomsResult.data || [], [exam], profiles, overrides),
+      // Everyone being moved already holds a seat, so no one is filtered out
+      rule: { allowed_years: [], allowed_sections: [], mix_strategy: latest?.parameters.rule.mix_strategy ?? 'alternate' },
+      occupied: [...occupied, ...movedIn],
+      extraTimeOccupied,
+      fixed: current.filter(a => a.classroom_id !== room.id),
+      adjacency: adjacencyFromSettings(settings),
+      fill,
+      incremental: true
+    });
+    const plan = runPlan(parameters);
+    const newSeats = new Map(plan.assignments.map(a => [a.student_id, a]));
+
+    exams.push({
+      exam,
+      parameters,
+      plan,
+      changes: current
+        .filter(a => a.classroom_id === room.id)
+        .flatMap(before => {
+          const student = studentById.get(before.student_id);
+          return student ? [{ student, before, after: newSeats.get(before.student_id) ?? null }] : [];
+        })
+    });
+  }
+
+  return {
+    room,
+    exams,
+    unplaced: exams.flatMap(e => e.changes.filter(c => !c.after))
+  };
+}
+
+/**
+ * Writes the new seating of every exam in one transaction, so a failure leaves
+ * the room as it was rather than half emptied, then records each exam's plan
+ * as a seating plan version. Frozen exams need `reason`, which is logged as an
+ * override.
+ */
+export async function applyRoomEvacuation(evacuation: RoomEvacuation, performedBy: string, reason: string | null) {
+  if (evacuation.unplaced.length > 0) {
+    throw new Error(`${evacuation.unplaced.length} students have no seat to move to`);
+  }
+
+  const frozen = evacuation.exams.filter(({ exam }) => effectiveAllocationStatus(exam) === 'frozen');
+  if (frozen.length > 0 && !reason) {
+    throw new Error(`${frozen.map(({ exam }) => exam.subject).join(', ')} is frozen; a reason is needed to move its students`);
+  }
+
+  const examIds = evacuation.exams.map(({ exam }) => exam.id);
+  const assignments = evacuation.exams.flatMap(({ plan }) => plan.assignments);
+
+  if (frozen.length > 0) {
+    await overrideFrozenSeating(examIds, assignments, reason, performedBy);
+  } else {
+    await replaceSeatingAllocations(examIds, assignments);
+  }
+
+  for (const { parameters, plan } of evacuation.exams) {
+    try {
+      await recordSeatingPlan(plan, parameters, null, performedBy);
+    } catch (error) {
+      console.error('Error recording evacuation plan:', error);
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { AllocationStudent, CandidateKind } from "@/lib/allocation";
+import { batches } from "@/lib/queries";
+
+export interface ExamCandidate {
+  id: string;
+  exam_id: string;
+  kind: CandidateKind;
+  student: AllocationStudent;
+}
+
+export interface AddCandidatesResult {
+  added: number;
+  // Students who were candidates of the exam already
+  existing: number;
+  errors: string[];
+}
+
+export async function fetchExamCandidates(examIds: string[]): Promise<ExamCandidate[]> {
+  const { data, error } = await supabase
+    .from('exam_candidates')
+    .select('id, exam_id, kind, students!inner(id, roll_number, name, year, section, department)')
+    .in('exam_id', examIds);
+
+  if (error) throw error;
+  return (data || [])
+    .map(({ id, exam_id, kind, students }) => ({
+      id,
+      exam_id,
+      kind: kind as CandidateKind,
+      student: { ...students, candidate_kind: kind as CandidateKind }
+    }))
+    .sort((a, b) => a.student.roll_number.localeCompare(b.student.roll_number));
+}
+
+// Student id -> kind, for marking candidates on charts and sheets
+export async function fetchCandidateKinds(examId: string) {
+  const candidates = await fetchExamCandidates([examId]);
+  return new Map(candidates.map(c => [c.student.id, c.kind]));
+}
+
+/**
+ * Adds students to an exam by roll number. Unknown roll numbers are reported;
+ * students already added keep their existing entry.
+ */
+export async function addExamCandidates(
+  examId: string,
+  rollNumbers: string[],
+  kind: CandidateKind
+): Promise<AddCandidatesResult> {
+  const unique = [...new Set(rollNumbers.map(r => r.trim()).filter(Boolean))];
+  const studentIds = new Map<string, string>();
+
+  for (const batch of batches(unique)) {
+    const { data, error } = await supabase
+      .from('students')
+      .select('id, roll_number')
+      .in('roll_number', batch);
+
+    if (error) throw error;
+    for (const s of data || []) studentIds.set(s.roll_number, s.id);
+  }
+
+  const errors = unique
+    .filter(roll => !studentIds.has(roll))
+    .map(roll => `No student with roll number "${roll}"`);
+
+  // Duplicates are skipped, so only the rows inserted come back
+  let added = 0;
+  for (const batch of batches([...studentIds.values()])) {
+    const { data, error } = await supabase
+      .from('exam_candidates')
+      .upsert(
+        batch.map(student_id => ({ exam_id: examId, student_id, kind })),
+        { onConflict: 'exam_id,student_id', ignoreDuplicates: true }
+      )
+      .select('id');
+
+    if (error) throw error;
+    added += data?.length ?? 0;
+  }
+
+  return { added, existing: studentIds.size - added, errors };
+}
+
+export async function removeExamCandidate(id: string) {
+  const { error } = await supabase
+    .from('exam_candidates')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
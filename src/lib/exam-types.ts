@@ -0,0 +1 @@
+export const EXAM_TYPES = ['CAIT-1', 'CAIT-2', 'FINAL SEM'];
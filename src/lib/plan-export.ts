@@ -0,0 +1,103 @@
+import * as XLSX from 'xlsx';
+import { EXCLUSION_REASON_LABELS, describeAccommodation, seatLabel } from "@/lib/allocation";
+import type { AllocationClassroom, AllocationPlan, AllocationStudent, PlanQualityReport } from "@/lib/allocation";
+
+export interface PlanExportContext {
+  exams: { id: string; subject: string; exam_date: string }[];
+  students: AllocationStudent[];
+  classrooms: AllocationClassroom[];
+}
+
+// "1: 20, 2: 18" for a per-room tally
+const formatTally = (tally: Record<string, number>) =>
+  Object.entries(tally)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, count]) => `${key}: ${count}`)
+    .join(', ');
+
+export function qualitySummaryRows(report: PlanQualityReport): (string | number)[][] {
+  return [
+    ['Strategy', report.strategy],
+    ['Seed', report.seed],
+    ['Students', report.totalStudents],
+    ['Seated', report.allocatedCount],
+    ['Rooms used', report.rooms.length],
+    ['Seats available in rooms used', report.available],
+    ['Empty seats in rooms used', report.emptySeats],
+    ['Fill %', report.fillPercent],
+    [`Same ${report.groupBy} neighbours, side by side`, report.sameGroupPairs.side],
+    [`Same ${report.groupBy} neighbours, front and back`, report.sameGroupPairs.front],
+    [`Same ${report.groupBy} neighbours, diagonal`, report.sameGroupPairs.diagonal],
+    ['Excluded by the combination', report.excluded.length],
+    ['Unplaced', report.unplaced.length],
+    ['Unmet accommodations', report.unmetAccommodations.length],
+    ...(report.repeats
+      ? [['Repeat neighbour pairs', report.repeats.pairs], ['Students in a repeat room', report.repeats.rooms]]
+      : [])
+  ];
+}
+
+/**
+ * Downloads the plan and its quality report as one workbook: a summary, the
+ * per-room breakdown, every seat, and the students left out with reasons.
+ */
+export function exportPlanWorkbook(plan: AllocationPlan, report: PlanQualityReport, { exams, students, classrooms }: PlanExportContext) {
+  const studentById = new Map(students.map(s => [s.id, s]));
+  const classroomById = new Map(classrooms.map(c => [c.id, c]));
+  const subjectById = new Map(exams.map(e => [e.id, e.subject]));
+
+  const sheets: [string, (string | number)[][]][] = [
+    ['Summary', [['Metric', 'Value'], ['Exams', exams.map(e => e.subject).join(', ')], ...qualitySummaryRows(report)]],
+    ['Rooms', [
+      ['Room', 'Building', 'Available', 'Seated', 'Empty', 'Fill %', 'Years', 'Sections', 'Departments', 'Same-group neighbours'],
+      ...report.rooms.map(room => [
+        room.room_number,
+        room.building ?? '',
+        room.available,
+        room.seated,
+        room.empty,
+        room.fillPercent,
+        formatTally(room.years),
+        formatTally(room.sections),
+        formatTally(room.departments),
+        room.sameGroupPairs
+      ])
+    ]],
+    ['Seating', [
+      ['Exam', 'Room', 'Bench', 'Seat', 'Roll Number', 'Name', 'Year', 'Section', 'Department', 'Accommodations'],
+      ...plan.assignments.map(a => {
+        const student = studentById.get(a.student_id);
+        const room = classroomById.get(a.classroom_id);
+        return [
+          subjectById.get(a.exam_id) ?? a.exam_id,
+          room?.room_number ?? a.classroom_id,
+          a.bench_number,
+          seatLabel(a.seat_position, room?.students_per_bench),
+          student?.roll_number ?? a.student_id,
+          student?.name ?? '',
+          student?.year ?? '',
+          student?.section ?? '',
+          student?.department ?? '',
+          student?.accommodation ? describeAccommodation(student.accommodation).join('; ') : ''
+        ];
+      })
+    ]],
+    ['Left Out', [
+      ['Exam', 'Roll Number', 'Name', 'Year', 'Section', 'Reason', 'Detail'],
+      ...report.excluded.map(({ student, reason, detail }) => [
+        '', student.roll_number, student.name, student.year, student.section, EXCLUSION_REASON_LABELS[reason], detail
+      ]),
+      ...report.unplaced.map(({ student, reason }) => [
+        subjectById.get(student.exam_id) ?? '', student.roll_number, student.name, student.year, student.section, 'Unplaced', reason
+      ])
+    ]]
+  ];
+
+  const workbook = XLSX.utils.book_new();
+  for (const [name, rows] of sheets) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name);
+  }
+
+  const first = exams[0];
+  XLSX.writeFile(workbook, `seating_${first?.subject ?? 'plan'}_${first?.exam_date ?? ''}.xlsx`.replace(/\s+/g, '_'));
+}
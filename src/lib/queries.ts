@@ -0,0 +1,28 @@
+// PostgREST caps every response at this many rows
+export const PAGE_SIZE = 1000;
+
+/**
+ * Reads every row of a query, a page at a time, so large exams are not cut
+ * off at the row cap. `page` builds the query for one inclusive range; it
+ * must be ordered, or pages may overlap or skip rows.
+ */
+export async function fetchAllPages<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+// Keeps `.in()` filters well under URL length limits
+export const LOOKUP_BATCH = 200;
+
+export function batches<T>(items: T[], size = LOOKUP_BATCH) {
+  return Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+}
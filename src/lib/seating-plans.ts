@@ -0,0 +1,216 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { allocateSession, buildQualityReport, fingerprintPlan, FULL_CAPACITY, parseLayout } from "@/lib/allocation";
+import type {
+  AdjacencyOptions,
+  AllocationClassroom,
+  AllocationPlan,
+  ExamCandidates,
+  FillOptions,
+  PlanQualityReport,
+  SeatAssignment,
+  SeatingHistory,
+  SeatingRule,
+  SeatRef
+} from "@/lib/allocation";
+import { fetchSeatingAllocations } from "@/lib/allocation-data";
+
+// Everything `allocateSession` was given apart from the seed
+export interface PlanParameters {
+  exams: ExamCandidates[];
+  classrooms: AllocationClassroom[];
+  rule: SeatingRule;
+  occupied: SeatRef[];
+  // Missing from plans recorded before extra time was checked against later exams
+  extraTimeOccupied?: SeatRef[];
+  fixed: SeatAssignment[];
+  adjacency: AdjacencyOptions | null;
+  // Missing from plans recorded before rooms could be picked and balanced
+  fill?: FillOptions;
+  // Earlier papers of the series; missing from plans recorded before repeats were avoided
+  history?: SeatingHistory | null;
+  // Only unplaced students were seated; the rest of the plan was kept
+  incremental: boolean;
+}
+
+export type SeatingPlanRecord = Omit<Tables<'seating_plans'>, 'parameters' | 'assignments'> & {
+  parameters: PlanParameters;
+  // The seats as saved; null for plans recorded before versions were kept
+  assignments: SeatAssignment[] | null;
+};
+
+export type SeatingPlanVersion = SeatingPlanRecord & {
+  combination_name: string | null;
+};
+
+/**
+ * Keeps only the fields the engine reads, so stored inputs stay small and
+ * never carry more student data (emails, passwords) than seating needs.
+ */
+export function buildPlanParameters(parameters: PlanParameters): PlanParameters {
+  return {
+    ...parameters,
+    exams: parameters.exams.map(({ exam, students }) => ({
+      exam: {
+        id: exam.id,
+        subject: exam.subject,
+        exam_date: exam.exam_date,
+        start_time: exam.start_time,
+        end_time: exam.end_time,
+        years: exam.years,
+        exam_type: exam.exam_type ?? null,
+        subject_id: exam.subject_id ?? null
+      },
+      students: students.map(({ id, roll_number, name, year, section, department, candidate_kind, accommodation }) => ({
+        id, roll_number, name, year, section, department, candidate_kind: candidate_kind ?? null,
+        accommodation: accommodation ?? null
+      }))
+    })),
+    classrooms: parameters.classrooms.map(c => ({
+      id: c.id,
+      room_number: c.room_number,
+      building: c.building,
+      floor: c.floor ?? null,
+      total_benches: c.total_benches,
+      benches_per_row: c.benches_per_row,
+      students_per_bench: c.students_per_bench,
+      layout: parseLayout(c.layout),
+      capacity: c.capacity ?? FULL_CAPACITY
+    })),
+    rule: {
+      allowed_years: parameters.rule.allowed_years,
+      allowed_sections: parameters.rule.allowed_sections,
+      mix_strategy: parameters.rule.mix_strategy
+    },
+    occupied: parameters.occupied.map(({ classroom_id, bench_number, seat_position }) => ({
+      classroom_id, bench_number, seat_position
+    })),
+    extraTimeOccupied: parameters.extraTimeOccupied?.map(({ classroom_id, bench_number, seat_position }) => ({
+      classroom_id, bench_number, seat_position
+    }))
+  };
+}
+
+export function runPlan(parameters: PlanParameters, seed?: number): AllocationPlan {
+  const { incremental: _incremental, adjacency, history, ...input } = parameters;
+  return allocateSession({ ...input, adjacency: adjacency ?? undefined, history: history ?? undefined, seed });
+}
+
+// Quality report over the rooms, students and taken seats the plan was made with
+export function reportPlanQuality(plan: AllocationPlan, parameters: PlanParameters): PlanQualityReport {
+  return buildQualityReport(plan, {
+    classrooms: parameters.classrooms,
+    students: parameters.exams.flatMap(({ students }) => students),
+    occupied: parameters.occupied,
+    adjacency: parameters.adjacency
+  });
+}
+
+// Stores the plan as the next version of its exams' seating
+export async function recordSeatingPlan(
+  plan: AllocationPlan,
+  parameters: PlanParameters,
+  combinationId: string | null,
+  createdBy: string
+) {
+  const { error } = await supabase
+    .from('seating_plans')
+    .insert({
+      exam_ids: parameters.exams.map(({ exam }) => exam.id),
+      combination_id: combinationId,
+      strategy: plan.diagnostics.strategy,
+      seed: plan.diagnostics.seed,
+      parameters: parameters as unknown as Json,
+      fingerprint: await fingerprintPlan(plan.assignments),
+      assignments: plan.assignments.map(a => ({ ...a })),
+      created_by: createdBy
+    });
+
+  if (error) throw error;
+}
+
+/**
+ * Stores hand-edited seating of `examId` as the next version. It carries the
+ * inputs and seed of the latest version and the live seats of every exam that
+ * version covers, so rolling back to it restores them together. Returns null
+ * when the exam has no version to edit from, i.e. it was seated before
+ * versions were kept.
+ */
+export async function recordSeatEdit(examId: string, createdBy: string) {
+  const base = await fetchLatestSeatingPlan(examId);
+  if (!base) return null;
+
+  const assignments = await fetchSeatingAllocations(base.exam_ids);
+  const { data, error } = await supabase
+    .from('seating_plans')
+    .insert({
+      exam_ids: base.exam_ids,
+      combination_id: base.combination_id,
+      strategy: base.strategy,
+      seed: base.seed,
+      parameters: base.parameters as unknown as Json,
+      fingerprint: await fingerprintPlan(assignments),
+      assignments: assignments.map(a => ({ ...a })),
+      created_by: createdBy,
+      edited_from: base.id
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+}
+
+// Most recent plan that seated `examId`, alone or together with other exams
+export async function fetchLatestSeatingPlan(examId: string): Promise<SeatingPlanRecord | null> {
+  const { data, error } = await supabase
+    .from('seating_plans')
+    .select('*')
+    .contains('exam_ids', [examId])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as unknown as SeatingPlanRecord | null;
+}
+
+// Every version that seated `examId`, newest first
+export async function fetchSeatingPlanVersions(examId: string): Promise<SeatingPlanVersion[]> {
+  const { data, error } = await supabase
+    .from('seating_plans')
+    .select('*, seating_combinations(name)')
+    .contains('exam_ids', [examId])
+    .order('version', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(({ seating_combinations, ...plan }) => ({
+    ...(plan as unknown as SeatingPlanRecord),
+    combination_name: seating_combinations?.name ?? null
+  }));
+}
+
+/**
+ * Puts back the seats of an earlier version, saved as a new version.
+ * Frozen exams need a `reason`, which is logged as an override.
+ */
+export async function rollbackSeatingPlan(planId: string, performedBy: string, reason: string | null) {
+  const { data, error } = await supabase.rpc('rollback_seating_plan', {
+    p_plan_id: planId,
+    p_performed_by: performedBy,
+    p_reason: reason ?? undefined
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Regenerates a recorded plan from its stored inputs and seed. `identical`
+ * is true when the result matches the recorded plan seat for seat.
+ */
+export async function reproduceSeatingPlan(record: SeatingPlanRecord) {
+  const plan = runPlan(record.parameters, record.seed);
+  const fingerprint = await fingerprintPlan(plan.assignments);
+  return { plan, identical: fingerprint === record.fingerprint };
+}
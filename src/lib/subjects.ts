@@ -0,0 +1,140 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { batches } from "@/lib/queries";
+
+export type Subject = Tables<'subjects'>;
+
+export type SubjectWithEnrolment = Subject & { enrolled: number };
+
+// One spreadsheet row: a student taking a subject
+export interface EnrolmentRow {
+  roll_number: string;
+  subject_code: string;
+  // Creates the subject when its code is not in the catalogue yet
+  subject_name?: string;
+  department?: string;
+}
+
+export interface EnrolmentImportResult {
+  enrolled: number;
+  // Student-subject pairs that were enrolled already
+  existing: number;
+  createdSubjects: number;
+  errors: string[];
+}
+
+export async function fetchSubjects(): Promise<SubjectWithEnrolment[]> {
+  const { data, error } = await supabase
+    .from('subjects')
+    .select('*, student_subjects(count)')
+    .order('code');
+
+  if (error) throw error;
+  return (data || []).map(({ student_subjects, ...subject }) => ({
+    ...subject,
+    enrolled: (student_subjects as unknown as { count: number }[])[0]?.count ?? 0
+  }));
+}
+
+export async function saveSubject(subject: TablesInsert<'subjects'>, id?: string) {
+  const { error } = id
+    ? await supabase.from('subjects').update(subject).eq('id', id)
+    : await supabase.from('subjects').insert([subject]);
+
+  if (error) throw error;
+}
+
+// Enrolments go with the subject; exams of the subject fall back to their years
+export async function deleteSubject(id: string) {
+  const { error } = await supabase
+    .from('subjects')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function clearEnrolment(subjectId: string) {
+  const { error } = await supabase
+    .from('student_subjects')
+    .delete()
+    .eq('subject_id', subjectId);
+
+  if (error) throw error;
+}
+
+/**
+ * Enrols students by roll number in subjects by code. Unknown subject codes
+ * are added to the catalogue when the row names the subject; rows for unknown
+ * students or unnamed unknown subjects are reported and skipped. Enrolments
+ * that already exist are left as they are.
+ */
+export async function importEnrolments(rows: EnrolmentRow[]): Promise<EnrolmentImportResult> {
+  const errors: string[] = [];
+  const rollNumbers = [...new Set(rows.map(r => r.roll_number))];
+  const codes = [...new Set(rows.map(r => r.subject_code))];
+
+  const studentIds = new Map<string, string>();
+  for (const batch of batches(rollNumbers)) {
+    const { data, error } = await supabase
+      .from('students')
+      .select('id, roll_number')
+      .in('roll_number', batch);
+
+    if (error) throw error;
+    for (const s of data || []) studentIds.set(s.roll_number, s.id);
+  }
+
+  const subjectIds = new Map<string, string>();
+  for (const batch of batches(codes)) {
+    const { data, error } = await supabase
+      .from('subjects')
+      .select('id, code')
+      .in('code', batch);
+
+    if (error) throw error;
+    for (const s of data || []) subjectIds.set(s.code, s.id);
+  }
+
+  const newSubjects = codes
+    .filter(code => !subjectIds.has(code))
+    .map(code => rows.find(r => r.subject_code === code && r.subject_name))
+    .filter((row): row is EnrolmentRow => !!row)
+    .map(row => ({ code: row.subject_code, name: row.subject_name, department: row.department || null }));
+
+  if (newSubjects.length > 0) {
+    const { data, error } = await supabase
+      .from('subjects')
+      .insert(newSubjects)
+      .select('id, code');
+
+    if (error) throw error;
+    for (const s of data || []) subjectIds.set(s.code, s.id);
+  }
+
+  const enrolments: TablesInsert<'student_subjects'>[] = [];
+  rows.forEach((row, index) => {
+    const student_id = studentIds.get(row.roll_number);
+    const subject_id = subjectIds.get(row.subject_code);
+
+    if (!student_id) errors.push(`Row ${index + 2}: No student with roll number "${row.roll_number}"`);
+    else if (!subject_id) errors.push(`Row ${index + 2}: Unknown subject code "${row.subject_code}" (add a subject_name column to create it)`);
+    else enrolments.push({ student_id, subject_id });
+  });
+
+  const unique = [...new Map(enrolments.map(e => [`${e.student_id}:${e.subject_id}`, e])).values()];
+
+  // Duplicates are skipped, so only the rows inserted come back
+  let enrolled = 0;
+  for (const batch of batches(unique)) {
+    const { data, error } = await supabase
+      .from('student_subjects')
+      .upsert(batch, { onConflict: 'student_id,subject_id', ignoreDuplicates: true })
+      .select('id');
+
+    if (error) throw error;
+    enrolled += data?.length ?? 0;
+  }
+
+  return { enrolled, existing: unique.length - enrolled, createdSubjects: newSubjects.length, errors };
+}
@@ -0,0 +1,33 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { AdjacencyOptions } from "@/lib/allocation";
+
+export type SystemSettings = Omit<Tables<'system_settings'>, 'id' | 'created_at' | 'updated_at'>;
+
+export const DEFAULT_SYSTEM_SETTINGS: SystemSettings = {
+  default_exam_duration: 3,
+  default_students_per_bench: 2,
+  allow_same_year_adjacent: false,
+  check_diagonal_adjacent: false,
+  auto_email_credentials: true,
+  backup_frequency: 'daily',
+  series_window_days: 120
+};
+
+// There is a single settings row; fall back to defaults until it exists
+export async function fetchSystemSettings(): Promise<SystemSettings & { id?: string }> {
+  const { data } = await supabase
+    .from('system_settings')
+    .select('*')
+    .limit(1)
+    .maybeSingle();
+
+  return data ?? { ...DEFAULT_SYSTEM_SETTINGS };
+}
+
+export function adjacencyFromSettings(settings: SystemSettings): AdjacencyOptions {
+  return {
+    groupBy: settings.allow_same_year_adjacent ? 'year-section' : 'year',
+    diagonal: settings.check_diagonal_adjacent
+  };
+}
@@ -5,6 +5,7 @@ import Dashboard from '@/components/Dashboard';
 import StudentManagement from '@/components/StudentManagement';
 import ClassroomManagement from '@/components/ClassroomManagement';
 import ExcelUpload from '@/components/ExcelUpload';
+import SubjectManagement from '@/components/SubjectManagement';
 import LoginForm from '@/components/LoginForm';
 import SeatAllocation from '@/components/SeatAllocation';
 import Reports from '@/components/Reports';
@@ -38,14 +39,16 @@ const Index = () => {
           return <StudentManagement />;
         case 'excel-upload':
           return <ExcelUpload />;
+        case 'subjects':
+          return <SubjectManagement />;
         case 'exams':
           return <ExamManagement />;
         case 'classrooms':
-          return <ClassroomManagement />;
+          return <ClassroomManagement performedBy={currentUser.data.name} />;
         case 'allocations':
-          return <SeatAllocation />;
+          return <SeatAllocation performedBy={currentUser.data.name} />;
         case 'reports':
-          return <Reports />;
+          return <Reports performedBy={currentUser.data.name} />;
         case 'settings':
           return <Settings />;
         default:
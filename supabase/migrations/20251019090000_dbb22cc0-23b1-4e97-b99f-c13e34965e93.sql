@@ -0,0 +1,22 @@
+-- Persist system settings so allocation can read the adjacency preferences
+CREATE TABLE public.system_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  default_exam_duration DECIMAL(3,1) NOT NULL DEFAULT 3,
+  default_students_per_bench INTEGER NOT NULL DEFAULT 2,
+  allow_same_year_adjacent BOOLEAN NOT NULL DEFAULT false,
+  check_diagonal_adjacent BOOLEAN NOT NULL DEFAULT false,
+  auto_email_credentials BOOLEAN NOT NULL DEFAULT true,
+  backup_frequency TEXT NOT NULL DEFAULT 'daily' CHECK (backup_frequency IN ('daily', 'weekly', 'monthly')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.system_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Faculty can manage system settings" ON public.system_settings FOR ALL USING (true);
+
+CREATE TRIGGER update_system_settings_updated_at BEFORE UPDATE ON public.system_settings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Single settings row
+INSERT INTO public.system_settings DEFAULT VALUES;
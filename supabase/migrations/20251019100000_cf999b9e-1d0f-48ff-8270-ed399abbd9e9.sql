@@ -0,0 +1,40 @@
+-- Reject seat allocations that double-book a seat across exams whose time slots overlap
+CREATE INDEX IF NOT EXISTS seating_allocations_seat_idx
+  ON public.seating_allocations (classroom_id, bench_number, seat_position);
+
+CREATE OR REPLACE FUNCTION public.check_seat_double_booking()
+RETURNS TRIGGER AS $$
+DECLARE
+  conflicting_exam UUID;
+BEGIN
+  -- Serialise writers per classroom so two concurrent runs cannot both pass the check
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.classroom_id::text));
+
+  SELECT other.exam_id INTO conflicting_exam
+  FROM public.seating_allocations other
+  JOIN public.exams other_exam ON other_exam.id = other.exam_id
+  JOIN public.exams this_exam ON this_exam.id = NEW.exam_id
+  WHERE other.classroom_id = NEW.classroom_id
+    AND other.bench_number = NEW.bench_number
+    AND other.seat_position = NEW.seat_position
+    AND other.exam_id <> NEW.exam_id
+    AND other.id <> NEW.id
+    AND other_exam.status <> 'cancelled'
+    AND other_exam.exam_date = this_exam.exam_date
+    AND other_exam.start_time < this_exam.end_time
+    AND this_exam.start_time < other_exam.end_time
+  LIMIT 1;
+
+  IF conflicting_exam IS NOT NULL THEN
+    RAISE EXCEPTION 'Seat % / % in classroom % is already taken by exam % in an overlapping time slot',
+      NEW.bench_number, NEW.seat_position, NEW.classroom_id, conflicting_exam
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_seat_double_booking
+  BEFORE INSERT OR UPDATE OF classroom_id, bench_number, seat_position, exam_id ON public.seating_allocations
+  FOR EACH ROW EXECUTE FUNCTION public.check_seat_double_booking();
@@ -0,0 +1,31 @@
+-- Locked seats are kept in place when an exam's seating is regenerated
+ALTER TABLE public.seating_allocations
+ADD COLUMN is_locked BOOLEAN NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION public.replace_seating_allocations(p_exam_ids UUID[], p_allocations JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  inserted INTEGER;
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_allocations) AS a(exam_id UUID)
+    WHERE NOT (a.exam_id = ANY (p_exam_ids))
+  ) THEN
+    RAISE EXCEPTION 'Allocations reference an exam outside the set being replaced';
+  END IF;
+
+  -- Concurrent replacements of the same exams wait for each other
+  PERFORM 1 FROM public.exams WHERE id = ANY (p_exam_ids) FOR UPDATE;
+
+  DELETE FROM public.seating_allocations WHERE exam_id = ANY (p_exam_ids);
+
+  INSERT INTO public.seating_allocations (exam_id, classroom_id, student_id, bench_number, seat_position, is_locked)
+  SELECT a.exam_id, a.classroom_id, a.student_id, a.bench_number, a.seat_position, COALESCE(a.is_locked, false)
+  FROM jsonb_to_recordset(p_allocations)
+    AS a(exam_id UUID, classroom_id UUID, student_id UUID, bench_number INTEGER, seat_position INTEGER, is_locked BOOLEAN);
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  RETURN inserted;
+END;
+$$ LANGUAGE plpgsql;
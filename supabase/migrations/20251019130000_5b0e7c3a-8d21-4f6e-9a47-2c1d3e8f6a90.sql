@@ -0,0 +1,36 @@
+-- Benches may seat any number of students, not just a left/right pair
+ALTER TABLE public.seating_allocations
+DROP CONSTRAINT IF EXISTS seating_allocations_seat_position_check;
+
+ALTER TABLE public.seating_allocations
+ADD CONSTRAINT seating_allocations_seat_position_check CHECK (seat_position >= 1);
+
+ALTER TABLE public.seating_allocations
+ADD CONSTRAINT seating_allocations_bench_number_check CHECK (bench_number >= 1);
+
+ALTER TABLE public.classrooms
+ADD CONSTRAINT classrooms_students_per_bench_check CHECK (students_per_bench >= 1);
+
+-- Seats must exist in the room: the bench and the position on it are bounded
+-- by the classroom's own dimensions
+CREATE OR REPLACE FUNCTION public.check_seat_within_classroom()
+RETURNS TRIGGER AS $$
+DECLARE
+  room RECORD;
+BEGIN
+  SELECT total_benches, students_per_bench INTO room
+  FROM public.classrooms
+  WHERE id = NEW.classroom_id;
+
+  IF NEW.bench_number > room.total_benches OR NEW.seat_position > room.students_per_bench THEN
+    RAISE EXCEPTION 'Bench % seat % does not exist in classroom %', NEW.bench_number, NEW.seat_position, NEW.classroom_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_seat_within_classroom
+  BEFORE INSERT OR UPDATE OF classroom_id, bench_number, seat_position ON public.seating_allocations
+  FOR EACH ROW EXECUTE FUNCTION public.check_seat_within_classroom();
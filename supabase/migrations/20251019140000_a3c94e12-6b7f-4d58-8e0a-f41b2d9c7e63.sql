@@ -0,0 +1,18 @@
+-- Audit trail of published seating plans: the seed and every input the
+-- allocation engine was given, so a plan can be regenerated and checked
+CREATE TABLE public.seating_plans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  exam_ids UUID[] NOT NULL,
+  combination_id UUID REFERENCES public.seating_combinations(id) ON DELETE SET NULL,
+  strategy TEXT NOT NULL,
+  seed BIGINT NOT NULL,
+  parameters JSONB NOT NULL,
+  fingerprint TEXT NOT NULL, -- SHA-256 of the resulting seats
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX seating_plans_exam_ids_idx ON public.seating_plans USING GIN (exam_ids);
+
+ALTER TABLE public.seating_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Faculty can manage seating plans" ON public.seating_plans FOR ALL USING (true);
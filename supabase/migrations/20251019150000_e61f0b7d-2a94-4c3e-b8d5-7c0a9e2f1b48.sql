@@ -0,0 +1,43 @@
+-- Room layout beyond the bench grid: benches that cannot be used (broken,
+-- pillar, teacher's desk) and aisles between bench columns.
+-- Shape: { "disabled": [bench numbers], "aisles": [column after which an aisle runs] }
+ALTER TABLE public.classrooms
+ADD COLUMN layout JSONB NOT NULL DEFAULT '{"disabled": [], "aisles": []}'::jsonb;
+
+CREATE OR REPLACE FUNCTION public.classroom_usable_benches(p_total_benches INTEGER, p_layout JSONB)
+RETURNS INTEGER AS $$
+  SELECT p_total_benches - COUNT(DISTINCT d.bench)::INTEGER
+  FROM jsonb_array_elements_text(COALESCE(p_layout->'disabled', '[]'::jsonb)) AS d(bench)
+  WHERE d.bench::INTEGER BETWEEN 1 AND p_total_benches;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Capacity counts usable benches only
+ALTER TABLE public.classrooms DROP COLUMN total_capacity;
+
+ALTER TABLE public.classrooms
+ADD COLUMN total_capacity INTEGER GENERATED ALWAYS AS (
+  public.classroom_usable_benches(total_benches, layout) * students_per_bench
+) STORED;
+
+CREATE OR REPLACE FUNCTION public.check_seat_within_classroom()
+RETURNS TRIGGER AS $$
+DECLARE
+  room RECORD;
+BEGIN
+  SELECT total_benches, students_per_bench, layout INTO room
+  FROM public.classrooms
+  WHERE id = NEW.classroom_id;
+
+  IF NEW.bench_number > room.total_benches OR NEW.seat_position > room.students_per_bench THEN
+    RAISE EXCEPTION 'Bench % seat % does not exist in classroom %', NEW.bench_number, NEW.seat_position, NEW.classroom_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF COALESCE(room.layout->'disabled', '[]'::jsonb) @> to_jsonb(NEW.bench_number) THEN
+    RAISE EXCEPTION 'Bench % in classroom % is marked unusable', NEW.bench_number, NEW.classroom_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,7 @@
+-- Layouts also record where the board and the door are, for the printed chart
+ALTER TABLE public.classrooms
+ALTER COLUMN layout SET DEFAULT '{"disabled": [], "aisles": [], "board": "top", "door": null}'::jsonb;
+
+UPDATE public.classrooms
+SET layout = layout || '{"board": "top", "door": null}'::jsonb
+WHERE NOT layout ? 'board';
@@ -0,0 +1,34 @@
+-- Exam-mode seating density, separate from a room's teaching capacity.
+-- A profile applies to every exam of a type; an override applies to one exam,
+-- either in every room (classroom_id NULL) or in one room.
+CREATE TABLE public.exam_capacity_profiles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  exam_type TEXT NOT NULL UNIQUE,
+  seats_per_bench INTEGER CHECK (seats_per_bench >= 1), -- NULL: every seat of the bench
+  checkerboard BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.exam_capacity_overrides (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  exam_id UUID NOT NULL REFERENCES public.exams(id) ON DELETE CASCADE,
+  classroom_id UUID REFERENCES public.classrooms(id) ON DELETE CASCADE,
+  seats_per_bench INTEGER CHECK (seats_per_bench >= 1),
+  checkerboard BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (exam_id, classroom_id)
+);
+
+ALTER TABLE public.exam_capacity_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.exam_capacity_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Faculty can manage exam capacity profiles" ON public.exam_capacity_profiles FOR ALL USING (true);
+CREATE POLICY "Faculty can manage exam capacity overrides" ON public.exam_capacity_overrides FOR ALL USING (true);
+
+CREATE TRIGGER update_exam_capacity_profiles_updated_at BEFORE UPDATE ON public.exam_capacity_profiles
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_exam_capacity_overrides_updated_at BEFORE UPDATE ON public.exam_capacity_overrides
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
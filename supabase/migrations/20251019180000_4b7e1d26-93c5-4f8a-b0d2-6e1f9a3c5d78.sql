@@ -0,0 +1,3 @@
+-- Floor of the building a classroom is on, so allocation can prefer rooms close together
+ALTER TABLE public.classrooms
+ADD COLUMN floor INTEGER;
@@ -0,0 +1,33 @@
+-- Subject catalogue and which students take which subject, so an exam seats
+-- the students enrolled in its subject rather than everyone in its years
+CREATE TABLE public.subjects (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  department TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.student_subjects (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  subject_id UUID NOT NULL REFERENCES public.subjects(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (student_id, subject_id)
+);
+
+CREATE INDEX idx_student_subjects_subject ON public.student_subjects(subject_id);
+
+-- Exams without a subject keep seating every student of their years
+ALTER TABLE public.exams
+ADD COLUMN subject_id UUID REFERENCES public.subjects(id) ON DELETE SET NULL;
+
+ALTER TABLE public.subjects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.student_subjects ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Faculty can manage subjects" ON public.subjects FOR ALL USING (true);
+CREATE POLICY "Faculty can manage student subjects" ON public.student_subjects FOR ALL USING (true);
+
+CREATE TRIGGER update_subjects_updated_at BEFORE UPDATE ON public.subjects
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,14 @@
+-- Students added to one exam individually, e.g. IV Year arrear candidates
+-- sitting a II Year paper. They are seated whatever their year or section.
+CREATE TABLE public.exam_candidates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  exam_id UUID NOT NULL REFERENCES public.exams(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL DEFAULT 'arrear' CHECK (kind IN ('arrear', 'supplementary')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (exam_id, student_id)
+);
+
+ALTER TABLE public.exam_candidates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Faculty can manage exam candidates" ON public.exam_candidates FOR ALL USING (true);
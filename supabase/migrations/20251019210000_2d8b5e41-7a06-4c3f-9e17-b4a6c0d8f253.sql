@@ -0,0 +1,102 @@
+-- Seating moves through draft (faculty only), published (students see it) and
+-- frozen (the exam has started). Frozen seating only changes through
+-- override_frozen_seating, which records who changed it and why.
+ALTER TABLE public.exams
+ADD COLUMN allocation_status TEXT NOT NULL DEFAULT 'draft'
+  CHECK (allocation_status IN ('draft', 'published', 'frozen'));
+
+-- Seating that already exists has been visible to students all along
+UPDATE public.exams e
+SET allocation_status = 'published'
+WHERE EXISTS (SELECT 1 FROM public.seating_allocations s WHERE s.exam_id = e.id);
+
+CREATE TABLE public.seating_overrides (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  exam_id UUID NOT NULL REFERENCES public.exams(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (length(btrim(reason)) > 0),
+  performed_by TEXT,
+  seats_before INTEGER NOT NULL,
+  seats_after INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_seating_overrides_exam ON public.seating_overrides(exam_id, created_at DESC);
+
+ALTER TABLE public.seating_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Faculty can view seating overrides" ON public.seating_overrides FOR SELECT USING (true);
+
+CREATE OR REPLACE FUNCTION public.guard_frozen_seating()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('app.seating_override', true) = 'on' THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.exams
+    WHERE allocation_status = 'frozen'
+      AND id IN (
+        CASE WHEN TG_OP <> 'INSERT' THEN OLD.exam_id END,
+        CASE WHEN TG_OP <> 'DELETE' THEN NEW.exam_id END
+      )
+  ) THEN
+    RAISE EXCEPTION 'Seating of a frozen exam can only change through a logged override';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER guard_frozen_seating
+  BEFORE INSERT OR UPDATE OR DELETE ON public.seating_allocations
+  FOR EACH ROW EXECUTE FUNCTION public.guard_frozen_seating();
+
+CREATE OR REPLACE FUNCTION public.guard_frozen_exam()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.allocation_status = 'frozen' AND NEW.allocation_status <> 'frozen' THEN
+    RAISE EXCEPTION 'A frozen exam cannot go back to draft or published';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER guard_frozen_exam
+  BEFORE UPDATE OF allocation_status ON public.exams
+  FOR EACH ROW EXECUTE FUNCTION public.guard_frozen_exam();
+
+-- Replaces the seating of `p_exam_ids` even when frozen, logging one override
+-- per exam with the seat counts before and after
+CREATE OR REPLACE FUNCTION public.override_frozen_seating(
+  p_exam_ids UUID[],
+  p_allocations JSONB,
+  p_reason TEXT,
+  p_performed_by TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+  inserted INTEGER;
+BEGIN
+  IF p_reason IS NULL OR length(btrim(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'An override needs a reason';
+  END IF;
+
+  INSERT INTO public.seating_overrides (exam_id, reason, performed_by, seats_before, seats_after)
+  SELECT
+    e.id,
+    btrim(p_reason),
+    p_performed_by,
+    (SELECT count(*) FROM public.seating_allocations s WHERE s.exam_id = e.id),
+    (SELECT count(*) FROM jsonb_to_recordset(p_allocations) AS a(exam_id UUID) WHERE a.exam_id = e.id)
+  FROM public.exams e
+  WHERE e.id = ANY (p_exam_ids);
+
+  PERFORM set_config('app.seating_override', 'on', true);
+  inserted := public.replace_seating_allocations(p_exam_ids, p_allocations);
+  PERFORM set_config('app.seating_override', 'off', true);
+
+  RETURN inserted;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,83 @@
+-- Every saved plan is kept as a numbered version with the seats it produced,
+-- so faculty can compare versions and roll back to an earlier one
+ALTER TABLE public.seating_plans
+ADD COLUMN version INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN created_by TEXT,
+ADD COLUMN assignments JSONB, -- seats as saved; NULL for plans recorded before versions
+ADD COLUMN restored_from UUID REFERENCES public.seating_plans(id) ON DELETE SET NULL;
+
+-- Number existing plans in the order they were saved
+DO $$
+DECLARE
+  plan RECORD;
+BEGIN
+  FOR plan IN SELECT id, exam_ids FROM public.seating_plans ORDER BY created_at LOOP
+    UPDATE public.seating_plans
+    SET version = (
+      SELECT COALESCE(max(version), 0) + 1
+      FROM public.seating_plans
+      WHERE exam_ids && plan.exam_ids
+    )
+    WHERE id = plan.id;
+  END LOOP;
+END $$;
+
+-- Versions count up across plans that share an exam
+CREATE OR REPLACE FUNCTION public.number_seating_plan()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Plans saved at the same time for the same exams wait for each other
+  PERFORM 1 FROM public.exams WHERE id = ANY (NEW.exam_ids) FOR UPDATE;
+
+  SELECT COALESCE(max(version), 0) + 1 INTO NEW.version
+  FROM public.seating_plans
+  WHERE exam_ids && NEW.exam_ids;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER number_seating_plan
+  BEFORE INSERT ON public.seating_plans
+  FOR EACH ROW EXECUTE FUNCTION public.number_seating_plan();
+
+-- Puts back the seats of an earlier version and records the result as a new
+-- version. Frozen exams need `p_reason`, which goes through the logged override.
+CREATE OR REPLACE FUNCTION public.rollback_seating_plan(
+  p_plan_id UUID,
+  p_performed_by TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  target public.seating_plans%ROWTYPE;
+  restored UUID;
+BEGIN
+  SELECT * INTO target FROM public.seating_plans WHERE id = p_plan_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Seating plan % does not exist', p_plan_id;
+  END IF;
+
+  IF target.assignments IS NULL THEN
+    RAISE EXCEPTION 'Version % was saved without its seats and cannot be restored', target.version;
+  END IF;
+
+  IF p_reason IS NULL THEN
+    PERFORM public.replace_seating_allocations(target.exam_ids, target.assignments);
+  ELSE
+    PERFORM public.override_frozen_seating(target.exam_ids, target.assignments, p_reason, p_performed_by);
+  END IF;
+
+  INSERT INTO public.seating_plans (
+    exam_ids, combination_id, strategy, seed, parameters, fingerprint, assignments, created_by, restored_from
+  )
+  VALUES (
+    target.exam_ids, target.combination_id, target.strategy, target.seed, target.parameters,
+    target.fingerprint, target.assignments, p_performed_by, target.id
+  )
+  RETURNING id INTO restored;
+
+  RETURN restored;
+END;
+$$ LANGUAGE plpgsql;
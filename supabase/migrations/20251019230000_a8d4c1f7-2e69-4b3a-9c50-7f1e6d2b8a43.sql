@@ -0,0 +1,24 @@
+-- A room that still seats students for upcoming exams cannot be deleted;
+-- they have to be moved elsewhere first. Seats of past exams go with the room.
+CREATE OR REPLACE FUNCTION public.guard_classroom_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM public.seating_allocations s
+    JOIN public.exams e ON e.id = s.exam_id
+    WHERE s.classroom_id = OLD.id
+      AND e.exam_date >= CURRENT_DATE
+      AND e.status <> 'cancelled'
+  ) THEN
+    RAISE EXCEPTION 'Classroom % still seats students for upcoming exams; move them first', OLD.room_number
+      USING ERRCODE = 'restrict_violation';
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER guard_classroom_delete
+  BEFORE DELETE ON public.classrooms
+  FOR EACH ROW EXECUTE FUNCTION public.guard_classroom_delete();
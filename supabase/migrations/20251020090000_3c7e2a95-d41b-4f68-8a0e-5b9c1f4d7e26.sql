@@ -0,0 +1,22 @@
+-- What a student needs to sit an exam: where they can be seated, a scribe,
+-- and extra time added to the end of every exam they sit
+CREATE TABLE public.student_accommodations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL UNIQUE REFERENCES public.students(id) ON DELETE CASCADE,
+  ground_floor BOOLEAN NOT NULL DEFAULT false,
+  front_bench BOOLEAN NOT NULL DEFAULT false,
+  separate_room BOOLEAN NOT NULL DEFAULT false,
+  scribe BOOLEAN NOT NULL DEFAULT false, -- always seated in a room of their own
+  extra_time_minutes INTEGER NOT NULL DEFAULT 0 CHECK (extra_time_minutes >= 0),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.student_accommodations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Faculty can manage student accommodations" ON public.student_accommodations FOR ALL USING (true);
+
+CREATE TRIGGER update_student_accommodations_updated_at
+  BEFORE UPDATE ON public.student_accommodations
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
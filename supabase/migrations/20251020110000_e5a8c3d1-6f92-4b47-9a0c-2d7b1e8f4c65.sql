@@ -0,0 +1,28 @@
+-- Deleting an exam, a student or a classroom cascades to its seating. The
+-- cascade runs inside the foreign key's trigger (depth > 1), and the row being
+-- deleted is the reason the seat goes, so frozen seating lets it through.
+CREATE OR REPLACE FUNCTION public.guard_frozen_seating()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('app.seating_override', true) = 'on' THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'DELETE' AND pg_trigger_depth() > 1 THEN
+    RETURN OLD;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.exams
+    WHERE allocation_status = 'frozen'
+      AND id IN (
+        CASE WHEN TG_OP <> 'INSERT' THEN OLD.exam_id END,
+        CASE WHEN TG_OP <> 'DELETE' THEN NEW.exam_id END
+      )
+  ) THEN
+    RAISE EXCEPTION 'Seating of a frozen exam can only change through a logged override';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
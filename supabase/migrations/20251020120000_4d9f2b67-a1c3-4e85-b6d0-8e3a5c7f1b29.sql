@@ -0,0 +1,5 @@
+-- Seats moved by hand in the seat editor are saved as a version too. It keeps
+-- the inputs and seed of the version it was edited from, which no longer
+-- reproduce its seats, so the link says where they came from.
+ALTER TABLE public.seating_plans
+ADD COLUMN edited_from UUID REFERENCES public.seating_plans(id) ON DELETE SET NULL;
@@ -0,0 +1,48 @@
+-- Published seating counts as frozen once the exam has started, whether or
+-- not a client has stored 'frozen' yet, so plain replaces are rejected from
+-- the start time on. Times are read in the database's time zone.
+CREATE OR REPLACE FUNCTION public.guard_frozen_seating()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_setting('app.seating_override', true) = 'on' THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'DELETE' AND pg_trigger_depth() > 1 THEN
+    RETURN OLD;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.exams
+    WHERE (
+        allocation_status = 'frozen'
+        OR (allocation_status = 'published' AND exam_date + start_time <= now())
+      )
+      AND id IN (
+        CASE WHEN TG_OP <> 'INSERT' THEN OLD.exam_id END,
+        CASE WHEN TG_OP <> 'DELETE' THEN NEW.exam_id END
+      )
+  ) THEN
+    RAISE EXCEPTION 'Seating of a frozen exam can only change through a logged override';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+-- A started exam cannot be unpublished to get around the freeze either
+CREATE OR REPLACE FUNCTION public.guard_frozen_exam()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.allocation_status = 'frozen' AND NEW.allocation_status <> 'frozen' THEN
+    RAISE EXCEPTION 'A frozen exam cannot go back to draft or published';
+  END IF;
+
+  IF OLD.allocation_status = 'published' AND NEW.allocation_status = 'draft'
+    AND OLD.exam_date + OLD.start_time <= now() THEN
+    RAISE EXCEPTION 'A frozen exam cannot go back to draft or published';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,4 @@
+-- Exam series such as CAIT-1 recur every term; only papers held this many
+-- days before an exam count towards its seating history
+ALTER TABLE public.system_settings
+  ADD COLUMN series_window_days INTEGER NOT NULL DEFAULT 120 CHECK (series_window_days > 0);
@@ -0,0 +1,18 @@
+import { PGlite } from '@electric-sql/pglite';
+import { readFileSync, readdirSync } from 'node:fs';
+import path from 'node:path';
+
+const MIGRATIONS = path.resolve(__dirname, '../migrations');
+
+// An in-memory Postgres with every migration applied, in order
+export async function createDatabase() {
+  const db = new PGlite();
+  // Roles Supabase provides, which the policies name
+  await db.exec('CREATE ROLE anon; CREATE ROLE authenticated;');
+
+  for (const file of readdirSync(MIGRATIONS).filter(f => f.endsWith('.sql')).sort()) {
+    await db.exec(readFileSync(path.join(MIGRATIONS, file), 'utf8'));
+  }
+
+  return db;
+}
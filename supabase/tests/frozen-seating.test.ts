@@ -0,0 +1,157 @@
+import type { PGlite } from '@electric-sql/pglite';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createDatabase } from './database';
+
+// Checks that frozen seating only changes through the logged override, and
+// that deleting what a seat belongs to still removes it.
+
+const FROZEN = '00000000-0000-0000-0000-0000000000f1';
+// Published and started, but nobody has stored 'frozen' for it yet
+const STARTED = '00000000-0000-0000-0000-0000000000f2';
+const UPCOMING = '00000000-0000-0000-0000-0000000000f3';
+const ROOM = '00000000-0000-0000-0000-0000000000c1';
+const STUDENTS = ['a1', 'a2'].map(s => `00000000-0000-0000-0000-0000000000${s}`);
+
+interface Seat {
+  exam_id: string;
+  student_id: string;
+  bench_number: number;
+}
+
+const seat = (exam_id: string, student: number, bench_number: number): Seat =>
+  ({ exam_id, student_id: STUDENTS[student], bench_number });
+
+const FROZEN_ERROR = /only change through a logged override/;
+
+let db: PGlite;
+
+const allocations = (seats: Seat[]) => JSON.stringify(seats.map(s => ({ ...s, classroom_id: ROOM, seat_position: 1 })));
+
+async function replace(examIds: string[], seats: Seat[]) {
+  await db.query('SELECT public.replace_seating_allocations($1::uuid[], $2::jsonb)', [examIds, allocations(seats)]);
+}
+
+async function override(examIds: string[], seats: Seat[], reason: string) {
+  await db.query(
+    'SELECT public.override_frozen_seating($1::uuid[], $2::jsonb, $3, $4)',
+    [examIds, allocations(seats), reason, 'admin@example.com']
+  );
+}
+
+async function benchesOf(examId: string) {
+  const { rows } = await db.query<{ bench_number: number }>(
+    'SELECT bench_number FROM public.seating_allocations WHERE exam_id = $1 ORDER BY bench_number',
+    [examId]
+  );
+  return rows.map(r => r.bench_number);
+}
+
+beforeAll(async () => {
+  db = await createDatabase();
+}, 60_000);
+
+beforeEach(async () => {
+  await db.exec(`
+    DELETE FROM public.exams;
+    DELETE FROM public.students;
+    DELETE FROM public.classrooms;
+    INSERT INTO public.exams (id, subject, exam_date, start_time, end_time, years, allocation_status) VALUES
+      ('${FROZEN}', 'Data Structures', '2025-11-10', '09:00', '12:00', '{II Year}', 'frozen'),
+      ('${STARTED}', 'Networks', '2025-11-11', '09:00', '12:00', '{II Year}', 'published'),
+      ('${UPCOMING}', 'Compilers', '2099-11-10', '09:00', '12:00', '{II Year}', 'published');
+    INSERT INTO public.classrooms (id, room_number, total_benches, benches_per_row) VALUES ('${ROOM}', 'R1', 10, 5);
+    INSERT INTO public.students (id, roll_number, name, year, section, department) VALUES
+      ('${STUDENTS[0]}', '1', 'A', 'II Year', 'A', 'CSE'),
+      ('${STUDENTS[1]}', '2', 'B', 'II Year', 'A', 'CSE');
+  `);
+  await override(
+    [FROZEN, STARTED, UPCOMING],
+    [seat(FROZEN, 0, 1), seat(FROZEN, 1, 2), seat(STARTED, 0, 1), seat(UPCOMING, 0, 1)],
+    'Seeding the tests'
+  );
+  await db.exec('DELETE FROM public.seating_overrides;');
+});
+
+describe('guard_frozen_seating', () => {
+  it('rejects a plain replace of frozen seating and keeps the seats', async () => {
+    await expect(replace([FROZEN], [seat(FROZEN, 0, 5)])).rejects.toThrow(FROZEN_ERROR);
+    expect(await benchesOf(FROZEN)).toEqual([1, 2]);
+  });
+
+  it('rejects direct inserts, updates and deletes of frozen seating', async () => {
+    await expect(db.query(`DELETE FROM public.seating_allocations WHERE exam_id = '${FROZEN}'`)).rejects.toThrow(FROZEN_ERROR);
+    await expect(db.query(`UPDATE public.seating_allocations SET bench_number = 7 WHERE exam_id = '${FROZEN}'`))
+      .rejects.toThrow(FROZEN_ERROR);
+    await expect(db.query(`
+      INSERT INTO public.seating_allocations (exam_id, classroom_id, student_id, bench_number, seat_position)
+      VALUES ('${FROZEN}', '${ROOM}', '${STUDENTS[1]}', 9, 1)
+    `)).rejects.toThrow(FROZEN_ERROR);
+    expect(await benchesOf(FROZEN)).toEqual([1, 2]);
+  });
+
+  it('treats published seating as frozen once the exam has started', async () => {
+    await expect(replace([STARTED], [seat(STARTED, 0, 5)])).rejects.toThrow(FROZEN_ERROR);
+    expect(await benchesOf(STARTED)).toEqual([1]);
+  });
+
+  it('lets published seating of an upcoming exam be replaced', async () => {
+    await replace([UPCOMING], [seat(UPCOMING, 0, 5)]);
+    expect(await benchesOf(UPCOMING)).toEqual([5]);
+  });
+
+  it('keeps a started exam from going back to draft', async () => {
+    await expect(db.query(`UPDATE public.exams SET allocation_status = 'draft' WHERE id = '${STARTED}'`))
+      .rejects.toThrow(/cannot go back/);
+    await expect(db.query(`UPDATE public.exams SET allocation_status = 'published' WHERE id = '${FROZEN}'`))
+      .rejects.toThrow(/cannot go back/);
+  });
+});
+
+describe('override_frozen_seating', () => {
+  it('replaces frozen seating and logs one row per exam', async () => {
+    await override([FROZEN, STARTED], [seat(FROZEN, 0, 5), seat(STARTED, 0, 6), seat(STARTED, 1, 7)], '  Projector fault in R1 ');
+
+    expect(await benchesOf(FROZEN)).toEqual([5]);
+    expect(await benchesOf(STARTED)).toEqual([6, 7]);
+
+    const { rows } = await db.query(
+      'SELECT exam_id, reason, performed_by, seats_before, seats_after FROM public.seating_overrides ORDER BY exam_id'
+    );
+    expect(rows).toEqual([
+      { exam_id: FROZEN, reason: 'Projector fault in R1', performed_by: 'admin@example.com', seats_before: 2, seats_after: 1 },
+      { exam_id: STARTED, reason: 'Projector fault in R1', performed_by: 'admin@example.com', seats_before: 1, seats_after: 2 }
+    ]);
+  });
+
+  it('needs a reason, and changes nothing without one', async () => {
+    await expect(override([FROZEN], [seat(FROZEN, 0, 5)], '  ')).rejects.toThrow(/needs a reason/);
+
+    expect(await benchesOf(FROZEN)).toEqual([1, 2]);
+    expect((await db.query('SELECT 1 FROM public.seating_overrides')).rows).toEqual([]);
+  });
+
+  it('switches the guard back on once it is done', async () => {
+    await override([FROZEN], [seat(FROZEN, 0, 5)], 'Room change');
+
+    await expect(replace([FROZEN], [seat(FROZEN, 0, 6)])).rejects.toThrow(FROZEN_ERROR);
+  });
+});
+
+describe('cascaded deletes', () => {
+  it('remove the frozen seat of a deleted student', async () => {
+    await db.query(`DELETE FROM public.students WHERE id = '${STUDENTS[1]}'`);
+    expect(await benchesOf(FROZEN)).toEqual([1]);
+  });
+
+  it('remove the frozen seating of a deleted exam', async () => {
+    await db.query(`DELETE FROM public.exams WHERE id = '${FROZEN}'`);
+    expect(await benchesOf(FROZEN)).toEqual([]);
+  });
+
+  it('remove the frozen seating in a deleted room', async () => {
+    // Rooms still holding seats for upcoming exams cannot be deleted
+    await replace([UPCOMING], []);
+    await db.query(`DELETE FROM public.classrooms WHERE id = '${ROOM}'`);
+    expect(await benchesOf(FROZEN)).toEqual([]);
+  });
+});
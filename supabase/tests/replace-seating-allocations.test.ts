@@ -0,0 +1,169 @@
+import type { PGlite } from '@electric-sql/pglite';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createDatabase } from './database';
+
+// Runs the migrations on an in-memory Postgres and checks that replacing an
+// exam's seating is all or nothing.
+
+const MORNING = '00000000-0000-0000-0000-0000000000e1';
+const OVERLAPPING = '00000000-0000-0000-0000-0000000000e2';
+const AFTERNOON = '00000000-0000-0000-0000-0000000000e3';
+const ROOM = '00000000-0000-0000-0000-0000000000c1';
+const STUDENTS = ['a1', 'a2', 'a3', 'a4'].map(s => `00000000-0000-0000-0000-0000000000${s}`);
+
+interface Seat {
+  exam_id: string;
+  student_id: string;
+  bench_number: number;
+  seat_position: number;
+}
+
+const seat = (exam_id: string, student: number, bench_number: number, seat_position = 1): Seat =>
+  ({ exam_id, student_id: STUDENTS[student], bench_number, seat_position });
+
+let db: PGlite;
+
+async function replace(examIds: string[], seats: Seat[]) {
+  const allocations = seats.map(s => ({ ...s, classroom_id: ROOM }));
+  const { rows } = await db.query<{ inserted: number }>(
+    'SELECT public.replace_seating_allocations($1::uuid[], $2::jsonb) AS inserted',
+    [examIds, JSON.stringify(allocations)]
+  );
+  return rows[0].inserted;
+}
+
+async function seatsOf(examId: string) {
+  const { rows } = await db.query<{ student_id: string; bench_number: number }>(
+    'SELECT student_id, bench_number FROM public.seating_allocations WHERE exam_id = $1 ORDER BY bench_number',
+    [examId]
+  );
+  return rows;
+}
+
+beforeAll(async () => {
+  db = await createDatabase();
+
+  await db.exec(`
+    INSERT INTO public.exams (id, subject, exam_date, start_time, end_time, years) VALUES
+      ('${MORNING}', 'Data Structures', '2025-11-10', '09:00', '12:00', '{II Year}'),
+      ('${OVERLAPPING}', 'Networks', '2025-11-10', '11:00', '13:00', '{III Year}'),
+      ('${AFTERNOON}', 'Compilers', '2025-11-10', '14:00', '17:00', '{IV Year}');
+    INSERT INTO public.classrooms (id, room_number, total_benches, benches_per_row) VALUES ('${ROOM}', 'R1', 10, 5);
+    INSERT INTO public.students (id, roll_number, name, year, section, department) VALUES
+      ('${STUDENTS[0]}', '1', 'A', 'II Year', 'A', 'CSE'),
+      ('${STUDENTS[1]}', '2', 'B', 'II Year', 'A', 'CSE'),
+      ('${STUDENTS[2]}', '3', 'C', 'III Year', 'A', 'CSE'),
+      ('${STUDENTS[3]}', '4', 'D', 'IV Year', 'A', 'CSE');
+  `);
+}, 60_000);
+
+beforeEach(async () => {
+  await db.exec('DELETE FROM public.seating_plans; DELETE FROM public.seating_allocations;');
+});
+
+describe('replace_seating_allocations', () => {
+  it('replaces the seating of the exams given', async () => {
+    await replace([MORNING], [seat(MORNING, 0, 1), seat(MORNING, 1, 2)]);
+
+    expect(await replace([MORNING], [seat(MORNING, 0, 5)])).toBe(1);
+    expect(await seatsOf(MORNING)).toEqual([{ student_id: STUDENTS[0], bench_number: 5 }]);
+  });
+
+  it('keeps the old plan when a row of the new one is rejected', async () => {
+    await replace([MORNING], [seat(MORNING, 0, 1), seat(MORNING, 1, 2)]);
+
+    // The same student twice breaks the one-seat-per-exam constraint
+    await expect(replace([MORNING], [seat(MORNING, 0, 3), seat(MORNING, 0, 4)])).rejects.toThrow();
+
+    expect(await seatsOf(MORNING)).toEqual([
+      { student_id: STUDENTS[0], bench_number: 1 },
+      { student_id: STUDENTS[1], bench_number: 2 }
+    ]);
+  });
+
+  it('rejects rows for an exam outside the set being replaced', async () => {
+    await replace([MORNING], [seat(MORNING, 0, 1)]);
+
+    await expect(replace([MORNING], [seat(OVERLAPPING, 2, 1)])).rejects.toThrow(/outside the set/);
+    expect(await seatsOf(MORNING)).toHaveLength(1);
+  });
+});
+
+describe('double-booking', () => {
+  it('rejects a seat taken by an exam in an overlapping time slot, keeping the old plan', async () => {
+    await replace([MORNING], [seat(MORNING, 0, 1)]);
+    await replace([OVERLAPPING], [seat(OVERLAPPING, 2, 2)]);
+
+    await expect(replace([OVERLAPPING], [seat(OVERLAPPING, 2, 1)])).rejects.toThrow(/already taken/);
+    expect(await seatsOf(OVERLAPPING)).toEqual([{ student_id: STUDENTS[2], bench_number: 2 }]);
+  });
+
+  it('lets exams in separate time slots use the same seat', async () => {
+    await replace([MORNING], [seat(MORNING, 0, 1)]);
+
+    expect(await replace([AFTERNOON], [seat(AFTERNOON, 3, 1)])).toBe(1);
+  });
+
+  it('lets exams replaced together swap seats in one call', async () => {
+    await replace([MORNING, OVERLAPPING], [seat(MORNING, 0, 1), seat(OVERLAPPING, 2, 2)]);
+
+    expect(await replace([MORNING, OVERLAPPING], [seat(MORNING, 0, 2), seat(OVERLAPPING, 2, 1)])).toBe(2);
+  });
+
+  it('frees the seats of a cancelled exam', async () => {
+    await replace([MORNING], [seat(MORNING, 0, 1)]);
+    await db.query(`UPDATE public.exams SET status = 'cancelled' WHERE id = $1`, [MORNING]);
+
+    try {
+      expect(await replace([OVERLAPPING], [seat(OVERLAPPING, 2, 1)])).toBe(1);
+    } finally {
+      await db.query(`UPDATE public.exams SET status = 'scheduled' WHERE id = $1`, [MORNING]);
+    }
+  });
+});
+
+describe('rollback_seating_plan', () => {
+  async function recordVersion(seats: Seat[]) {
+    const { rows } = await db.query<{ id: string; version: number }>(
+      `INSERT INTO public.seating_plans (exam_ids, strategy, seed, parameters, fingerprint, assignments, created_by)
+       VALUES ($1::uuid[], 'alternate', 1, '{}', 'fingerprint', $2::jsonb, 'Dr. Rao')
+       RETURNING id, version`,
+      [[MORNING], JSON.stringify(seats.map(s => ({ ...s, classroom_id: ROOM })))]
+    );
+    return rows[0];
+  }
+
+  it('puts back the seats of an earlier version and records it as a new one', async () => {
+    const first = await recordVersion([seat(MORNING, 0, 1), seat(MORNING, 1, 2)]);
+    await replace([MORNING], [seat(MORNING, 0, 7)]);
+    await recordVersion([seat(MORNING, 0, 7)]);
+
+    const { rows } = await db.query<{ restored: string }>(
+      'SELECT public.rollback_seating_plan($1, $2) AS restored',
+      [first.id, 'Dr. Rao']
+    );
+
+    expect(await seatsOf(MORNING)).toEqual([
+      { student_id: STUDENTS[0], bench_number: 1 },
+      { student_id: STUDENTS[1], bench_number: 2 }
+    ]);
+
+    const restored = await db.query<{ version: number; restored_from: string }>(
+      'SELECT version, restored_from FROM public.seating_plans WHERE id = $1',
+      [rows[0].restored]
+    );
+    expect(restored.rows[0]).toEqual({ version: first.version + 2, restored_from: first.id });
+  });
+
+  it('leaves the current seats alone when the earlier version no longer fits', async () => {
+    const first = await recordVersion([seat(MORNING, 0, 1)]);
+    await replace([MORNING], [seat(MORNING, 0, 3)]);
+    await replace([OVERLAPPING], [seat(OVERLAPPING, 2, 1)]);
+
+    await expect(db.query('SELECT public.rollback_seating_plan($1, $2)', [first.id, 'Dr. Rao'])).rejects.toThrow(/already taken/);
+
+    expect(await seatsOf(MORNING)).toEqual([{ student_id: STUDENTS[0], bench_number: 3 }]);
+    const { rows } = await db.query('SELECT id FROM public.seating_plans');
+    expect(rows).toHaveLength(1);
+  });
+});